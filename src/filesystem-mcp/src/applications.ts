@@ -0,0 +1,192 @@
+/**
+ * Job applications: which CV revision was sent to which job, and what came
+ * back. An application moves through a fixed status lifecycle and keeps a
+ * timestamped event log of every status change and note.
+ *
+ *   drafted -> submitted -> screening -> interview -> offer
+ *
+ * Any open application can end as rejected or withdrawn; screening can be
+ * skipped, an interview can be followed by further interviews, and the
+ * closed states rejected and withdrawn are final.
+ */
+
+export type ApplicationStatus =
+  | 'drafted'
+  | 'submitted'
+  | 'screening'
+  | 'interview'
+  | 'offer'
+  | 'rejected'
+  | 'withdrawn';
+
+export const APPLICATION_STATUSES: ApplicationStatus[] = [
+  'drafted',
+  'submitted',
+  'screening',
+  'interview',
+  'offer',
+  'rejected',
+  'withdrawn',
+];
+
+// Statuses each status may move to
+export const STATUS_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+  drafted: ['submitted', 'withdrawn'],
+  submitted: ['screening', 'interview', 'offer', 'rejected', 'withdrawn'],
+  screening: ['interview', 'offer', 'rejected', 'withdrawn'],
+  interview: ['interview', 'offer', 'rejected', 'withdrawn'],
+  offer: ['rejected', 'withdrawn'],
+  rejected: [],
+  withdrawn: [],
+};
+
+export interface ApplicationEvent {
+  at: string;
+  type: 'created' | 'status' | 'note';
+  status?: ApplicationStatus; // Status after the event, for 'created' and 'status'
+  from?: ApplicationStatus; // Previous status, for 'status'
+  note?: string;
+}
+
+export interface Application {
+  applicationId: string;
+  jobId: string;
+  cvFilename: string;
+  cvVersion: number | null; // CV revision sent; null if the CV has no history
+  status: ApplicationStatus;
+  events: ApplicationEvent[];
+  createdAt: string;
+  updatedAt: string; // Time of the latest event
+  storedAt?: string;
+  schemaVersion?: number;
+  [key: string]: unknown;
+}
+
+export interface ApplicationFilters {
+  jobId?: string;
+  cvFilename?: string;
+  status?: ApplicationStatus | ApplicationStatus[];
+  updatedAfter?: string;
+  updatedBefore?: string;
+}
+
+export function isApplicationStatus(value: unknown): value is ApplicationStatus {
+  return APPLICATION_STATUSES.includes(value as ApplicationStatus);
+}
+
+/**
+ * Parses an optional event time, defaulting to now. Events may be backdated
+ * (e.g. recording a submission made yesterday) but not placed in the future
+ * or before the application's latest event.
+ */
+export function eventTime(at: unknown, now: Date = new Date()): string {
+  if (at === undefined || at === null) {
+    return now.toISOString();
+  }
+  const time = typeof at === 'string' ? Date.parse(at) : NaN;
+  if (Number.isNaN(time)) {
+    throw new Error(`at must be an ISO 8601 date-time (got "${at}")`);
+  }
+  if (time > now.getTime()) {
+    throw new Error(`at must not be in the future (got "${at}")`);
+  }
+  return new Date(time).toISOString();
+}
+
+export function newApplication(
+  applicationId: string,
+  jobId: string,
+  cvFilename: string,
+  cvVersion: number | null,
+  status: ApplicationStatus,
+  at: string,
+  note?: string
+): Application {
+  if (!isApplicationStatus(status)) {
+    throw new Error(`Invalid status "${status}". Expected one of: ${APPLICATION_STATUSES.join(', ')}`);
+  }
+  return {
+    applicationId,
+    jobId,
+    cvFilename,
+    cvVersion,
+    status,
+    events: [{ at, type: 'created', status, ...(note ? { note } : {}) }],
+    createdAt: at,
+    updatedAt: at,
+  };
+}
+
+/**
+ * Records a status change and/or a note. Throws if the status change is not
+ * allowed from the current status.
+ */
+export function updateApplication(
+  application: Application,
+  change: { status?: ApplicationStatus; note?: string; at: string }
+): Application {
+  const events = [...application.events];
+  let status = application.status;
+
+  // Keeps the event log in order, so the last status event is the current status
+  if (events.length > 0 && change.at < events[events.length - 1].at) {
+    throw new Error(`at must not be before the latest event (${events[events.length - 1].at})`);
+  }
+
+  if (change.status !== undefined && change.status !== null) {
+    if (!isApplicationStatus(change.status)) {
+      throw new Error(`Invalid status "${change.status}". Expected one of: ${APPLICATION_STATUSES.join(', ')}`);
+    }
+    if (!STATUS_TRANSITIONS[status].includes(change.status)) {
+      const allowed = STATUS_TRANSITIONS[status];
+      throw new Error(`Invalid status change ${status} -> ${change.status}. `
+        + (allowed.length > 0 ? `Allowed from ${status}: ${allowed.join(', ')}` : `${status} is final`));
+    }
+    events.push({ at: change.at, type: 'status', from: status, status: change.status, ...(change.note ? { note: change.note } : {}) });
+    status = change.status;
+  } else if (change.note) {
+    events.push({ at: change.at, type: 'note', note: change.note });
+  } else {
+    throw new Error('Nothing to update: pass status and/or note');
+  }
+
+  return {
+    ...application,
+    status,
+    events,
+    updatedAt: events[events.length - 1].at,
+  };
+}
+
+export function filterApplications<T extends Partial<Application>>(items: T[], filters: ApplicationFilters): T[] {
+  const statuses = filters.status === undefined
+    ? null
+    : Array.isArray(filters.status) ? filters.status : [filters.status];
+  const after = filters.updatedAfter ? Date.parse(filters.updatedAfter) : null;
+  const before = filters.updatedBefore ? Date.parse(filters.updatedBefore) : null;
+
+  return items.filter(item => {
+    if (filters.jobId && item.jobId !== filters.jobId) return false;
+    if (filters.cvFilename && item.cvFilename !== filters.cvFilename) return false;
+    if (statuses && !statuses.includes(item.status as ApplicationStatus)) return false;
+    const updatedAt = Date.parse(item.updatedAt ?? '');
+    if (after !== null && !(updatedAt >= after)) return false;
+    if (before !== null && !(updatedAt <= before)) return false;
+    return true;
+  });
+}
+
+/**
+ * The most recently updated application per job, as shown by list_jobs.
+ */
+export function latestApplicationByJob<T extends Partial<Application>>(items: T[]): Map<string, T> {
+  const latest = new Map<string, T>();
+  for (const item of items) {
+    if (typeof item.jobId !== 'string') continue;
+    const current = latest.get(item.jobId);
+    if (!current || (item.updatedAt ?? '') > (current.updatedAt ?? '')) {
+      latest.set(item.jobId, item);
+    }
+  }
+  return latest;
+}
@@ -0,0 +1,63 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+
+/**
+ * Crash- and concurrency-safe file writes.
+ *
+ * Data is written to a temp file in the target directory and then renamed over
+ * the target, so readers see either the old or the new content, never a
+ * partial write. Temp files start with a dot, which no valid entity ID does
+ * (see entity-id.ts), so listings can skip them with isTempFile().
+ */
+
+const TEMP_SUFFIX = '.tmp';
+
+export interface PendingWrite {
+  filePath: string;
+  data: string | Buffer;
+}
+
+export function isTempFile(file: string): boolean {
+  return file.startsWith('.') && file.endsWith(TEMP_SUFFIX);
+}
+
+export async function writeFileAtomic(filePath: string, data: string | Buffer): Promise<void> {
+  await writeFilesAtomic([{ filePath, data }]);
+}
+
+/**
+ * Writes several files so that each one is replaced atomically. All temp files
+ * are written (and flushed) before the first rename, which keeps the window in
+ * which a reader sees a mix of old and new files as short as possible.
+ */
+export async function writeFilesAtomic(writes: PendingWrite[]): Promise<void> {
+  const staged: Array<{ tempPath: string; filePath: string }> = [];
+
+  try {
+    for (const { filePath, data } of writes) {
+      const tempPath = path.join(
+        path.dirname(filePath),
+        `.${path.basename(filePath)}.${process.pid}.${crypto.randomBytes(4).toString('hex')}${TEMP_SUFFIX}`
+      );
+      staged.push({ tempPath, filePath });
+
+      const handle = await fs.promises.open(tempPath, 'w');
+      try {
+        await handle.writeFile(data);
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+    }
+
+    for (const { tempPath, filePath } of staged) {
+      await fs.rename(tempPath, filePath);
+    }
+  } catch (error) {
+    for (const { tempPath } of staged) {
+      await fs.remove(tempPath).catch(() => undefined);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Validation and canonical slugs for caller-supplied entity IDs.
+ *
+ * CV filenames, job IDs and matrix IDs end up as file names inside data/, and
+ * in HTTP mode they arrive from any origin. Every ID must therefore be a single
+ * plain path segment: no separators, no traversal, no control characters.
+ *
+ * Anything else that is a portable file name is accepted, so entities stored
+ * under names like "Lebenslauf Müller.md" stay readable and writable; the
+ * slug is the canonical form for new IDs, not a requirement.
+ *
+ * matrix-analysis-mcp writes matrices under the same rules, so both packages
+ * keep a copy of src/common/entity-id.ts; their npm test checks that the
+ * copies match it.
+ */
+
+const MAX_ID_LENGTH = 200;
+const CONTROL_CHARS = /[\u0000-\u001f\u007f]/;
+// Not allowed in file names on Windows; ':' would also read as a drive or stream
+const RESERVED_CHARS = /[<>:"|?*]/;
+const DEFAULT_SLUG = 'untitled';
+
+export const INVALID_ENTITY_ID = 'INVALID_ENTITY_ID';
+
+export class EntityIdError extends Error {
+  readonly code = INVALID_ENTITY_ID;
+
+  constructor(
+    readonly field: string,
+    readonly value: unknown,
+    readonly reason: string,
+    readonly suggestion?: string
+  ) {
+    super(`Invalid ${field}: ${reason}`);
+    this.name = 'EntityIdError';
+  }
+
+  toJSON() {
+    return {
+      code: this.code,
+      field: this.field,
+      value: this.value,
+      reason: this.reason,
+      ...(this.suggestion ? { suggestion: this.suggestion } : {}),
+    };
+  }
+}
+
+export interface EntityIdOptions {
+  // Suffixes reserved for sidecar files, e.g. '.meta.json' next to a CV
+  reservedSuffixes?: string[];
+}
+
+/**
+ * Throws an EntityIdError unless `value` is safe to use as a file name inside
+ * a data/ subdirectory. The error carries a canonical slug as a suggestion
+ * whenever one can be derived.
+ *
+ * @param value - Caller-supplied ID or filename
+ * @param field - Argument name reported back to the caller (e.g. 'jobId')
+ */
+export function assertSafeEntityId(value: unknown, field: string, options: EntityIdOptions = {}): asserts value is string {
+  const reject = (reason: string): never => {
+    const suggestion = typeof value === 'string' ? slugifyEntityId(value) : undefined;
+    throw new EntityIdError(field, value, reason, suggestion !== value ? suggestion : undefined);
+  };
+
+  if (typeof value !== 'string' || value.length === 0) {
+    reject('must be a non-empty string');
+  }
+  const id = value as string;
+
+  if (id.length > MAX_ID_LENGTH) {
+    reject(`must be at most ${MAX_ID_LENGTH} characters`);
+  }
+  if (CONTROL_CHARS.test(id)) {
+    reject('must not contain control characters');
+  }
+  if (id.startsWith('/') || id.startsWith('\\') || /^[A-Za-z]:/.test(id)) {
+    reject('must not be an absolute path');
+  }
+  if (id.includes('/') || id.includes('\\')) {
+    reject('must not contain path separators');
+  }
+  if (id.includes('..')) {
+    reject('must not contain ".."');
+  }
+  if (id.startsWith('.')) {
+    reject('must not start with "."');
+  }
+  if (id.trim() !== id) {
+    reject('must not start or end with whitespace');
+  }
+  if (RESERVED_CHARS.test(id)) {
+    reject('must not contain any of < > : " | ? *');
+  }
+  for (const suffix of options.reservedSuffixes ?? []) {
+    if (id.endsWith(suffix)) {
+      reject(`must not end with reserved suffix "${suffix}"`);
+    }
+  }
+}
+
+/**
+ * Canonical slug for an entity ID: lower-case ASCII letters and digits joined
+ * by single hyphens, with dots kept so file extensions survive
+ * ("Head of Engineering (Berlin).md" -> "head-of-engineering-berlin.md").
+ */
+export function slugifyEntityId(value: string): string {
+  const slug = value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // strip diacritics left by NFKD
+    .replace(/ß/g, 'ss')
+    .toLowerCase()
+    .replace(/[^a-z0-9.]+/g, '-')
+    .replace(/\.{2,}/g, '.')
+    .replace(/-*\.-*/g, '.')
+    .replace(/^[.-]+|[.-]+$/g, '')
+    .slice(0, MAX_ID_LENGTH)
+    .replace(/[.-]+$/, '');
+
+  return slug || DEFAULT_SLUG;
+}
@@ -0,0 +1,135 @@
+import { JsonSchema, SchemaValidationError, validateSchema, FieldError } from './schema-validator.js';
+import { APPLICATION_STATUSES } from './applications.js';
+
+/**
+ * Versioned schemas for the entities persisted under data/.
+ *
+ * Bump an entity's version whenever its schema changes shape. Stored records
+ * carry the `schemaVersion` they were written with, and validate_store reports
+ * every file that does not conform to the current version.
+ */
+
+export type SchemaEntityType = 'CV' | 'Job' | 'Matrix' | 'Application';
+
+export interface EntitySchema {
+  version: number;
+  schema: JsonSchema;
+}
+
+const CV_METADATA_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    matrixId: { type: 'string', minLength: 1 },
+    targetJobs: { type: 'array', items: { type: 'string', minLength: 1 } },
+    optimizationScore: { type: 'number', minimum: 0, maximum: 1 },
+    createdAt: { type: 'string', format: 'date-time' },
+    storedAt: { type: 'string', format: 'date-time' },
+    tags: { type: 'array', items: { type: 'string' } },
+    filename: { type: 'string' },
+    schemaVersion: { type: 'integer' },
+  },
+};
+
+export const ENTITY_SCHEMAS: Record<SchemaEntityType, EntitySchema> = {
+  CV: {
+    version: 1,
+    schema: {
+      type: 'object',
+      properties: {
+        content: { type: 'string', minLength: 1 },
+        metadata: CV_METADATA_SCHEMA,
+      },
+      required: ['content'],
+    },
+  },
+  Job: {
+    version: 1,
+    schema: {
+      type: 'object',
+      properties: {
+        title: { type: 'string', minLength: 1 },
+        company: { type: 'string', minLength: 1 },
+        description: { type: 'string', minLength: 1 },
+        location: { type: 'string' },
+        requirements: { type: 'array', items: { type: 'string' } },
+        url: { type: 'string' },
+        extractedAt: { type: 'string', format: 'date-time' },
+        storedAt: { type: 'string', format: 'date-time' },
+        matrixId: { type: 'string', minLength: 1 },
+        jobId: { type: 'string' },
+        schemaVersion: { type: 'integer' },
+      },
+      required: ['title', 'company', 'description'],
+    },
+  },
+  Matrix: {
+    version: 1,
+    schema: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: ['CV', 'Job'] },
+        entityId: { type: 'string', minLength: 1 },
+        parameters: {
+          type: 'object',
+          additionalProperties: { type: 'number', minimum: 0, maximum: 1 },
+        },
+        weights: { type: 'object' },
+        storedAt: { type: 'string', format: 'date-time' },
+        matrixId: { type: 'string' },
+        schemaVersion: { type: 'integer' },
+      },
+      required: ['type', 'entityId', 'parameters'],
+    },
+  },
+  Application: {
+    version: 1,
+    schema: {
+      type: 'object',
+      properties: {
+        applicationId: { type: 'string', minLength: 1 },
+        jobId: { type: 'string', minLength: 1 },
+        cvFilename: { type: 'string', minLength: 1 },
+        cvVersion: { type: ['integer', 'null'], minimum: 1 },
+        status: { type: 'string', enum: APPLICATION_STATUSES },
+        events: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              at: { type: 'string', format: 'date-time' },
+              type: { type: 'string', enum: ['created', 'status', 'note'] },
+              status: { type: 'string', enum: APPLICATION_STATUSES },
+              from: { type: 'string', enum: APPLICATION_STATUSES },
+              note: { type: 'string' },
+            },
+            required: ['at', 'type'],
+          },
+        },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        storedAt: { type: 'string', format: 'date-time' },
+        schemaVersion: { type: 'integer' },
+      },
+      required: ['applicationId', 'jobId', 'cvFilename', 'status', 'events'],
+    },
+  },
+};
+
+/**
+ * Returns the field-level violations of `value` against the current schema
+ * for `entityType`, with paths rooted at `field`.
+ */
+export function checkEntity(entityType: SchemaEntityType, value: unknown, field: string): FieldError[] {
+  return validateSchema(value, ENTITY_SCHEMAS[entityType].schema, field);
+}
+
+/**
+ * Throws a SchemaValidationError listing every violation unless `value`
+ * conforms to the current schema for `entityType`.
+ */
+export function assertValidEntity(entityType: SchemaEntityType, value: unknown, field: string): void {
+  const errors = checkEntity(entityType, value, field);
+  if (errors.length > 0) {
+    throw new SchemaValidationError(entityType, ENTITY_SCHEMAS[entityType].version, errors);
+  }
+}
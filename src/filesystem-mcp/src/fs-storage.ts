@@ -0,0 +1,230 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { isTempFile, writeFileAtomic, writeFilesAtomic, PendingWrite } from './atomic-write.js';
+import {
+  EntityWrite,
+  StorageArea,
+  StorageBackend,
+  StorageKind,
+  StoredEntity,
+  StoredRevision,
+} from './storage.js';
+
+/**
+ * Directory-layout storage backend (the original data/ format):
+ *
+ *   data/<subdir>/<id>.json                 jobs, matrices and applications
+ *   data/cvs/<filename>                     CV markdown
+ *   data/cvs/<filename>.meta.json           CV metadata
+ *   data/versions/cvs/<filename>/<N>.md     CV revision content (+ <N>.json record)
+ *   data/archive/...                        the same layout for archived entities,
+ *                                           plus <file>.tombstone.json
+ */
+
+export const ARCHIVE_DIR_NAME = 'archive';
+export const VERSIONS_DIR_NAME = 'versions';
+export const TOMBSTONE_SUFFIX = '.tombstone.json';
+export const CV_META_SUFFIX = '.meta.json';
+
+// Subdirectory of data/ (and of data/archive/) holding each entity kind
+export const ENTITY_SUBDIRS: Record<StorageKind, string> = {
+  cv: 'cvs',
+  job: 'jobs',
+  matrix: 'matrices',
+  application: 'applications',
+};
+
+export class FsStorage implements StorageBackend {
+  readonly type = 'fs' as const;
+  readonly location: string;
+
+  constructor(private readonly dataDir: string, projectRoot: string) {
+    this.location = path.relative(projectRoot, dataDir) || '.';
+  }
+
+  async list(kind: StorageKind, area: StorageArea = 'active'): Promise<string[]> {
+    const dir = this.entityDir(kind, area);
+    if (!(await fs.pathExists(dir))) {
+      return [];
+    }
+
+    return (await fs.readdir(dir))
+      .filter(file => !isTempFile(file) && !file.endsWith(TOMBSTONE_SUFFIX))
+      .filter(file => (kind === 'cv' ? !file.endsWith(CV_META_SUFFIX) : file.endsWith('.json')))
+      .map(file => (kind === 'cv' ? file : path.basename(file, '.json')));
+  }
+
+  async changeTokens(kind: StorageKind, area: StorageArea = 'active'): Promise<Map<string, string>> {
+    const tokens = new Map<string, string>();
+    for (const id of await this.list(kind, area)) {
+      const primaryPath = this.primaryPath(kind, id, area);
+      const dependencies = [
+        primaryPath,
+        ...(kind === 'cv' ? [`${primaryPath}${CV_META_SUFFIX}`] : []),
+        ...(area === 'archive' ? [`${primaryPath}${TOMBSTONE_SUFFIX}`] : []),
+      ];
+
+      const parts: string[] = [];
+      for (const dependency of dependencies) {
+        const stat = await fs.stat(dependency).catch(() => null);
+        parts.push(stat ? `${stat.mtimeMs}:${stat.size}` : '-');
+      }
+      tokens.set(id, parts.join('|'));
+    }
+    return tokens;
+  }
+
+  async exists(kind: StorageKind, id: string, area: StorageArea = 'active'): Promise<boolean> {
+    return fs.pathExists(this.primaryPath(kind, id, area));
+  }
+
+  async read(kind: StorageKind, id: string, area: StorageArea = 'active'): Promise<StoredEntity | null> {
+    const primaryPath = this.primaryPath(kind, id, area);
+    if (!(await fs.pathExists(primaryPath))) {
+      return null;
+    }
+
+    const content = await fs.readFile(primaryPath, 'utf-8');
+    const metaPath = `${primaryPath}${CV_META_SUFFIX}`;
+    const meta = kind === 'cv' && (await fs.pathExists(metaPath))
+      ? await fs.readFile(metaPath, 'utf-8')
+      : null;
+    return { content, meta };
+  }
+
+  async write(kind: StorageKind, id: string, entity: EntityWrite, area: StorageArea = 'active'): Promise<void> {
+    const primaryPath = this.primaryPath(kind, id, area);
+    await fs.ensureDir(path.dirname(primaryPath));
+
+    // Content and metadata are staged together so a reader never sees one without the other
+    const writes: PendingWrite[] = [{ filePath: primaryPath, data: entity.content }];
+    if (kind === 'cv' && typeof entity.meta === 'string') {
+      writes.push({ filePath: `${primaryPath}${CV_META_SUFFIX}`, data: entity.meta });
+    }
+    await writeFilesAtomic(writes);
+
+    if (kind === 'cv' && entity.meta === null) {
+      await fs.remove(`${primaryPath}${CV_META_SUFFIX}`);
+    }
+  }
+
+  async remove(kind: StorageKind, id: string, area: StorageArea = 'active'): Promise<boolean> {
+    const primaryPath = this.primaryPath(kind, id, area);
+    if (!(await fs.pathExists(primaryPath))) {
+      return false;
+    }
+
+    await fs.remove(primaryPath);
+    if (kind === 'cv') {
+      await fs.remove(`${primaryPath}${CV_META_SUFFIX}`);
+      await fs.remove(this.revisionDir(id, area));
+    }
+    if (area === 'archive') {
+      await fs.remove(`${primaryPath}${TOMBSTONE_SUFFIX}`);
+    }
+    return true;
+  }
+
+  async archive(kind: StorageKind, id: string, tombstone: string): Promise<void> {
+    const primaryPath = this.primaryPath(kind, id, 'active');
+    const archivedPath = this.primaryPath(kind, id, 'archive');
+    await fs.ensureDir(path.dirname(archivedPath));
+
+    await fs.move(primaryPath, archivedPath, { overwrite: true });
+    if (kind === 'cv') {
+      if (await fs.pathExists(`${primaryPath}${CV_META_SUFFIX}`)) {
+        await fs.move(`${primaryPath}${CV_META_SUFFIX}`, `${archivedPath}${CV_META_SUFFIX}`, { overwrite: true });
+      } else {
+        await fs.remove(`${archivedPath}${CV_META_SUFFIX}`);
+      }
+
+      // Revision history follows the CV into the archive
+      await fs.remove(this.revisionDir(id, 'archive'));
+      if (await fs.pathExists(this.revisionDir(id, 'active'))) {
+        await fs.move(this.revisionDir(id, 'active'), this.revisionDir(id, 'archive'));
+      }
+    }
+    await this.writeTombstone(kind, id, tombstone);
+  }
+
+  async readTombstone(kind: StorageKind, id: string): Promise<string | null> {
+    const tombstonePath = `${this.primaryPath(kind, id, 'archive')}${TOMBSTONE_SUFFIX}`;
+    return (await fs.pathExists(tombstonePath)) ? fs.readFile(tombstonePath, 'utf-8') : null;
+  }
+
+  async writeTombstone(kind: StorageKind, id: string, tombstone: string): Promise<void> {
+    const tombstonePath = `${this.primaryPath(kind, id, 'archive')}${TOMBSTONE_SUFFIX}`;
+    await fs.ensureDir(path.dirname(tombstonePath));
+    await writeFileAtomic(tombstonePath, tombstone);
+  }
+
+  async rename(kind: 'cv', id: string, newId: string): Promise<void> {
+    const fromPath = this.primaryPath(kind, id, 'active');
+    const toPath = this.primaryPath(kind, newId, 'active');
+
+    await fs.move(fromPath, toPath, { overwrite: true });
+    if (await fs.pathExists(`${fromPath}${CV_META_SUFFIX}`)) {
+      await fs.move(`${fromPath}${CV_META_SUFFIX}`, `${toPath}${CV_META_SUFFIX}`, { overwrite: true });
+    } else {
+      // Don't leave the replaced CV's metadata attached to the renamed one
+      await fs.remove(`${toPath}${CV_META_SUFFIX}`);
+    }
+
+    await fs.remove(this.revisionDir(newId, 'active'));
+    if (await fs.pathExists(this.revisionDir(id, 'active'))) {
+      await fs.move(this.revisionDir(id, 'active'), this.revisionDir(newId, 'active'));
+    }
+  }
+
+  async writeRevision(cvId: string, version: number, revision: StoredRevision, area: StorageArea = 'active'): Promise<void> {
+    const revisionDir = this.revisionDir(cvId, area);
+    await fs.ensureDir(revisionDir);
+    await writeFilesAtomic([
+      { filePath: path.join(revisionDir, `${version}.md`), data: revision.content },
+      { filePath: path.join(revisionDir, `${version}.json`), data: revision.record },
+    ]);
+  }
+
+  async readRevision(cvId: string, version: number, area: StorageArea = 'active'): Promise<StoredRevision | null> {
+    const revisionDir = this.revisionDir(cvId, area);
+    const recordPath = path.join(revisionDir, `${version}.json`);
+    if (!(await fs.pathExists(recordPath))) {
+      return null;
+    }
+    return {
+      content: await fs.readFile(path.join(revisionDir, `${version}.md`), 'utf-8'),
+      record: await fs.readFile(recordPath, 'utf-8'),
+    };
+  }
+
+  async readRevisionRecords(cvId: string, area: StorageArea = 'active'): Promise<string[]> {
+    const revisionDir = this.revisionDir(cvId, area);
+    if (!(await fs.pathExists(revisionDir))) {
+      return [];
+    }
+
+    const records: string[] = [];
+    for (const file of (await fs.readdir(revisionDir)).filter(f => f.endsWith('.json') && !isTempFile(f))) {
+      records.push(await fs.readFile(path.join(revisionDir, file), 'utf-8'));
+    }
+    return records;
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+
+  private entityDir(kind: StorageKind, area: StorageArea): string {
+    const base = area === 'archive' ? path.join(this.dataDir, ARCHIVE_DIR_NAME) : this.dataDir;
+    return path.join(base, ENTITY_SUBDIRS[kind]);
+  }
+
+  private primaryPath(kind: StorageKind, id: string, area: StorageArea): string {
+    return path.join(this.entityDir(kind, area), kind === 'cv' ? id : `${id}.json`);
+  }
+
+  private revisionDir(cvId: string, area: StorageArea): string {
+    const base = area === 'archive' ? path.join(this.dataDir, ARCHIVE_DIR_NAME) : this.dataDir;
+    return path.join(base, VERSIONS_DIR_NAME, 'cvs', cvId);
+  }
+}
@@ -5,20 +5,66 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import {
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import fs from 'fs-extra';
 import path from 'path';
 import http from 'http';
+import { diffLines, formatDiff } from './text-diff.js';
+import { assertSafeEntityId, EntityIdError, slugifyEntityId } from './entity-id.js';
+import { SchemaValidationError, FieldError } from './schema-validator.js';
+import { ENTITY_SCHEMAS, SchemaEntityType, assertValidEntity, checkEntity } from './entity-schemas.js';
+import { SearchIndex, SearchDocument, SearchKind, SearchQuery } from './search-index.js';
+import { ListingManifest } from './listing-manifest.js';
+import { StorageBackend, StorageBackendType, StorageArea, STORAGE_BACKEND_TYPES, createStorageBackend } from './storage.js';
+import { listStoredEntities, migrateStorage } from './storage-migration.js';
+import { RESOURCE_MIME_TYPES, RESOURCE_SCHEMES, ResourceChanges, ResourceWatcher, parseResourceUri, resourceUri } from './resources.js';
+import { ARCHIVE_DIR_NAME, CV_META_SUFFIX, ENTITY_SUBDIRS, TOMBSTONE_SUFFIX } from './fs-storage.js';
+import { EntityLocks } from './entity-locks.js';
+import { ARCHIVE_EXTENSION, ArchiveSource, buildArchive, readArchive, writeArchive } from './workspace-archive.js';
+import {
+  IntegrityIssue,
+  LinkSnapshot,
+  LinkTarget,
+  LinkValidationError,
+  checkLink,
+  entityLinks,
+  findLinkIssues,
+  findRelinkCandidate,
+  markBrokenLink,
+} from './integrity.js';
+import { ListFilters, ListOptions, applyFilters, paginate } from './list-query.js';
+import {
+  Application,
+  ApplicationFilters,
+  ApplicationStatus,
+  eventTime,
+  filterApplications,
+  latestApplicationByJob,
+  newApplication,
+  updateApplication,
+} from './applications.js';
 
 // Configuration constants - use relative paths from project root
 const PROJECT_ROOT_ENV_VAR = 'CV_PROJECT_ROOT';
+const STORAGE_BACKEND_ENV_VAR = 'CV_STORAGE_BACKEND';
+const DEFAULT_STORAGE_BACKEND: StorageBackendType = 'fs';
 const DEFAULT_PROJECT_ROOT = process.cwd(); // Use current working directory as default
 const SERVICE_NAME = 'cv-filesystem-mcp';
-const SERVICE_VERSION = '1.0.1';
+const SERVICE_VERSION: string = fs.readJsonSync(path.resolve(__dirname, '../package.json')).version; // Same from src/ and dist/
 const DATA_DIR_NAME = 'data';
 const VAR_DIR_NAME = 'var';
 const CONF_DIR_NAME = 'conf';
+const SEARCH_INDEX_FILE = 'search-index.json';
+const LIST_MANIFEST_FILE = 'list-manifest.json';
+const LOCKS_DIR_NAME = 'locks';
+const EXPORTS_DIR_NAME = 'exports';
+const RESOURCE_POLL_INTERVAL_MS = 2000;
 const DEFAULT_HTTP_PORT = 3001;
 
 interface Config {
@@ -28,9 +74,93 @@ interface Config {
   confDir: string;
 }
 
+interface BatchJobInput {
+  jobId: string;
+  data: any;
+}
+
+interface BatchError {
+  id: string;
+  error: string;
+  code?: string;
+}
+
+interface StoreViolation {
+  entityType: SchemaEntityType;
+  id: string;
+  file: string;
+  schemaVersion: number | null;
+  errors: FieldError[];
+}
+
+interface CvVersionRecord {
+  version: number;
+  filename: string;
+  storedAt: string;
+  size: number;
+  metadata: any;
+  restoredFrom?: number;
+}
+
+interface ListQuery extends ListOptions, ListFilters {
+  includeArchived?: boolean;
+}
+
+// Sort keys accepted by list_jobs / list_cvs, and the fields returned when no projection is given
+const LIST_SORT_KEYS = ['storedAt', 'extractedAt', 'company', 'optimizationScore'];
+const DEFAULT_JOB_FIELDS = ['jobId', 'title', 'company', 'storedAt', 'applicationStatus'];
+const DEFAULT_CV_FIELDS = ['filename', 'metadata'];
+
+// Sort keys and default fields of list_applications
+const APPLICATION_SORT_KEYS = ['updatedAt', 'createdAt', 'status'];
+const DEFAULT_APPLICATION_FIELDS = ['applicationId', 'jobId', 'cvFilename', 'cvVersion', 'status', 'updatedAt'];
+
+interface ApplicationQuery extends ListOptions, ApplicationFilters {}
+
+interface ApplicationInput {
+  jobId: string;
+  cvFilename: string;
+  cvVersion?: number;
+  status?: ApplicationStatus;
+  note?: string;
+  at?: string;
+  applicationId?: string;
+}
+
+interface CvWriteOptions {
+  restoredFrom?: number; // Revision this write rolls back to
+  verbatimMetadata?: boolean; // Write metadata as given instead of stamping filename/storedAt/schemaVersion
+  removeMetadata?: boolean; // Without metadata, remove the current metadata instead of keeping it
+}
+
+type EntityKind = 'cv' | 'job' | 'matrix' | 'application';
+
+type ImportStrategy = 'merge' | 'overwrite' | 'skip';
+
+const IMPORT_STRATEGIES: ImportStrategy[] = ['merge', 'overwrite', 'skip'];
+
+interface ImportReportItem {
+  kind: EntityKind;
+  id: string;
+  reason?: string;
+}
+
+const ENTITY_LABELS: Record<EntityKind, string> = {
+  cv: 'CV',
+  job: 'Job',
+  matrix: 'Matrix',
+  application: 'Application',
+};
+
 class FilesystemMCP {
   private config: Config;
   private server: Server;
+  private searchIndex: SearchIndex;
+  private listingManifest: ListingManifest;
+  private entityLocks: EntityLocks;
+  private storage: StorageBackend;
+  private resourceWatcher: ResourceWatcher;
+  private resourceSubscriptions = new Set<string>();
 
   constructor() {
     this.server = new Server(
@@ -41,6 +171,7 @@ class FilesystemMCP {
       {
         capabilities: {
           tools: {},
+          resources: { subscribe: true, listChanged: true },
         },
       }
     );
@@ -62,8 +193,19 @@ class FilesystemMCP {
       varDir: path.join(projectRoot, VAR_DIR_NAME),
       confDir: path.join(projectRoot, CONF_DIR_NAME),
     };
+    this.searchIndex = new SearchIndex(path.join(this.config.varDir, SEARCH_INDEX_FILE));
+    this.listingManifest = new ListingManifest(path.join(this.config.varDir, LIST_MANIFEST_FILE));
+    this.entityLocks = new EntityLocks(path.join(this.config.varDir, LOCKS_DIR_NAME));
+    this.storage = createStorageBackend(this.parseStorageBackendType(process.env[STORAGE_BACKEND_ENV_VAR] || DEFAULT_STORAGE_BACKEND), this.config.dataDir, projectRoot);
+
+    this.resourceWatcher = new ResourceWatcher(
+      this.storage,
+      changes => this.notifyResourceChanges(changes),
+      error => this.log('warn', `Resource change check failed: ${error instanceof Error ? error.message : String(error)}`)
+    );
 
     this.setupToolHandlers();
+    this.setupResourceHandlers();
     this.setupErrorHandling();
   }
 
@@ -95,6 +237,10 @@ class FilesystemMCP {
                     createdAt: { type: "string" },
                     tags: { type: "array", items: { type: "string" } }
                   }
+                },
+                strictLinks: {
+                  type: "boolean",
+                  description: "Reject the store if a link is dangling instead of returning a warning (default: false)"
                 }
               },
               required: ["filename", "content"],
@@ -109,6 +255,10 @@ class FilesystemMCP {
                 filename: {
                   type: "string",
                   description: "CV filename to load"
+                },
+                version: {
+                  type: "number",
+                  description: "Revision number to load (default: current version)"
                 }
               },
               required: ["filename"],
@@ -116,10 +266,27 @@ class FilesystemMCP {
           },
           {
             name: "list_cvs",
-            description: "List all stored CV variants with metadata",
+            description: "List stored CV variants with metadata, one page at a time (cursor pagination, sorting, filters, field projection)",
             inputSchema: {
               type: "object",
-              properties: {},
+              properties: {
+                includeArchived: {
+                  type: "boolean",
+                  description: "Also list CVs moved to data/archive/ (default: false)"
+                },
+                cursor: { type: "string", description: "nextCursor from the previous page; omit for the first page" },
+                limit: { type: "number", description: "Items per page (default: 50, max: 200)" },
+                sortBy: { type: "string", enum: ["storedAt", "extractedAt", "company", "optimizationScore"], description: "Sort key (default: storedAt); items missing the key sort last" },
+                order: { type: "string", enum: ["asc", "desc"], description: "Sort order (default: desc)" },
+                fields: { type: "array", items: { type: "string" }, description: "Fields to return per item (default: filename, metadata)" },
+                company: { type: ["string", "array"], items: { type: "string" }, description: "Company name(s), case-insensitive exact match" },
+                matrixId: { type: "string", description: "Only items linked to this matrix" },
+                hasMatrix: { type: "boolean", description: "Only items with (true) or without (false) a linked matrixId" },
+                tags: { type: "array", items: { type: "string" }, description: "Tags that must all be present" },
+                storedAfter: { type: "string", description: "Only items stored at or after this ISO 8601 date-time" },
+                storedBefore: { type: "string", description: "Only items stored at or before this ISO 8601 date-time" },
+                minOptimizationScore: { type: "number", description: "Only CVs whose metadata.optimizationScore is at least this value" }
+              },
             },
           },
           {
@@ -145,6 +312,10 @@ class FilesystemMCP {
                     matrixId: { type: "string", description: "ID of associated analysis matrix" }
                   },
                   required: ["title", "company", "description"]
+                },
+                strictLinks: {
+                  type: "boolean",
+                  description: "Reject the store if a link is dangling instead of returning a warning (default: false)"
                 }
               },
               required: ["jobId", "data"],
@@ -166,10 +337,26 @@ class FilesystemMCP {
           },
           {
             name: "list_jobs",
-            description: "List all stored job opportunities",
+            description: "List stored job opportunities one page at a time (cursor pagination, sorting, filters, field projection)",
             inputSchema: {
               type: "object",
-              properties: {},
+              properties: {
+                includeArchived: {
+                  type: "boolean",
+                  description: "Also list jobs moved to data/archive/ (default: false)"
+                },
+                cursor: { type: "string", description: "nextCursor from the previous page; omit for the first page" },
+                limit: { type: "number", description: "Items per page (default: 50, max: 200)" },
+                sortBy: { type: "string", enum: ["storedAt", "extractedAt", "company", "optimizationScore"], description: "Sort key (default: storedAt); items missing the key sort last" },
+                order: { type: "string", enum: ["asc", "desc"], description: "Sort order (default: desc)" },
+                fields: { type: "array", items: { type: "string" }, description: "Fields to return per item (default: jobId, title, company, storedAt, applicationStatus)" },
+                company: { type: ["string", "array"], items: { type: "string" }, description: "Company name(s), case-insensitive exact match" },
+                matrixId: { type: "string", description: "Only items linked to this matrix" },
+                hasMatrix: { type: "boolean", description: "Only items with (true) or without (false) a linked matrixId" },
+                tags: { type: "array", items: { type: "string" }, description: "Tags that must all be present" },
+                storedAfter: { type: "string", description: "Only items stored at or after this ISO 8601 date-time" },
+                storedBefore: { type: "string", description: "Only items stored at or before this ISO 8601 date-time" }
+              },
             },
           },
           {
@@ -192,6 +379,10 @@ class FilesystemMCP {
                     weights: { type: "object", description: "Additional weighting data" }
                   },
                   required: ["type", "entityId", "parameters"]
+                },
+                strictLinks: {
+                  type: "boolean",
+                  description: "Reject the store if a link is dangling instead of returning a warning (default: false)"
                 }
               },
               required: ["matrixId", "data"],
@@ -210,303 +401,2155 @@ class FilesystemMCP {
               },
               required: ["matrixId"],
             },
-          }
-        ],
-      };
-    });
-
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-
-      try {
-        switch (name) {
-          case "store_cv":
-            return await this.storeCv(args?.filename as string, args?.content as string, args?.metadata);
-          case "load_cv":
-            return await this.loadCv(args?.filename as string);
-          case "list_cvs":
-            return await this.listCvs();
-          case "store_job":
-            return await this.storeJob(args?.jobId as string, args?.data);
-          case "load_job":
-            return await this.loadJob(args?.jobId as string);
-          case "list_jobs":
-            return await this.listJobs();
-          case "store_matrix":
-            return await this.storeMatrix(args?.matrixId as string, args?.data);
-          case "load_matrix":
-            return await this.loadMatrix(args?.matrixId as string);
-          default:
-            throw new Error(`Unknown tool: ${name}`);
-        }
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        await this.log('error', `Tool ${name} failed: ${errorMessage}`);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error: ${errorMessage}`,
+          },
+          {
+            name: "load_jobs_batch",
+            description: "Load several job opportunities from data/jobs/ in a single call",
+            inputSchema: {
+              type: "object",
+              properties: {
+                jobIds: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Job identifiers to load"
+                }
+              },
+              required: ["jobIds"],
             },
-          ],
-        };
-      }
-    });
-  }
-
-  private async ensureDir(dirPath: string): Promise<void> {
-    await fs.ensureDir(dirPath);
-  }
-
-  private async log(level: string, message: string): Promise<void> {
-    const logPath = path.join(this.config.varDir, 'filesystem-mcp.log');
-    const timestamp = new Date().toISOString();
-    const logEntry = `${timestamp} [${level.toUpperCase()}] ${message}\n`;
-    
-    await this.ensureDir(this.config.varDir);
-    await fs.appendFile(logPath, logEntry);
-  }
-
-  private async storeCv(filename: string, content: string, metadata?: any) {
-    const cvDir = path.join(this.config.dataDir, 'cvs');
-    await this.ensureDir(cvDir);
-
-    const cvPath = path.join(cvDir, filename);
-    const metaPath = path.join(cvDir, `${filename}.meta.json`);
-
-    await fs.writeFile(cvPath, content);
-    
-    if (metadata) {
-      const enrichedMeta = {
-        ...metadata,
-        filename,
-        storedAt: new Date().toISOString(),
-      };
-      await fs.writeFile(metaPath, JSON.stringify(enrichedMeta, null, 2));
-    }
-
-    await this.log('info', `Stored CV: ${filename}`);
-    
-    return {
-      content: [
-        {
-          type: "text",
-          text: `CV stored successfully: ${filename}`,
-        },
-      ],
-    };
-  }
-
-  private async loadCv(filename: string) {
-    const cvPath = path.join(this.config.dataDir, 'cvs', filename);
-    const metaPath = path.join(this.config.dataDir, 'cvs', `${filename}.meta.json`);
-
-    const content = await fs.readFile(cvPath, 'utf-8');
-    let metadata = null;
-    
-    if (await fs.pathExists(metaPath)) {
-      metadata = JSON.parse(await fs.readFile(metaPath, 'utf-8'));
-    }
-
-    await this.log('info', `Loaded CV: ${filename}`);
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify({ filename, content, metadata }, null, 2),
-        },
-      ],
-    };
-  }
-
-  private async listCvs() {
-    const cvDir = path.join(this.config.dataDir, 'cvs');
-    await this.ensureDir(cvDir);
-
-    const files = await fs.readdir(cvDir);
-    const cvFiles = files.filter(f => !f.endsWith('.meta.json'));
-    
-    const cvList = [];
-    for (const file of cvFiles) {
-      const metaPath = path.join(cvDir, `${file}.meta.json`);
-      let metadata = null;
-      
-      if (await fs.pathExists(metaPath)) {
-        metadata = JSON.parse(await fs.readFile(metaPath, 'utf-8'));
-      }
-      
-      cvList.push({ filename: file, metadata });
-    }
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(cvList, null, 2),
-        },
-      ],
-    };
-  }
-
-  private async storeJob(jobId: string, data: any) {
-    const jobDir = path.join(this.config.dataDir, 'jobs');
-    await this.ensureDir(jobDir);
-
-    const jobPath = path.join(jobDir, `${jobId}.json`);
-    const enrichedData = {
-      ...data,
-      jobId,
-      storedAt: new Date().toISOString(),
-    };
-
-    await fs.writeFile(jobPath, JSON.stringify(enrichedData, null, 2));
-    await this.log('info', `Stored job: ${jobId}`);
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Job stored successfully: ${jobId}`,
-        },
-      ],
-    };
-  }
-
-  private async loadJob(jobId: string) {
-    const jobPath = path.join(this.config.dataDir, 'jobs', `${jobId}.json`);
-    const data = JSON.parse(await fs.readFile(jobPath, 'utf-8'));
-
-    await this.log('info', `Loaded job: ${jobId}`);
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(data, null, 2),
-        },
-      ],
-    };
-  }
-
-  private async listJobs() {
-    const jobDir = path.join(this.config.dataDir, 'jobs');
-    await this.ensureDir(jobDir);
-
-    const files = await fs.readdir(jobDir);
-    const jobFiles = files.filter(f => f.endsWith('.json'));
-    
-    const jobList = [];
-    for (const file of jobFiles) {
-      const jobPath = path.join(jobDir, file);
-      const data = JSON.parse(await fs.readFile(jobPath, 'utf-8'));
-      jobList.push({
-        jobId: data.jobId,
-        title: data.title,
-        company: data.company,
-        storedAt: data.storedAt
-      });
-    }
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(jobList, null, 2),
-        },
-      ],
-    };
-  }
-
-  private async storeMatrix(matrixId: string, data: any) {
-    const matrixDir = path.join(this.config.dataDir, 'matrices');
-    await this.ensureDir(matrixDir);
-
-    const matrixPath = path.join(matrixDir, `${matrixId}.json`);
-    const enrichedData = {
-      ...data,
-      matrixId,
-      storedAt: new Date().toISOString(),
-    };
-
-    await fs.writeFile(matrixPath, JSON.stringify(enrichedData, null, 2));
-    await this.log('info', `Stored matrix: ${matrixId}`);
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Matrix stored successfully: ${matrixId}`,
-        },
-      ],
-    };
-  }
-
-  private async loadMatrix(matrixId: string) {
-    const matrixPath = path.join(this.config.dataDir, 'matrices', `${matrixId}.json`);
-    const data = JSON.parse(await fs.readFile(matrixPath, 'utf-8'));
-
-    await this.log('info', `Loaded matrix: ${matrixId}`);
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(data, null, 2),
-        },
-      ],
-    };
-  }
-
-  private setupErrorHandling() {
-    this.server.onerror = (error) => console.error("[MCP Error]", error);
-    process.on("SIGINT", async () => {
-      await this.server.close();
-      process.exit(0);
-    });
-  }
-
-  // Helper methods for HTTP mode
-  private async handleListTools() {
-    return {
-      result: {
-        tools: [
+          },
           {
-            name: "store_cv",
-            description: "Store a CV variant in data/cvs/",
+            name: "store_jobs_batch",
+            description: "Store several job opportunities in data/jobs/ in a single call",
             inputSchema: {
               type: "object",
               properties: {
-                filename: { type: "string", description: "CV filename" },
-                content: { type: "string", description: "CV content in markdown" },
-                metadata: {
-                  type: "object",
-                  description: "CV metadata with matrix linking",
-                  properties: {
-                    matrixId: { type: "string" },
-                    targetJobs: { type: "array", items: { type: "string" } },
-                    optimizationScore: { type: "number" },
-                    createdAt: { type: "string" },
-                    tags: { type: "array", items: { type: "string" } }
+                jobs: {
+                  type: "array",
+                  description: "Jobs to store, each with the same shape as store_job arguments",
+                  items: {
+                    type: "object",
+                    properties: {
+                      jobId: { type: "string", description: "Unique job identifier" },
+                      data: { type: "object", description: "Job data with matrix linking" }
+                    },
+                    required: ["jobId", "data"]
                   }
+                },
+                strictLinks: {
+                  type: "boolean",
+                  description: "Report jobs with dangling links as errors instead of storing them with a warning (default: false)"
                 }
               },
-              required: ["filename", "content"]
-            }
+              required: ["jobs"],
+            },
           },
           {
-            name: "load_cv",
-            description: "Load a CV variant from data/cvs/",
+            name: "load_cvs_batch",
+            description: "Load several CV variants from data/cvs/ in a single call",
             inputSchema: {
               type: "object",
-              properties: { filename: { type: "string" } },
-              required: ["filename"]
-            }
+              properties: {
+                filenames: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "CV filenames to load"
+                }
+              },
+              required: ["filenames"],
+            },
+          },
+          {
+            name: "delete_cv",
+            description: "Permanently delete a CV variant and its .meta.json sidecar from data/cvs/",
+            inputSchema: {
+              type: "object",
+              properties: {
+                filename: { type: "string", description: "CV filename to delete" }
+              },
+              required: ["filename"],
+            },
+          },
+          {
+            name: "delete_job",
+            description: "Permanently delete a job opportunity from data/jobs/",
+            inputSchema: {
+              type: "object",
+              properties: {
+                jobId: { type: "string", description: "Job identifier to delete" }
+              },
+              required: ["jobId"],
+            },
+          },
+          {
+            name: "delete_matrix",
+            description: "Permanently delete an analysis matrix from data/matrices/",
+            inputSchema: {
+              type: "object",
+              properties: {
+                matrixId: { type: "string", description: "Matrix identifier to delete" }
+              },
+              required: ["matrixId"],
+            },
+          },
+          {
+            name: "archive_cv",
+            description: "Move a CV variant and its metadata to data/archive/cvs/ and leave a tombstone record",
+            inputSchema: {
+              type: "object",
+              properties: {
+                filename: { type: "string", description: "CV filename to archive" },
+                reason: { type: "string", description: "Optional reason recorded in the tombstone" }
+              },
+              required: ["filename"],
+            },
+          },
+          {
+            name: "archive_job",
+            description: "Move a job opportunity to data/archive/jobs/ and leave a tombstone record",
+            inputSchema: {
+              type: "object",
+              properties: {
+                jobId: { type: "string", description: "Job identifier to archive" },
+                reason: { type: "string", description: "Optional reason recorded in the tombstone (e.g. 'posting closed')" }
+              },
+              required: ["jobId"],
+            },
+          },
+          {
+            name: "archive_matrix",
+            description: "Move an analysis matrix to data/archive/matrices/ and leave a tombstone record",
+            inputSchema: {
+              type: "object",
+              properties: {
+                matrixId: { type: "string", description: "Matrix identifier to archive" },
+                reason: { type: "string", description: "Optional reason recorded in the tombstone" }
+              },
+              required: ["matrixId"],
+            },
+          },
+          {
+            name: "rename_cv",
+            description: "Rename a CV variant, its metadata and the entityId of matrices that analyze it",
+            inputSchema: {
+              type: "object",
+              properties: {
+                filename: { type: "string", description: "Current CV filename" },
+                newFilename: { type: "string", description: "New CV filename" },
+                overwrite: { type: "boolean", description: "Replace an existing CV with the new name (default: false)" }
+              },
+              required: ["filename", "newFilename"],
+            },
+          },
+          {
+            name: "list_cv_versions",
+            description: "List the stored revisions of a CV with timestamps and metadata",
+            inputSchema: {
+              type: "object",
+              properties: {
+                filename: { type: "string", description: "CV filename" }
+              },
+              required: ["filename"],
+            },
+          },
+          {
+            name: "diff_cv_versions",
+            description: "Line diff between two revisions of a CV",
+            inputSchema: {
+              type: "object",
+              properties: {
+                filename: { type: "string", description: "CV filename" },
+                fromVersion: { type: "number", description: "Older revision number" },
+                toVersion: { type: "number", description: "Newer revision number (default: latest)" }
+              },
+              required: ["filename", "fromVersion"],
+            },
+          },
+          {
+            name: "restore_cv_version",
+            description: "Make an earlier revision the current CV (recorded as a new revision)",
+            inputSchema: {
+              type: "object",
+              properties: {
+                filename: { type: "string", description: "CV filename" },
+                version: { type: "number", description: "Revision number to restore" }
+              },
+              required: ["filename", "version"],
+            },
+          },
+          {
+            name: "slugify_id",
+            description: "Convert free text into the canonical, storage-safe form used for CV filenames, job IDs and matrix IDs",
+            inputSchema: {
+              type: "object",
+              properties: {
+                value: { type: "string", description: "Text to convert (e.g. 'Head of Engineering @ ACME GmbH')" }
+              },
+              required: ["value"],
+            },
+          },
+          {
+            name: "validate_store",
+            description: "Scan data/ and report every stored CV, job, matrix and application that does not conform to the current entity schemas",
+            inputSchema: {
+              type: "object",
+              properties: {
+                entityType: {
+                  type: "string",
+                  enum: ["CV", "Job", "Matrix", "Application"],
+                  description: "Only check one entity type (default: all)"
+                }
+              },
+            },
+          },
+          {
+            name: "check_integrity",
+            description: "Report dangling links between CVs, jobs, matrices and applications (matrixId, targetJobs, entityId, jobId, cvFilename), optionally repairing them",
+            inputSchema: {
+              type: "object",
+              properties: {
+                repair: {
+                  type: "boolean",
+                  description: "Re-link dangling matrixIds to a matrix whose entityId points back at the entity; mark the remaining broken links in brokenLinks (default: false)"
+                }
+              },
+            },
+          },
+          {
+            name: "search_jobs",
+            description: "Ranked full-text search over stored jobs (title, description, requirements) with facets and pagination",
+            inputSchema: {
+              type: "object",
+              properties: {
+                query: { type: "string", description: "Free-text query; results are ranked by relevance (BM25)" },
+                matchAll: { type: "boolean", description: "Require every query term instead of any (default: false)" },
+                company: { type: ["string", "array"], items: { type: "string" }, description: "Company name(s), exact match" },
+                location: { type: ["string", "array"], items: { type: "string" }, description: "Location substring(s), e.g. 'Berlin' or 'remote'" },
+                tags: { type: "array", items: { type: "string" }, description: "Tags that must all be present" },
+                hasMatrix: { type: "boolean", description: "Only entities with (true) or without (false) a linked matrixId" },
+                dateRange: {
+                  type: "object",
+                  description: "Restrict a date field to a range (ISO 8601, inclusive)",
+                  properties: {
+                    field: { type: "string", enum: ["storedAt", "extractedAt", "createdAt"] },
+                    from: { type: "string" },
+                    to: { type: "string" }
+                  },
+                  required: ["field"]
+                },
+                offset: { type: "number", description: "Number of hits to skip (default: 0)" },
+                limit: { type: "number", description: "Hits per page (default: 20, max: 100)" }
+              },
+            },
+          },
+          {
+            name: "search_cvs",
+            description: "Ranked full-text search over stored CV content and tags with facets and pagination",
+            inputSchema: {
+              type: "object",
+              properties: {
+                query: { type: "string", description: "Free-text query; results are ranked by relevance (BM25)" },
+                matchAll: { type: "boolean", description: "Require every query term instead of any (default: false)" },
+                company: { type: ["string", "array"], items: { type: "string" }, description: "Company name(s), exact match" },
+                location: { type: ["string", "array"], items: { type: "string" }, description: "Location substring(s), e.g. 'Berlin' or 'remote'" },
+                tags: { type: "array", items: { type: "string" }, description: "Tags that must all be present" },
+                hasMatrix: { type: "boolean", description: "Only entities with (true) or without (false) a linked matrixId" },
+                dateRange: {
+                  type: "object",
+                  description: "Restrict a date field to a range (ISO 8601, inclusive)",
+                  properties: {
+                    field: { type: "string", enum: ["storedAt", "extractedAt", "createdAt"] },
+                    from: { type: "string" },
+                    to: { type: "string" }
+                  },
+                  required: ["field"]
+                },
+                offset: { type: "number", description: "Number of hits to skip (default: 0)" },
+                limit: { type: "number", description: "Hits per page (default: 20, max: 100)" }
+              },
+            },
+          },
+          {
+            name: "rebuild_search_index",
+            description: "Rebuild the search index in var/ from data/ (e.g. after editing files by hand)",
+            inputSchema: {
+              type: "object",
+              properties: {},
+            },
+          },
+          {
+            name: "export_workspace",
+            description: "Snapshot data/cvs, data/jobs, data/matrices and data/applications into a single archive in data/exports/ with a manifest, checksums and schema versions",
+            inputSchema: {
+              type: "object",
+              properties: {
+                filename: {
+                  type: "string",
+                  description: "Archive file name ending in .json.gz (default: workspace-<timestamp>.json.gz)"
+                }
+              },
+            },
+          },
+          {
+            name: "import_workspace",
+            description: "Import an archive from data/exports/ after verifying its checksums; reports added, overwritten, skipped and unchanged entities",
+            inputSchema: {
+              type: "object",
+              properties: {
+                filename: {
+                  type: "string",
+                  description: "Archive file name in data/exports/"
+                },
+                strategy: {
+                  type: "string",
+                  enum: ["merge", "overwrite", "skip"],
+                  description: "Conflict handling: skip keeps local entities, overwrite takes the archived ones, merge keeps the later storedAt (default: skip)"
+                },
+                dryRun: {
+                  type: "boolean",
+                  description: "Only report what would change (default: false)"
+                }
+              },
+              required: ["filename"],
+            },
+          },
+          {
+            name: "migrate_storage",
+            description: "Copy all CVs (with revisions), jobs, matrices, applications and archived entities from one storage backend to another. The server keeps using the backend selected by CV_STORAGE_BACKEND",
+            inputSchema: {
+              type: "object",
+              properties: {
+                from: {
+                  type: "string",
+                  enum: ["fs", "sqlite"],
+                  description: "Source backend"
+                },
+                to: {
+                  type: "string",
+                  enum: ["fs", "sqlite"],
+                  description: "Target backend"
+                },
+                dryRun: {
+                  type: "boolean",
+                  description: "Only report what would be copied (default: false)"
+                },
+                overwrite: {
+                  type: "boolean",
+                  description: "Allow a non-empty target, replacing entities with the same ID (default: false)"
+                }
+              },
+              required: ["from", "to"],
+            },
+          },
+          {
+            name: "create_application",
+            description: "Record an application: which CV revision goes (or went) to which job. Stored in data/applications/",
+            inputSchema: {
+              type: "object",
+              properties: {
+                jobId: { type: "string", description: "Job applied to" },
+                cvFilename: { type: "string", description: "CV variant sent" },
+                cvVersion: { type: "number", description: "CV revision sent (default: the current revision)" },
+                status: {
+                  type: "string",
+                  enum: ["drafted", "submitted", "screening", "interview", "offer", "rejected", "withdrawn"],
+                  description: "Initial status (default: drafted)"
+                },
+                note: { type: "string", description: "Note recorded with the creation event" },
+                at: { type: "string", description: "ISO 8601 time of the event (default: now; may be in the past)" },
+                applicationId: { type: "string", description: "Application identifier (default: <jobId>-<cv name>)" }
+              },
+              required: ["jobId", "cvFilename"],
+            },
+          },
+          {
+            name: "update_application",
+            description: "Change an application's status and/or add a note; each change is recorded as a timestamped event",
+            inputSchema: {
+              type: "object",
+              properties: {
+                applicationId: { type: "string", description: "Application to update" },
+                status: {
+                  type: "string",
+                  enum: ["drafted", "submitted", "screening", "interview", "offer", "rejected", "withdrawn"],
+                  description: "New status; must be reachable from the current one (rejected and withdrawn are final)"
+                },
+                note: { type: "string", description: "Note to record" },
+                at: { type: "string", description: "ISO 8601 time of the event (default: now; not before the latest event)" }
+              },
+              required: ["applicationId"],
+            },
+          },
+          {
+            name: "list_applications",
+            description: "List applications one page at a time with filters by job, CV, status and update time",
+            inputSchema: {
+              type: "object",
+              properties: {
+                jobId: { type: "string", description: "Only applications for this job" },
+                cvFilename: { type: "string", description: "Only applications that sent this CV" },
+                status: {
+                  type: ["string", "array"],
+                  items: { type: "string" },
+                  description: "Status or statuses to include"
+                },
+                updatedAfter: { type: "string", description: "Only applications updated at or after this ISO 8601 date-time" },
+                updatedBefore: { type: "string", description: "Only applications updated at or before this ISO 8601 date-time" },
+                cursor: { type: "string", description: "nextCursor from the previous page; omit for the first page" },
+                limit: { type: "number", description: "Items per page (default: 50, max: 200)" },
+                sortBy: { type: "string", enum: ["updatedAt", "createdAt", "status"], description: "Sort key (default: updatedAt)" },
+                order: { type: "string", enum: ["asc", "desc"], description: "Sort order (default: desc)" },
+                fields: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Fields to return per item (default: applicationId, jobId, cvFilename, cvVersion, status, updatedAt; add events for the event log)"
+                }
+              },
+            },
+          }
+        ],
+      };
+    });
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+
+      try {
+        switch (name) {
+          case "store_cv":
+            return await this.storeCv(args?.filename as string, args?.content as string, args?.metadata, args?.strictLinks as boolean);
+          case "load_cv":
+            return await this.loadCv(args?.filename as string, args?.version as number | undefined);
+          case "list_cvs":
+            return await this.listCvs((args ?? {}) as ListQuery);
+          case "store_job":
+            return await this.storeJob(args?.jobId as string, args?.data, args?.strictLinks as boolean);
+          case "load_job":
+            return await this.loadJob(args?.jobId as string);
+          case "list_jobs":
+            return await this.listJobs((args ?? {}) as ListQuery);
+          case "store_matrix":
+            return await this.storeMatrix(args?.matrixId as string, args?.data, args?.strictLinks as boolean);
+          case "load_matrix":
+            return await this.loadMatrix(args?.matrixId as string);
+          case "load_jobs_batch":
+            return await this.loadJobsBatch(args?.jobIds as string[]);
+          case "store_jobs_batch":
+            return await this.storeJobsBatch(args?.jobs as BatchJobInput[], args?.strictLinks as boolean);
+          case "load_cvs_batch":
+            return await this.loadCvsBatch(args?.filenames as string[]);
+          case "delete_cv":
+            return await this.removeEntity('cv', args?.filename as string, false);
+          case "delete_job":
+            return await this.removeEntity('job', args?.jobId as string, false);
+          case "delete_matrix":
+            return await this.removeEntity('matrix', args?.matrixId as string, false);
+          case "archive_cv":
+            return await this.removeEntity('cv', args?.filename as string, true, args?.reason as string);
+          case "archive_job":
+            return await this.removeEntity('job', args?.jobId as string, true, args?.reason as string);
+          case "archive_matrix":
+            return await this.removeEntity('matrix', args?.matrixId as string, true, args?.reason as string);
+          case "rename_cv":
+            return await this.renameCv(args?.filename as string, args?.newFilename as string, args?.overwrite as boolean);
+          case "list_cv_versions":
+            return await this.listCvVersions(args?.filename as string);
+          case "diff_cv_versions":
+            return await this.diffCvVersions(args?.filename as string, args?.fromVersion as number, args?.toVersion as number | undefined);
+          case "restore_cv_version":
+            return await this.restoreCvVersion(args?.filename as string, args?.version as number);
+          case "slugify_id":
+            return this.slugifyId(args?.value as string);
+          case "validate_store":
+            return await this.validateStore(args?.entityType as SchemaEntityType | undefined);
+          case "check_integrity":
+            return await this.checkIntegrity(args?.repair as boolean);
+          case "search_jobs":
+            return await this.search('job', (args ?? {}) as SearchQuery);
+          case "search_cvs":
+            return await this.search('cv', (args ?? {}) as SearchQuery);
+          case "rebuild_search_index":
+            return await this.rebuildSearchIndex();
+          case "export_workspace":
+            return await this.exportWorkspace(args?.filename as string | undefined);
+          case "import_workspace":
+            return await this.importWorkspace(args?.filename as string, args?.strategy as ImportStrategy, args?.dryRun as boolean);
+          case "migrate_storage":
+            return await this.migrateStorage(args?.from as StorageBackendType, args?.to as StorageBackendType, args?.dryRun as boolean, args?.overwrite as boolean);
+          case "create_application":
+            return await this.createApplication(args as unknown as ApplicationInput);
+          case "update_application":
+            return await this.updateApplicationStatus(
+              args?.applicationId as string,
+              args?.status as ApplicationStatus | undefined,
+              args?.note as string | undefined,
+              args?.at as string | undefined
+            );
+          case "list_applications":
+            return await this.listApplications((args ?? {}) as ApplicationQuery);
+          default:
+            throw new Error(`Unknown tool: ${name}`);
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        await this.log('error', `Tool ${name} failed: ${errorMessage}`);
+        if (error instanceof EntityIdError || error instanceof SchemaValidationError || error instanceof LinkValidationError) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ error: error.toJSON() }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+        };
+      } finally {
+        // Notify subscribers of the tool's own writes without waiting for the next poll
+        void this.resourceWatcher.check();
+      }
+    });
+  }
+
+  /**
+   * Publishes every active CV, job and matrix as an MCP resource
+   * (`cv://<filename>`, `job://<jobId>`, `matrix://<matrixId>`). Subscribed
+   * clients get `notifications/resources/updated` when the entity changes and
+   * everyone gets `notifications/resources/list_changed` when one is added or
+   * removed; see ResourceWatcher.
+   */
+  private setupResourceHandlers() {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => this.listResources());
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => this.listResourceTemplates());
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => this.readResource(request.params.uri));
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      parseResourceUri(request.params.uri);
+      this.resourceSubscriptions.add(request.params.uri);
+      await this.log('info', `Subscribed to resource: ${request.params.uri}`);
+      return {};
+    });
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.resourceSubscriptions.delete(request.params.uri);
+      await this.log('info', `Unsubscribed from resource: ${request.params.uri}`);
+      return {};
+    });
+  }
+
+  /**
+   * CV filenames share data/cvs/ with their sidecars, so on top of the common
+   * ID rules they must not look like a metadata or tombstone file.
+   */
+  private assertCvFilename(filename: unknown, field: string = 'filename'): asserts filename is string {
+    assertSafeEntityId(filename, field, { reservedSuffixes: [CV_META_SUFFIX, TOMBSTONE_SUFFIX] });
+  }
+
+  private parseStorageBackendType(value: unknown, field: string = STORAGE_BACKEND_ENV_VAR): StorageBackendType {
+    if (!STORAGE_BACKEND_TYPES.includes(value as StorageBackendType)) {
+      throw new Error(`${field} must be one of: ${STORAGE_BACKEND_TYPES.join(', ')} (got "${value}")`);
+    }
+    return value as StorageBackendType;
+  }
+
+  private toBatchError(id: string, error: unknown): BatchError {
+    if (error instanceof EntityIdError || error instanceof SchemaValidationError || error instanceof LinkValidationError) {
+      return { id, error: error.message, code: error.code };
+    }
+    return { id, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  private slugifyId(value: string) {
+    if (typeof value !== 'string') {
+      throw new Error('value must be a string');
+    }
+    const slug = slugifyEntityId(value);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ value, slug }, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Runs `fn` while holding the locks of the given entities, so concurrent
+   * writers (other requests or another server process) cannot interleave.
+   */
+  private withEntityLocks<T>(entities: Array<[EntityKind, string]>, fn: () => Promise<T>): Promise<T> {
+    return this.entityLocks.withLocks(entities.map(([kind, id]) => `${kind}/${id}`), fn);
+  }
+
+  private async ensureDir(dirPath: string): Promise<void> {
+    await fs.ensureDir(dirPath);
+  }
+
+  private async log(level: string, message: string): Promise<void> {
+    const logPath = path.join(this.config.varDir, 'filesystem-mcp.log');
+    const timestamp = new Date().toISOString();
+    const logEntry = `${timestamp} [${level.toUpperCase()}] ${message}\n`;
+    
+    await this.ensureDir(this.config.varDir);
+    await fs.appendFile(logPath, logEntry);
+  }
+
+  private async storeCv(filename: string, content: string, metadata?: any, strictLinks: boolean = false) {
+    this.assertCvFilename(filename);
+    assertValidEntity('CV', { content, metadata }, 'arguments');
+    const linkWarnings = await this.validateLinks('cv', filename, metadata, strictLinks);
+    const version = await this.writeCv(filename, content, metadata);
+
+    await this.log('info', `Stored CV: ${filename} (version ${version})`);
+    
+    return {
+      content: [
+        {
+          type: "text",
+          text: `CV stored successfully: ${filename} (version ${version})${this.formatLinkWarnings(linkWarnings)}`,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Writes the current CV and its metadata, then records the result as the next
+   * numbered revision. A CV that predates version history is snapshotted as
+   * revision 1 first so it is never lost.
+   *
+   * @returns The revision number of the content just written
+   */
+  private async writeCv(filename: string, content: string, metadata?: any, options: CvWriteOptions = {}): Promise<number> {
+    return this.withEntityLocks([['cv', filename]], async () => {
+      const existing = await this.storage.read('cv', filename);
+
+      const history = await this.readCvVersions(filename);
+      if (history.length === 0 && existing) {
+        const previousMeta = existing.meta ? JSON.parse(existing.meta) : null;
+        history.push(await this.recordCvVersion(filename, 1, existing.content, previousMeta));
+      }
+
+      let currentMeta = null;
+      if (metadata) {
+        currentMeta = options.verbatimMetadata ? metadata : {
+          ...metadata,
+          filename,
+          storedAt: new Date().toISOString(),
+          schemaVersion: ENTITY_SCHEMAS.CV.version,
+        };
+        await this.storage.write('cv', filename, { content, meta: JSON.stringify(currentMeta, null, 2) });
+      } else if (options.removeMetadata) {
+        await this.storage.write('cv', filename, { content, meta: null });
+      } else {
+        currentMeta = existing?.meta ? JSON.parse(existing.meta) : null;
+        await this.storage.write('cv', filename, { content });
+      }
+
+      const version = history.length > 0 ? history[history.length - 1].version + 1 : 1;
+      await this.recordCvVersion(filename, version, content, currentMeta, options.restoredFrom);
+      await this.updateSearchIndex(() => this.searchIndex.upsert(SearchIndex.cvDocument(filename, content, currentMeta)));
+      return version;
+    });
+  }
+
+  private async loadCv(filename: string, version?: number) {
+    this.assertCvFilename(filename);
+    if (version !== undefined && version !== null) {
+      const { record, content } = await this.readCvVersion(filename, version);
+
+      await this.log('info', `Loaded CV: ${filename} (version ${version})`);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ filename, version, storedAt: record.storedAt, content, metadata: record.metadata }, null, 2),
+          },
+        ],
+      };
+    }
+
+    const cv = await this.storage.read('cv', filename);
+    if (!cv) {
+      throw new Error(`CV not found: ${filename}`);
+    }
+    const content = cv.content;
+    const metadata = cv.meta ? JSON.parse(cv.meta) : null;
+
+    const history = await this.readCvVersions(filename);
+    const currentVersion = history.length > 0 ? history[history.length - 1].version : null;
+
+    await this.log('info', `Loaded CV: ${filename}`);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ filename, version: currentVersion, content, metadata }, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Lists CVs from the listing manifest, so only CVs whose content or metadata
+   * changed since the last call are re-read. Archived CVs also depend on their
+   * tombstone.
+   */
+  private async listCvs(query: ListQuery = {}) {
+    const summaries = await this.listSummaries('cv', 'active', filename => this.summarizeCv(filename, 'active'));
+    if (query.includeArchived) {
+      summaries.push(...await this.listSummaries('cv', 'archive', async filename => ({
+        ...await this.summarizeCv(filename, 'archive'),
+        archived: true,
+        tombstone: await this.readTombstone('cv', filename),
+      })));
+    }
+
+    const page = paginate(applyFilters(summaries, query), query, 'filename', LIST_SORT_KEYS, {
+      sortBy: 'storedAt',
+      order: 'desc',
+      fields: DEFAULT_CV_FIELDS,
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(page, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async summarizeCv(filename: string, area: StorageArea) {
+    const cv = await this.storage.read('cv', filename, area);
+    const metadata = cv?.meta ? JSON.parse(cv.meta) : null;
+
+    return {
+      filename,
+      metadata,
+      storedAt: metadata?.storedAt,
+      createdAt: metadata?.createdAt,
+      optimizationScore: metadata?.optimizationScore,
+      matrixId: metadata?.matrixId,
+      tags: metadata?.tags,
+      targetJobs: metadata?.targetJobs,
+    };
+  }
+
+  /**
+   * Manifest-backed summaries of the active or archived CVs, jobs or
+   * applications, keyed by the storage backend's change tokens. Entities that
+   * cannot be read or parsed are listed with an `error` message.
+   */
+  private async listSummaries(
+    kind: 'cv' | 'job' | 'application',
+    area: StorageArea,
+    summarize: (id: string) => Promise<any>
+  ): Promise<any[]> {
+    const archived = area === 'archive';
+    const section = `${this.storage.type}:${archived ? `${ARCHIVE_DIR_NAME}/` : ''}${ENTITY_SUBDIRS[kind]}`;
+    const entries = await this.listingManifest.list(section, await this.storage.changeTokens(kind, area), async id => {
+      try {
+        return await summarize(id);
+      } catch (error) {
+        // A corrupt record becomes an item with an error instead of failing the listing
+        const message = error instanceof Error ? error.message : String(error);
+        await this.log('warn', `Unreadable ${section} entry ${id}: ${message}`);
+        return kind === 'cv'
+          ? { filename: id, metadata: null, error: message, ...(archived ? { archived: true } : {}) }
+          : { [kind === 'job' ? 'jobId' : 'applicationId']: id, error: message, ...(archived ? { archived: true } : {}) };
+      }
+    });
+    return entries.map(entry => entry.summary);
+  }
+
+  private async storeJob(jobId: string, data: any, strictLinks: boolean = false) {
+    const linkWarnings = await this.writeJob(jobId, data, strictLinks);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Job stored successfully: ${jobId}${this.formatLinkWarnings(linkWarnings)}`,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Validates and writes one job; shared by store_job and store_jobs_batch.
+   *
+   * @returns Dangling-link warnings for the stored job
+   */
+  private async writeJob(jobId: string, data: any, strictLinks: boolean): Promise<IntegrityIssue[]> {
+    assertSafeEntityId(jobId, 'jobId');
+    assertValidEntity('Job', data, 'data');
+    const linkWarnings = await this.validateLinks('job', jobId, data, strictLinks);
+    return this.withEntityLocks([['job', jobId]], async () => {
+      const enrichedData = {
+        ...data,
+        jobId,
+        storedAt: new Date().toISOString(),
+        schemaVersion: ENTITY_SCHEMAS.Job.version,
+      };
+
+      await this.storage.write('job', jobId, { content: JSON.stringify(enrichedData, null, 2) });
+      await this.updateSearchIndex(() => this.searchIndex.upsert(SearchIndex.jobDocument(enrichedData)));
+      await this.log('info', `Stored job: ${jobId}`);
+      return linkWarnings;
+    });
+  }
+
+  private async loadJob(jobId: string) {
+    assertSafeEntityId(jobId, 'jobId');
+    const data = JSON.parse(await this.readEntity('job', jobId));
+
+    await this.log('info', `Loaded job: ${jobId}`);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async listJobs(query: ListQuery = {}) {
+    const jobSummaries = await this.listSummaries('job', 'active', jobId => this.summarizeJob(jobId, 'active'));
+    if (query.includeArchived) {
+      jobSummaries.push(...await this.listSummaries('job', 'archive', async jobId => ({
+        ...await this.summarizeJob(jobId, 'archive'),
+        archived: true,
+        tombstone: await this.readTombstone('job', jobId),
+      })));
+    }
+
+    // Application status changes don't touch the job, so it is joined in after the manifest
+    const applications = latestApplicationByJob(await this.listApplicationSummaries());
+    const summaries = jobSummaries.map(job => {
+      const application = applications.get(job.jobId);
+      return {
+        ...job,
+        applicationStatus: application?.status ?? null,
+        applicationId: application?.applicationId ?? null,
+      };
+    });
+
+    const page = paginate(applyFilters(summaries, query), query, 'jobId', LIST_SORT_KEYS, {
+      sortBy: 'storedAt',
+      order: 'desc',
+      fields: DEFAULT_JOB_FIELDS,
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(page, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async summarizeJob(jobId: string, area: StorageArea) {
+    const data = JSON.parse(await this.readEntity('job', jobId, area));
+    return {
+      jobId: data.jobId ?? jobId,
+      title: data.title,
+      company: data.company,
+      location: data.location,
+      url: data.url,
+      extractedAt: data.extractedAt,
+      storedAt: data.storedAt,
+      matrixId: data.matrixId,
+      tags: data.tags,
+      schemaVersion: data.schemaVersion,
+    };
+  }
+
+  private async storeMatrix(matrixId: string, data: any, strictLinks: boolean = false) {
+    assertSafeEntityId(matrixId, 'matrixId');
+    assertValidEntity('Matrix', data, 'data');
+    const linkWarnings = await this.validateLinks('matrix', matrixId, data, strictLinks);
+    return this.withEntityLocks([['matrix', matrixId]], async () => {
+      const enrichedData = {
+        ...data,
+        matrixId,
+        storedAt: new Date().toISOString(),
+        schemaVersion: ENTITY_SCHEMAS.Matrix.version,
+      };
+
+      await this.storage.write('matrix', matrixId, { content: JSON.stringify(enrichedData, null, 2) });
+      await this.log('info', `Stored matrix: ${matrixId}`);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Matrix stored successfully: ${matrixId}${this.formatLinkWarnings(linkWarnings)}`,
+          },
+        ],
+      };
+    });
+  }
+
+  private async loadMatrix(matrixId: string) {
+    assertSafeEntityId(matrixId, 'matrixId');
+    const data = JSON.parse(await this.readEntity('matrix', matrixId));
+
+    await this.log('info', `Loaded matrix: ${matrixId}`);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Batch variants of load_job / store_job / load_cv.
+   *
+   * Each ID is processed independently: entities that are found (or stored) are
+   * returned together, and every ID that fails is reported in `errors` instead of
+   * aborting the whole batch. This turns N round trips into one for the
+   * job-selection step of the analysis session (see doc/OptimizationPlan.md).
+   */
+  private async loadJobsBatch(jobIds: string[]) {
+    if (!Array.isArray(jobIds)) {
+      throw new Error('jobIds must be an array of job identifiers');
+    }
+
+    const jobs = [];
+    const errors: BatchError[] = [];
+
+    for (const jobId of jobIds) {
+      try {
+        assertSafeEntityId(jobId, 'jobId');
+        const job = await this.storage.read('job', jobId);
+        if (!job) {
+          errors.push({ id: jobId, error: `Job not found: ${jobId}` });
+          continue;
+        }
+        jobs.push(JSON.parse(job.content));
+      } catch (error) {
+        errors.push(this.toBatchError(jobId, error));
+      }
+    }
+
+    await this.log('info', `Batch loaded jobs: ${jobs.length}/${jobIds.length}`);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ requested: jobIds.length, jobs, errors }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async storeJobsBatch(jobs: BatchJobInput[], strictLinks: boolean = false) {
+    if (!Array.isArray(jobs)) {
+      throw new Error('jobs must be an array of { jobId, data } objects');
+    }
+
+    const stored: string[] = [];
+    const errors: BatchError[] = [];
+    const linkWarnings: IntegrityIssue[] = [];
+
+    for (const job of jobs) {
+      const jobId = job?.jobId;
+      if (!jobId || !job.data) {
+        errors.push({ id: jobId ?? '', error: 'Each job requires jobId and data' });
+        continue;
+      }
+      try {
+        linkWarnings.push(...await this.writeJob(jobId, job.data, strictLinks));
+        stored.push(jobId);
+      } catch (error) {
+        errors.push(this.toBatchError(jobId, error));
+      }
+    }
+
+    await this.log('info', `Batch stored jobs: ${stored.length}/${jobs.length}`);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ requested: jobs.length, stored, errors, linkWarnings }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async loadCvsBatch(filenames: string[]) {
+    if (!Array.isArray(filenames)) {
+      throw new Error('filenames must be an array of CV filenames');
+    }
+
+    const cvs = [];
+    const errors: BatchError[] = [];
+
+    for (const filename of filenames) {
+      try {
+        this.assertCvFilename(filename);
+        const cv = await this.storage.read('cv', filename);
+        if (!cv) {
+          errors.push({ id: filename, error: `CV not found: ${filename}` });
+          continue;
+        }
+        cvs.push({ filename, content: cv.content, metadata: cv.meta ? JSON.parse(cv.meta) : null });
+      } catch (error) {
+        errors.push(this.toBatchError(filename, error));
+      }
+    }
+
+    await this.log('info', `Batch loaded CVs: ${cvs.length}/${filenames.length}`);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ requested: filenames.length, cvs, errors }, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Raw content of a stored entity; throws the usual "<Label> not found" error
+   * when it does not exist.
+   */
+  private async readEntity(kind: EntityKind, id: string, area: StorageArea = 'active'): Promise<string> {
+    const entity = await this.storage.read(kind, id, area);
+    if (!entity) {
+      throw new Error(`${ENTITY_LABELS[kind]} not found: ${id}`);
+    }
+    return entity.content;
+  }
+
+  /**
+   * Files that make up one stored entity in the data/ layout, relative to its
+   * subdirectory; used for tombstones and workspace archives whatever the
+   * storage backend. The first entry is the primary file; CVs also carry a
+   * .meta.json sidecar.
+   */
+  private entityFiles(kind: EntityKind, id: string): string[] {
+    if (kind === 'cv') {
+      return [id, `${id}.meta.json`];
+    }
+    return [`${id}.json`];
+  }
+
+  private async readTombstone(kind: EntityKind, id: string) {
+    const tombstone = await this.storage.readTombstone(kind, id);
+    return tombstone ? JSON.parse(tombstone) : null;
+  }
+
+  /**
+   * Deletes an entity or, in archive mode, moves it (with any CV revisions) to
+   * the storage backend's archive together with a tombstone record. Archived
+   * entities drop out of list_* unless includeArchived is set. Archiving an ID
+   * that is already in the archive replaces the older copy.
+   */
+  private async removeEntity(kind: EntityKind, id: string, archive: boolean, reason?: string) {
+    const label = ENTITY_LABELS[kind];
+    if (kind === 'cv') {
+      this.assertCvFilename(id);
+    } else {
+      assertSafeEntityId(id, kind === 'job' ? 'jobId' : 'matrixId');
+    }
+
+    return this.withEntityLocks([[kind, id]], async () => {
+      const entity = await this.storage.read(kind, id);
+      if (!entity) {
+        throw new Error(`${label} not found: ${id}`);
+      }
+
+      const [primaryFile, ...sidecars] = this.entityFiles(kind, id);
+      const files = kind === 'cv' && entity.meta !== null ? [primaryFile, ...sidecars] : [primaryFile];
+
+      if (archive) {
+        const tombstone = {
+          entityType: label,
+          entityId: id,
+          files,
+          originalDir: path.join(DATA_DIR_NAME, ENTITY_SUBDIRS[kind]),
+          archivedAt: new Date().toISOString(),
+          reason: reason || null,
+        };
+        await this.storage.archive(kind, id, JSON.stringify(tombstone, null, 2));
+      } else {
+        await this.storage.remove(kind, id);
+      }
+
+      if (kind === 'cv' || kind === 'job') {
+        await this.updateSearchIndex(() => this.searchIndex.remove(kind, id));
+      }
+
+      const action = archive ? 'archived' : 'deleted';
+      await this.log('info', `${label} ${action}: ${id} (${files.join(', ')})`);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${label} ${action} successfully: ${id}`,
+          },
+        ],
+      };
+    });
+  }
+
+  private async renameCv(filename: string, newFilename: string, overwrite: boolean = false) {
+    this.assertCvFilename(filename);
+    this.assertCvFilename(newFilename, 'newFilename');
+    if (filename === newFilename) {
+      throw new Error(`CV already named: ${filename}`);
+    }
+
+    return this.withEntityLocks([['cv', filename], ['cv', newFilename]], async () => {
+      if (!(await this.storage.exists('cv', filename))) {
+        throw new Error(`CV not found: ${filename}`);
+      }
+      if (!overwrite && (await this.storage.exists('cv', newFilename))) {
+        throw new Error(`CV already exists: ${newFilename}`);
+      }
+
+      await this.storage.rename('cv', filename, newFilename);
+
+      const renamed = (await this.storage.read('cv', newFilename))!;
+      const renamedMeta = renamed.meta ? { ...JSON.parse(renamed.meta), filename: newFilename } : null;
+      if (renamedMeta) {
+        await this.storage.write('cv', newFilename, { content: renamed.content, meta: JSON.stringify(renamedMeta, null, 2) });
+      }
+
+      // Keep CV matrices pointing at the renamed file
+      const relinkedMatrices: string[] = [];
+      for (const matrixId of await this.storage.list('matrix')) {
+        await this.withEntityLocks([['matrix', matrixId]], async () => {
+          const stored = await this.storage.read('matrix', matrixId);
+          const matrix = stored ? JSON.parse(stored.content) : null;
+          if (matrix?.type === 'CV' && matrix.entityId === filename) {
+            await this.storage.write('matrix', matrixId, { content: JSON.stringify({ ...matrix, entityId: newFilename }, null, 2) });
+            relinkedMatrices.push(matrix.matrixId);
+          }
+        });
+      }
+
+      await this.updateSearchIndex(async () => {
+        await this.searchIndex.remove('cv', filename);
+        await this.searchIndex.upsert(SearchIndex.cvDocument(newFilename, renamed.content, renamedMeta));
+      });
+
+      await this.log('info', `Renamed CV: ${filename} -> ${newFilename}`);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ filename: newFilename, previousFilename: filename, relinkedMatrices }, null, 2),
+          },
+        ],
+      };
+    });
+  }
+
+  private async recordCvVersion(
+    filename: string,
+    version: number,
+    content: string,
+    metadata: any,
+    restoredFrom?: number
+  ): Promise<CvVersionRecord> {
+    const record: CvVersionRecord = {
+      version,
+      filename,
+      storedAt: new Date().toISOString(),
+      size: Buffer.byteLength(content, 'utf-8'),
+      metadata,
+      ...(restoredFrom !== undefined ? { restoredFrom } : {}),
+    };
+
+    await this.storage.writeRevision(filename, version, { content, record: JSON.stringify(record, null, 2) });
+    return record;
+  }
+
+  private async readCvVersions(filename: string): Promise<CvVersionRecord[]> {
+    const records: CvVersionRecord[] = (await this.storage.readRevisionRecords(filename)).map(record => JSON.parse(record));
+    return records.sort((a, b) => a.version - b.version);
+  }
+
+  private async readCvVersion(filename: string, version: number): Promise<{ record: CvVersionRecord; content: string }> {
+    const revision = Number.isInteger(version) ? await this.storage.readRevision(filename, version) : null;
+    if (!revision) {
+      throw new Error(`CV version not found: ${filename} v${version}`);
+    }
+    return { record: JSON.parse(revision.record), content: revision.content };
+  }
+
+  private async listCvVersions(filename: string) {
+    this.assertCvFilename(filename);
+    const versions = await this.readCvVersions(filename);
+    if (versions.length === 0 && !(await this.storage.exists('cv', filename))) {
+      throw new Error(`CV not found: ${filename}`);
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            filename,
+            currentVersion: versions.length > 0 ? versions[versions.length - 1].version : null,
+            versions
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async diffCvVersions(filename: string, fromVersion: number, toVersion?: number) {
+    this.assertCvFilename(filename);
+    const versions = await this.readCvVersions(filename);
+    if (versions.length === 0) {
+      throw new Error(`No version history for CV: ${filename}`);
+    }
+    const targetVersion = toVersion ?? versions[versions.length - 1].version;
+
+    const { content: oldContent } = await this.readCvVersion(filename, fromVersion);
+    const { content: newContent } = await this.readCvVersion(filename, targetVersion);
+    const diff = diffLines(oldContent, newContent);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            filename,
+            fromVersion,
+            toVersion: targetVersion,
+            stats: diff.stats,
+            diff: formatDiff(diff)
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async restoreCvVersion(filename: string, version: number) {
+    this.assertCvFilename(filename);
+    const { record, content } = await this.readCvVersion(filename, version);
+
+    // Restoring is itself a new revision, so the rolled-back state stays in history
+    const metadata = record.metadata ? { ...record.metadata } : { filename };
+    delete metadata.storedAt;
+    const newVersion = await this.writeCv(filename, content, metadata, { restoredFrom: version });
+
+    await this.log('info', `Restored CV: ${filename} from version ${version} as version ${newVersion}`);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `CV restored successfully: ${filename} (version ${version} is now version ${newVersion})`,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Re-validates every active CV, job, matrix and application against the
+   * current entity schemas. Archived entities and CV revisions are not
+   * checked. Unparsable records are reported as violations too. Files are
+   * named by their path in the data/ layout whatever the storage backend.
+   */
+  private async validateStore(entityType?: SchemaEntityType) {
+    if (entityType && !ENTITY_SCHEMAS[entityType]) {
+      throw new Error(`Unknown entityType: ${entityType}`);
+    }
+
+    const violations: StoreViolation[] = [];
+    const checked: Partial<Record<SchemaEntityType, number>> = {};
+    const include = (type: SchemaEntityType) => !entityType || entityType === type;
+
+    const parseJson = (json: string, type: SchemaEntityType, id: string, file: string) => {
+      try {
+        return JSON.parse(json);
+      } catch (error) {
+        violations.push({
+          entityType: type,
+          id,
+          file,
+          schemaVersion: null,
+          errors: [{ field: file, message: `could not be parsed: ${error instanceof Error ? error.message : String(error)}` }],
+        });
+        return undefined;
+      }
+    };
+
+    if (include('CV')) {
+      const cvIds = await this.storage.list('cv');
+      for (const id of cvIds) {
+        const cv = await this.storage.read('cv', id);
+        if (!cv) continue; // Removed since listing
+        let metadata;
+        if (cv.meta !== null) {
+          metadata = parseJson(cv.meta, 'CV', id, `cvs/${id}${CV_META_SUFFIX}`);
+          if (metadata === undefined) continue;
+        }
+        const errors = checkEntity('CV', { content: cv.content, metadata }, 'cv');
+        if (errors.length > 0) {
+          violations.push({ entityType: 'CV', id, file: `cvs/${id}`, schemaVersion: metadata?.schemaVersion ?? null, errors });
+        }
+      }
+      checked.CV = cvIds.length;
+    }
+
+    const jsonEntities: Array<[SchemaEntityType, EntityKind, string]> = [
+      ['Job', 'job', 'jobId'],
+      ['Matrix', 'matrix', 'matrixId'],
+      ['Application', 'application', 'applicationId'],
+    ];
+    for (const [type, kind, idField] of jsonEntities) {
+      if (!include(type)) continue;
+
+      const ids = await this.storage.list(kind);
+      for (const id of ids) {
+        const file = `${ENTITY_SUBDIRS[kind]}/${id}.json`;
+        const stored = await this.storage.read(kind, id);
+        if (!stored) continue;
+        const record = parseJson(stored.content, type, id, file);
+        if (record === undefined) continue;
+
+        const errors = checkEntity(type, record, type.toLowerCase());
+        if (errors.length > 0) {
+          violations.push({
+            entityType: type,
+            id: record?.[idField] ?? id,
+            file,
+            schemaVersion: record?.schemaVersion ?? null,
+            errors,
+          });
+        }
+      }
+      checked[type] = ids.length;
+    }
+
+    await this.log('info', `Validated store: ${violations.length} violation(s)`);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            validatedAt: new Date().toISOString(),
+            schemaVersions: Object.fromEntries(Object.entries(ENTITY_SCHEMAS).map(([type, s]) => [type, s.version])),
+            checked,
+            valid: violations.length === 0,
+            violations,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Resolves a link target in storage. Matrix targets are also read so that a
+   * matrixId pointing at another entity's matrix is reported as a mismatch.
+   */
+  private async linkTarget(kind: EntityKind, id: string): Promise<LinkTarget> {
+    const stored = await this.storage.read(kind, id);
+    const exists = stored !== null;
+    const archived = !exists && (await this.storage.exists(kind, id, 'archive'));
+
+    let record;
+    if (stored && kind === 'matrix') {
+      try {
+        record = JSON.parse(stored.content);
+      } catch {
+        record = undefined; // Unreadable matrices are validate_store's concern
+      }
+    }
+    return { exists, archived, record };
+  }
+
+  /**
+   * Checks the outgoing links of a record about to be stored. Dangling links
+   * are logged and returned as warnings, or rejected when `strictLinks` is set.
+   */
+  private async validateLinks(kind: EntityKind, id: string, record: any, strictLinks: boolean = false): Promise<IntegrityIssue[]> {
+    const issues: IntegrityIssue[] = [];
+    for (const link of entityLinks(kind, record)) {
+      const issue = checkLink(kind, id, link, await this.linkTarget(link.targetKind, link.target));
+      if (issue) issues.push(issue);
+    }
+
+    if (issues.length > 0 && strictLinks) {
+      throw new LinkValidationError(issues);
+    }
+    for (const issue of issues) {
+      await this.log('warn', `Dangling link: ${issue.message}`);
+    }
+    return issues;
+  }
+
+  private formatLinkWarnings(issues: IntegrityIssue[]): string {
+    return issues.map(issue => `\nWarning: ${issue.message}`).join('');
+  }
+
+  /**
+   * Reads every active CV, job, matrix and application plus the archived IDs
+   * into a snapshot for findLinkIssues. Unparseable records are skipped and reported.
+   */
+  private async readLinkSnapshot(): Promise<{ snapshot: LinkSnapshot; unreadable: string[] }> {
+    const snapshot: LinkSnapshot = {
+      cvs: new Map(),
+      jobs: new Map(),
+      matrices: new Map(),
+      applications: new Map(),
+      archived: { cv: new Set(), job: new Set(), matrix: new Set(), application: new Set() },
+    };
+    const unreadable: string[] = [];
+
+    for (const id of await this.storage.list('cv')) {
+      try {
+        const meta = (await this.storage.read('cv', id))?.meta;
+        snapshot.cvs.set(id, meta ? JSON.parse(meta) : null);
+      } catch {
+        unreadable.push(`cvs/${id}${CV_META_SUFFIX}`);
+      }
+    }
+
+    const jsonKinds: Array<[EntityKind, Map<string, any>]> = [
+      ['job', snapshot.jobs],
+      ['matrix', snapshot.matrices],
+      ['application', snapshot.applications],
+    ];
+    for (const [kind, records] of jsonKinds) {
+      for (const id of await this.storage.list(kind)) {
+        try {
+          records.set(id, JSON.parse(await this.readEntity(kind, id)));
+        } catch {
+          unreadable.push(`${ENTITY_SUBDIRS[kind]}/${id}.json`);
+        }
+      }
+    }
+
+    for (const kind of Object.keys(ENTITY_SUBDIRS) as EntityKind[]) {
+      for (const id of await this.storage.list(kind, 'archive')) {
+        snapshot.archived[kind].add(id);
+      }
+    }
+
+    return { snapshot, unreadable };
+  }
+
+  /**
+   * Reports dangling matrixId, targetJobs, entityId and application links
+   * across data/.
+   *
+   * With `repair`, a CV or job whose matrixId is dangling is re-linked to the
+   * newest matrix whose entityId points back at it. Links that cannot be
+   * re-linked are kept but recorded in the entity's `brokenLinks` list.
+   */
+  private async checkIntegrity(repair: boolean = false) {
+    const { snapshot, unreadable } = await this.readLinkSnapshot();
+    const issues = findLinkIssues(snapshot);
+
+    if (repair) {
+      const markedAt = new Date().toISOString();
+      for (const issue of issues) {
+        const kind = (Object.keys(ENTITY_LABELS) as EntityKind[]).find(k => ENTITY_LABELS[k] === issue.entityType)!;
+        const relinkTo = issue.targetKind === 'matrix'
+          ? findRelinkCandidate(snapshot, kind, issue.id)
+          : null;
+
+        if (relinkTo) {
+          await this.updateLinkedRecord(kind, issue.id, record => ({ ...record, matrixId: relinkTo }));
+          issue.repair = { action: 'relinked', matrixId: relinkTo };
+        } else if (!issue.marked) {
+          await this.updateLinkedRecord(kind, issue.id, record => markBrokenLink(record, issue, markedAt));
+          issue.repair = { action: 'marked' };
+        }
+      }
+    }
+
+    const repaired = issues.filter(issue => issue.repair).length;
+    await this.log('info', `Checked integrity: ${issues.length} dangling link(s)${repair ? `, ${repaired} repaired` : ''}`);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            checkedAt: new Date().toISOString(),
+            checked: {
+              CV: snapshot.cvs.size,
+              Job: snapshot.jobs.size,
+              Matrix: snapshot.matrices.size,
+              Application: snapshot.applications.size,
+            },
+            valid: issues.length === 0,
+            issues,
+            unreadable,
+            ...(repair ? { repaired } : {}),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Rewrites the link-bearing record of an entity in place: the CV metadata
+   * sidecar (without recording a new CV revision), the job or the matrix.
+   */
+  private async updateLinkedRecord(kind: EntityKind, id: string, update: (record: any) => any): Promise<void> {
+    return this.withEntityLocks([[kind, id]], async () => {
+      const stored = await this.storage.read(kind, id);
+      if (!stored) {
+        throw new Error(`${ENTITY_LABELS[kind]} not found: ${id}`);
+      }
+
+      if (kind === 'cv') {
+        const metadata = update(JSON.parse(stored.meta ?? 'null'));
+        await this.storage.write('cv', id, { content: stored.content, meta: JSON.stringify(metadata, null, 2) });
+        await this.updateSearchIndex(() => this.searchIndex.upsert(SearchIndex.cvDocument(id, stored.content, metadata)));
+      } else {
+        const record = update(JSON.parse(stored.content));
+        await this.storage.write(kind, id, { content: JSON.stringify(record, null, 2) });
+        if (kind === 'job') {
+          await this.updateSearchIndex(() => this.searchIndex.upsert(SearchIndex.jobDocument(record)));
+        }
+      }
+
+      await this.log('info', `Repaired links of ${ENTITY_LABELS[kind]}: ${id}`);
+    });
+  }
+
+  /**
+   * Applies an incremental change to the search index. If there is no usable
+   * index yet, it is rebuilt from data/ instead (which already includes the
+   * change). Index failures are logged but never fail the store itself.
+   */
+  private async updateSearchIndex(update: () => Promise<void>): Promise<void> {
+    try {
+      if (await this.searchIndex.needsRebuild()) {
+        await this.searchIndex.rebuild(await this.collectSearchDocuments());
+      } else {
+        await update();
+      }
+    } catch (error) {
+      await this.log('error', `Search index update failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async collectSearchDocuments(): Promise<SearchDocument[]> {
+    const documents: SearchDocument[] = [];
+
+    for (const jobId of await this.storage.list('job')) {
+      try {
+        const record = JSON.parse(await this.readEntity('job', jobId));
+        documents.push(SearchIndex.jobDocument({ ...record, jobId: record.jobId ?? jobId }));
+      } catch (error) {
+        await this.log('warn', `Skipping unreadable job in search index: ${jobId}`);
+      }
+    }
+
+    for (const filename of await this.storage.list('cv')) {
+      try {
+        const cv = await this.storage.read('cv', filename);
+        if (!cv) continue;
+        documents.push(SearchIndex.cvDocument(filename, cv.content, cv.meta ? JSON.parse(cv.meta) : null));
+      } catch (error) {
+        await this.log('warn', `Skipping unreadable CV in search index: ${filename}`);
+      }
+    }
+
+    return documents;
+  }
+
+  private async rebuildSearchIndex() {
+    const count = await this.searchIndex.rebuild(await this.collectSearchDocuments());
+    await this.log('info', `Rebuilt search index: ${count} documents`);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Search index rebuilt: ${count} documents`,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Reads every active CV (with its metadata sidecar), job and matrix as
+   * archive sources. Entities are read without locks; backend writes are
+   * atomic, so each one is complete.
+   */
+  private async collectArchiveSources(): Promise<ArchiveSource[]> {
+    const sources: ArchiveSource[] = [];
+
+    for (const kind of Object.keys(ENTITY_SUBDIRS) as EntityKind[]) {
+      const subdir = ENTITY_SUBDIRS[kind];
+      for (const id of await this.storage.list(kind)) {
+        const stored = await this.storage.read(kind, id);
+        if (!stored) continue; // Removed since listing
+
+        const [primaryFile, metaFile] = this.entityFiles(kind, id);
+        const files = [{ path: `${subdir}/${primaryFile}`, content: stored.content }];
+        if (kind === 'cv' && stored.meta !== null) {
+          files.push({ path: `${subdir}/${metaFile}`, content: stored.meta });
+        }
+        sources.push({ kind, id, files });
+      }
+    }
+
+    return sources;
+  }
+
+  private async exportWorkspace(filename?: string) {
+    const archiveName = filename ?? `workspace-${new Date().toISOString().replace(/[:.]/g, '-')}${ARCHIVE_EXTENSION}`;
+    assertSafeEntityId(archiveName, 'filename');
+    if (!archiveName.endsWith(ARCHIVE_EXTENSION)) {
+      throw new Error(`filename must end with ${ARCHIVE_EXTENSION}`);
+    }
+
+    const exportsDir = path.join(this.config.dataDir, EXPORTS_DIR_NAME);
+    const archivePath = path.join(exportsDir, archiveName);
+    if (await fs.pathExists(archivePath)) {
+      throw new Error(`Archive already exists: ${archiveName}`);
+    }
+    await this.ensureDir(exportsDir);
+
+    const schemaVersions = Object.fromEntries(Object.entries(ENTITY_SCHEMAS).map(([type, s]) => [type, s.version]));
+    const archive = buildArchive(
+      await this.collectArchiveSources(),
+      { service: SERVICE_NAME, version: SERVICE_VERSION },
+      schemaVersions
+    );
+    const { size, sha256 } = await writeArchive(archivePath, archive);
+
+    await this.log('info', `Exported workspace: ${archiveName} (${archive.manifest.entities.length} entities, ${size} bytes)`);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            archive: path.relative(this.config.projectRoot, archivePath),
+            createdAt: archive.manifest.createdAt,
+            schemaVersions,
+            counts: archive.manifest.counts,
+            size,
+            sha256,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Imports an archive written by export_workspace. Entities that do not exist
+   * locally are added; identical ones are left alone. For conflicts (same ID,
+   * different content) the strategy decides:
+   * - 'skip': keep the local entity
+   * - 'overwrite': replace it with the archived one
+   * - 'merge': keep whichever side has the later storedAt (local on a tie)
+   *
+   * Local entities missing from the archive are never removed. CVs are written
+   * as new revisions, so an overwritten CV can still be restored.
+   */
+  private async importWorkspace(filename: string, strategy: ImportStrategy = 'skip', dryRun: boolean = false) {
+    assertSafeEntityId(filename, 'filename');
+    if (!IMPORT_STRATEGIES.includes(strategy)) {
+      throw new Error(`Invalid strategy "${strategy}". Expected one of: ${IMPORT_STRATEGIES.join(', ')}`);
+    }
+
+    const archivePath = path.join(this.config.dataDir, EXPORTS_DIR_NAME, filename);
+    if (!(await fs.pathExists(archivePath))) {
+      throw new Error(`Archive not found: ${filename}`);
+    }
+    const schemaVersions = Object.fromEntries(Object.entries(ENTITY_SCHEMAS).map(([type, s]) => [type, s.version]));
+    const archive = await readArchive(archivePath, schemaVersions);
+
+    const report = {
+      archive: filename,
+      createdAt: archive.manifest.createdAt,
+      strategy,
+      dryRun,
+      added: [] as ImportReportItem[],
+      overwritten: [] as ImportReportItem[],
+      skipped: [] as ImportReportItem[],
+      unchanged: [] as ImportReportItem[],
+      errors: [] as BatchError[],
+    };
+
+    for (const entity of archive.manifest.entities) {
+      const kind = entity.kind as EntityKind;
+      try {
+        const item = await this.importEntity(kind, entity.id, entity.files.map(f => f.path), archive.files, strategy, dryRun);
+        report[item.action].push({ kind, id: entity.id, ...(item.reason ? { reason: item.reason } : {}) });
+      } catch (error) {
+        report.errors.push(this.toBatchError(`${ENTITY_SUBDIRS[kind] ?? kind}/${entity.id}`, error));
+      }
+    }
+
+    await this.log('info', `${dryRun ? 'Dry-run import' : 'Imported'} workspace ${filename} (${strategy}): `
+      + `${report.added.length} added, ${report.overwritten.length} overwritten, ${report.skipped.length} skipped, `
+      + `${report.unchanged.length} unchanged, ${report.errors.length} errors`);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(report, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Decides what to do with one archived entity and, unless `dryRun`, does it.
+   * Archive paths are never used directly: they must match the files this
+   * entity ID maps to, so an archive cannot write outside data/.
+   */
+  private async importEntity(
+    kind: EntityKind,
+    id: string,
+    archivePaths: string[],
+    archiveFiles: Record<string, string>,
+    strategy: ImportStrategy,
+    dryRun: boolean
+  ): Promise<{ action: 'added' | 'overwritten' | 'skipped' | 'unchanged'; reason?: string }> {
+    if (!ENTITY_SUBDIRS[kind]) {
+      throw new Error(`Unknown entity kind: ${kind}`);
+    }
+    if (kind === 'cv') {
+      this.assertCvFilename(id, 'id');
+    } else {
+      assertSafeEntityId(id, 'id');
+    }
+
+    const subdir = ENTITY_SUBDIRS[kind];
+    const [primaryFile, ...sidecars] = this.entityFiles(kind, id);
+    const allowed = [primaryFile, ...sidecars].map(f => `${subdir}/${f}`);
+    const unexpected = archivePaths.find(p => !allowed.includes(p));
+    if (unexpected || !archivePaths.includes(allowed[0])) {
+      throw new Error(`Archive files do not match entity: ${unexpected ?? allowed[0]}`);
+    }
+
+    const content = archiveFiles[allowed[0]];
+    const metadata = archivePaths.includes(allowed[1]) ? JSON.parse(archiveFiles[allowed[1]]) : undefined;
+    const record = kind === 'cv' ? { content, metadata } : JSON.parse(content);
+    assertValidEntity(ENTITY_LABELS[kind] as SchemaEntityType, record, kind);
+
+    let action: 'added' | 'overwritten' | 'skipped' | 'unchanged' = 'added';
+    let reason: string | undefined;
+
+    const local = await this.storage.read(kind, id);
+    if (local) {
+      const localFiles: Record<string, string> = { [allowed[0]]: local.content };
+      if (local.meta !== null) {
+        localFiles[allowed[1]] = local.meta;
+      }
+      const identical = allowed.every(p => localFiles[p] === archiveFiles[p]);
+
+      if (identical) {
+        return { action: 'unchanged' };
+      }
+      if (strategy === 'overwrite') {
+        action = 'overwritten';
+      } else if (strategy === 'skip') {
+        action = 'skipped';
+        reason = 'conflict';
+      } else {
+        const localRecord = kind === 'cv'
+          ? (localFiles[allowed[1]] ? JSON.parse(localFiles[allowed[1]]) : null)
+          : JSON.parse(localFiles[allowed[0]]);
+        const localStoredAt = Date.parse(localRecord?.storedAt ?? '') || 0;
+        const archiveStoredAt = Date.parse((kind === 'cv' ? metadata : record)?.storedAt ?? '') || 0;
+        if (archiveStoredAt > localStoredAt) {
+          action = 'overwritten';
+          reason = 'archive is newer';
+        } else {
+          action = 'skipped';
+          reason = 'local is newer or the same age';
+        }
+      }
+    }
+
+    if (dryRun || action === 'skipped') {
+      return { action, reason };
+    }
+
+    if (kind === 'cv') {
+      // The imported CV matches the archive: no sidecar there means no metadata here
+      await this.writeCv(id, content, metadata, { verbatimMetadata: true, removeMetadata: true });
+    } else {
+      await this.withEntityLocks([[kind, id]], async () => {
+        await this.storage.write(kind, id, { content });
+        if (kind === 'job') {
+          await this.updateSearchIndex(() => this.searchIndex.upsert(SearchIndex.jobDocument({ ...record, jobId: id })));
+        }
+      });
+    }
+    return { action, reason };
+  }
+
+  /**
+   * Copies all data from one storage backend to the other. The server keeps
+   * using the backend it was started with; set CV_STORAGE_BACKEND and restart
+   * to switch. A target that already holds entities is refused unless
+   * `overwrite` is set, in which case entities with the same ID are replaced
+   * and any others are left in place.
+   */
+  private async migrateStorage(from: StorageBackendType, to: StorageBackendType, dryRun: boolean = false, overwrite: boolean = false) {
+    const source = this.parseStorageBackendType(from, 'from');
+    const target = this.parseStorageBackendType(to, 'to');
+    if (source === target) {
+      throw new Error(`Source and target backend are both "${source}"`);
+    }
+
+    // The source is only read, and a dry run must not create the target
+    const open = (type: StorageBackendType, readOnly: boolean) => (type === this.storage.type
+      ? this.storage
+      : createStorageBackend(type, this.config.dataDir, this.config.projectRoot, { readOnly }));
+    const sourceStorage = open(source, true);
+    const targetStorage = open(target, dryRun);
+
+    try {
+      const existing = await listStoredEntities(targetStorage);
+      if (existing.length > 0 && !overwrite) {
+        throw new Error(`Target backend "${target}" (${targetStorage.location}) already holds ${existing.length} entities; pass overwrite to replace entities with the same ID`);
+      }
+
+      const report = await migrateStorage(sourceStorage, targetStorage, {
+        dryRun,
+        withEntity: (kind, id, fn) => this.withEntityLocks([[kind, id]], fn),
+      });
+
+      // The search index is derived from the active backend
+      if (!dryRun && targetStorage === this.storage) {
+        await this.searchIndex.rebuild(await this.collectSearchDocuments());
+      }
+
+      const counts = Object.values(report.counts);
+      await this.log('info', `${dryRun ? 'Dry-run migration' : 'Migrated'} storage ${source} -> ${target}: `
+        + `${counts.reduce((sum, count) => sum + count.active, 0)} active, `
+        + `${counts.reduce((sum, count) => sum + count.archived, 0)} archived, `
+        + `${report.errors.length} errors`);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              from: { type: source, location: sourceStorage.location },
+              to: { type: target, location: targetStorage.location },
+              activeBackend: this.storage.type,
+              dryRun,
+              ...report,
+            }, null, 2),
+          },
+        ],
+      };
+    } finally {
+      for (const storage of [sourceStorage, targetStorage]) {
+        if (storage !== this.storage) {
+          await storage.close();
+        }
+      }
+    }
+  }
+
+  /**
+   * Records that a CV revision is being sent (or was sent) to a job. The job
+   * and CV must exist; cvVersion defaults to the CV's current revision. The
+   * ID defaults to `<jobId>-<cv name>`, so a second application with the
+   * same job and CV needs an explicit applicationId.
+   */
+  private async createApplication(input: ApplicationInput) {
+    if (!input || typeof input !== 'object') {
+      throw new Error('Application requires jobId and cvFilename');
+    }
+    assertSafeEntityId(input.jobId, 'jobId');
+    this.assertCvFilename(input.cvFilename, 'cvFilename');
+    const applicationId = input.applicationId
+      ?? slugifyEntityId(`${input.jobId}-${input.cvFilename.replace(/\.[^.]+$/, '')}`);
+    assertSafeEntityId(applicationId, 'applicationId');
+
+    let cvVersion: number | null;
+    if (input.cvVersion !== undefined && input.cvVersion !== null) {
+      cvVersion = (await this.readCvVersion(input.cvFilename, input.cvVersion)).record.version;
+    } else {
+      const history = await this.readCvVersions(input.cvFilename);
+      cvVersion = history.length > 0 ? history[history.length - 1].version : null;
+    }
+
+    const at = eventTime(input.at);
+    const application = newApplication(applicationId, input.jobId, input.cvFilename, cvVersion, input.status ?? 'drafted', at, input.note);
+    await this.validateLinks('application', applicationId, application, true);
+
+    const stored = await this.withEntityLocks([['application', applicationId]], async () => {
+      if (await this.storage.exists('application', applicationId)) {
+        throw new Error(`Application already exists: ${applicationId}. Pass applicationId to record another application for this job and CV`);
+      }
+      return this.writeApplication(application);
+    });
+
+    await this.log('info', `Created application: ${applicationId} (${input.jobId} <- ${input.cvFilename} v${cvVersion ?? '-'}, ${stored.status})`);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(stored, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Moves an application to a new status and/or adds a note, recording a
+   * timestamped event. Status changes must follow STATUS_TRANSITIONS.
+   */
+  private async updateApplicationStatus(applicationId: string, status?: ApplicationStatus, note?: string, at?: string) {
+    assertSafeEntityId(applicationId, 'applicationId');
+
+    const updated = await this.withEntityLocks([['application', applicationId]], async () => {
+      const current: Application = JSON.parse(await this.readEntity('application', applicationId));
+      return this.writeApplication(updateApplication(current, { status, note, at: eventTime(at) }));
+    });
+
+    await this.log('info', `Updated application: ${applicationId} (${updated.status})`);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(updated, null, 2),
+        },
+      ],
+    };
+  }
+
+  // Callers hold the application's entity lock
+  private async writeApplication(application: Application): Promise<Application> {
+    const enrichedData = {
+      ...application,
+      storedAt: new Date().toISOString(),
+      schemaVersion: ENTITY_SCHEMAS.Application.version,
+    };
+    assertValidEntity('Application', enrichedData, 'application');
+    await this.storage.write('application', application.applicationId, { content: JSON.stringify(enrichedData, null, 2) });
+    return enrichedData;
+  }
+
+  private async listApplications(query: ApplicationQuery = {}) {
+    const summaries = await this.listApplicationSummaries();
+    const page = paginate(filterApplications(summaries, query), query, 'applicationId', APPLICATION_SORT_KEYS, {
+      sortBy: 'updatedAt',
+      order: 'desc',
+      fields: DEFAULT_APPLICATION_FIELDS,
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(page, null, 2),
+        },
+      ],
+    };
+  }
+
+  // Applications are small, so the manifest caches the whole record
+  private listApplicationSummaries(): Promise<Array<Partial<Application>>> {
+    return this.listSummaries('application', 'active', async applicationId =>
+      JSON.parse(await this.readEntity('application', applicationId)));
+  }
+
+  private async search(kind: SearchKind, query: SearchQuery) {
+    if (await this.searchIndex.needsRebuild()) {
+      await this.searchIndex.rebuild(await this.collectSearchDocuments());
+    }
+    const result = await this.searchIndex.search(kind, query);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async listResources() {
+    const cvs = await this.listSummaries('cv', 'active', filename => this.summarizeCv(filename, 'active'));
+    const jobs = await this.listSummaries('job', 'active', jobId => this.summarizeJob(jobId, 'active'));
+    const matrixIds = await this.storage.list('matrix');
+    const applications = await this.listApplicationSummaries();
+
+    return {
+      resources: [
+        ...cvs.map(cv => ({
+          uri: resourceUri('cv', cv.filename),
+          name: cv.filename,
+          mimeType: RESOURCE_MIME_TYPES.cv,
+        })),
+        ...jobs.map(job => ({
+          uri: resourceUri('job', job.jobId),
+          name: job.title ? `${job.title}${job.company ? ` (${job.company})` : ''}` : job.jobId,
+          mimeType: RESOURCE_MIME_TYPES.job,
+        })),
+        ...matrixIds.map(matrixId => ({
+          uri: resourceUri('matrix', matrixId),
+          name: matrixId,
+          mimeType: RESOURCE_MIME_TYPES.matrix,
+        })),
+        ...applications.map(application => ({
+          uri: resourceUri('application', application.applicationId!),
+          name: application.applicationId!,
+          description: application.status ? `${application.jobId} <- ${application.cvFilename} (${application.status})` : undefined,
+          mimeType: RESOURCE_MIME_TYPES.application,
+        })),
+      ],
+    };
+  }
+
+  private listResourceTemplates() {
+    return {
+      resourceTemplates: [
+        { uriTemplate: `${RESOURCE_SCHEMES.cv}://{filename}`, name: 'CV', mimeType: RESOURCE_MIME_TYPES.cv },
+        { uriTemplate: `${RESOURCE_SCHEMES.job}://{jobId}`, name: 'Job', mimeType: RESOURCE_MIME_TYPES.job },
+        { uriTemplate: `${RESOURCE_SCHEMES.matrix}://{matrixId}`, name: 'Matrix', mimeType: RESOURCE_MIME_TYPES.matrix },
+        { uriTemplate: `${RESOURCE_SCHEMES.application}://{applicationId}`, name: 'Application', mimeType: RESOURCE_MIME_TYPES.application },
+      ],
+    };
+  }
+
+  /**
+   * Reads one entity resource. CVs return the markdown plus, when present,
+   * their metadata as a second JSON entry under the same URI.
+   */
+  private async readResource(uri: string) {
+    const { kind, id } = parseResourceUri(uri);
+    if (kind === 'cv') {
+      this.assertCvFilename(id, 'uri');
+    } else {
+      assertSafeEntityId(id, 'uri');
+    }
+
+    const entity = await this.storage.read(kind, id);
+    if (!entity) {
+      throw new Error(`${ENTITY_LABELS[kind]} not found: ${id}`);
+    }
+
+    await this.log('info', `Read resource: ${uri}`);
+
+    return {
+      contents: [
+        { uri, mimeType: RESOURCE_MIME_TYPES[kind], text: entity.content },
+        ...(entity.meta !== null ? [{ uri, mimeType: 'application/json', text: entity.meta }] : []),
+      ],
+    };
+  }
+
+  private async notifyResourceChanges(changes: ResourceChanges): Promise<void> {
+    if (changes.listChanged) {
+      await this.server.sendResourceListChanged();
+    }
+    for (const uri of changes.updated.filter(uri => this.resourceSubscriptions.has(uri))) {
+      await this.server.sendResourceUpdated({ uri });
+    }
+  }
+
+  private setupErrorHandling() {
+    this.server.onerror = (error) => console.error("[MCP Error]", error);
+    process.on("SIGINT", async () => {
+      await this.server.close();
+      process.exit(0);
+    });
+  }
+
+  // Helper methods for HTTP mode
+  private async handleListTools() {
+    return {
+      result: {
+        tools: [
+          {
+            name: "store_cv",
+            description: "Store a CV variant in data/cvs/",
+            inputSchema: {
+              type: "object",
+              properties: {
+                filename: { type: "string", description: "CV filename" },
+                content: { type: "string", description: "CV content in markdown" },
+                metadata: {
+                  type: "object",
+                  description: "CV metadata with matrix linking",
+                  properties: {
+                    matrixId: { type: "string" },
+                    targetJobs: { type: "array", items: { type: "string" } },
+                    optimizationScore: { type: "number" },
+                    createdAt: { type: "string" },
+                    tags: { type: "array", items: { type: "string" } }
+                  }
+                },
+                strictLinks: { type: "boolean" }
+              },
+              required: ["filename", "content"]
+            }
+          },
+          {
+            name: "load_cv",
+            description: "Load a CV variant from data/cvs/",
+            inputSchema: {
+              type: "object",
+              properties: { filename: { type: "string" }, version: { type: "number" } },
+              required: ["filename"]
+            }
           },
           {
             name: "list_cvs",
-            description: "List all stored CV variants",
-            inputSchema: { type: "object", properties: {} }
+            description: "List stored CV variants (paginated)",
+            inputSchema: {
+              type: "object",
+              properties: {
+                includeArchived: { type: "boolean" },
+                cursor: { type: "string" },
+                limit: { type: "number" },
+                sortBy: { type: "string", enum: ["storedAt", "extractedAt", "company", "optimizationScore"] },
+                order: { type: "string", enum: ["asc", "desc"] },
+                fields: { type: "array", items: { type: "string" } },
+                company: { type: ["string", "array"], items: { type: "string" } },
+                matrixId: { type: "string" },
+                hasMatrix: { type: "boolean" },
+                tags: { type: "array", items: { type: "string" } },
+                storedAfter: { type: "string" },
+                storedBefore: { type: "string" },
+                minOptimizationScore: { type: "number" }
+              }
+            }
           },
           {
             name: "store_job",
@@ -527,7 +2570,8 @@ class FilesystemMCP {
                     matrixId: { type: "string" }
                   },
                   required: ["title", "company", "description"]
-                }
+                },
+                strictLinks: { type: "boolean" }
               },
               required: ["jobId", "data"]
             }
@@ -543,8 +2587,24 @@ class FilesystemMCP {
           },
           {
             name: "list_jobs",
-            description: "List all stored jobs",
-            inputSchema: { type: "object", properties: {} }
+            description: "List stored jobs (paginated)",
+            inputSchema: {
+              type: "object",
+              properties: {
+                includeArchived: { type: "boolean" },
+                cursor: { type: "string" },
+                limit: { type: "number" },
+                sortBy: { type: "string", enum: ["storedAt", "extractedAt", "company", "optimizationScore"] },
+                order: { type: "string", enum: ["asc", "desc"] },
+                fields: { type: "array", items: { type: "string" } },
+                company: { type: ["string", "array"], items: { type: "string" } },
+                matrixId: { type: "string" },
+                hasMatrix: { type: "boolean" },
+                tags: { type: "array", items: { type: "string" } },
+                storedAfter: { type: "string" },
+                storedBefore: { type: "string" }
+              }
+            }
           },
           {
             name: "store_matrix",
@@ -562,7 +2622,8 @@ class FilesystemMCP {
                     weights: { type: "object" }
                   },
                   required: ["type", "entityId", "parameters"]
-                }
+                },
+                strictLinks: { type: "boolean" }
               },
               required: ["matrixId", "data"]
             }
@@ -575,12 +2636,331 @@ class FilesystemMCP {
               properties: { matrixId: { type: "string" } },
               required: ["matrixId"]
             }
+          },
+          {
+            name: "load_jobs_batch",
+            description: "Load several jobs in one call",
+            inputSchema: {
+              type: "object",
+              properties: { jobIds: { type: "array", items: { type: "string" } } },
+              required: ["jobIds"]
+            }
+          },
+          {
+            name: "store_jobs_batch",
+            description: "Store several jobs in one call",
+            inputSchema: {
+              type: "object",
+              properties: {
+                jobs: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      jobId: { type: "string" },
+                      data: { type: "object" }
+                    },
+                    required: ["jobId", "data"]
+                  }
+                },
+                strictLinks: { type: "boolean" }
+              },
+              required: ["jobs"]
+            }
+          },
+          {
+            name: "load_cvs_batch",
+            description: "Load several CV variants in one call",
+            inputSchema: {
+              type: "object",
+              properties: { filenames: { type: "array", items: { type: "string" } } },
+              required: ["filenames"]
+            }
+          },
+          {
+            name: "delete_cv",
+            description: "Delete a CV variant and its metadata",
+            inputSchema: {
+              type: "object",
+              properties: { filename: { type: "string" } },
+              required: ["filename"]
+            }
+          },
+          {
+            name: "delete_job",
+            description: "Delete a job opportunity",
+            inputSchema: {
+              type: "object",
+              properties: { jobId: { type: "string" } },
+              required: ["jobId"]
+            }
+          },
+          {
+            name: "delete_matrix",
+            description: "Delete an analysis matrix",
+            inputSchema: {
+              type: "object",
+              properties: { matrixId: { type: "string" } },
+              required: ["matrixId"]
+            }
+          },
+          {
+            name: "archive_cv",
+            description: "Archive a CV variant to data/archive/",
+            inputSchema: {
+              type: "object",
+              properties: { filename: { type: "string" }, reason: { type: "string" } },
+              required: ["filename"]
+            }
+          },
+          {
+            name: "archive_job",
+            description: "Archive a job opportunity to data/archive/",
+            inputSchema: {
+              type: "object",
+              properties: { jobId: { type: "string" }, reason: { type: "string" } },
+              required: ["jobId"]
+            }
+          },
+          {
+            name: "archive_matrix",
+            description: "Archive an analysis matrix to data/archive/",
+            inputSchema: {
+              type: "object",
+              properties: { matrixId: { type: "string" }, reason: { type: "string" } },
+              required: ["matrixId"]
+            }
+          },
+          {
+            name: "rename_cv",
+            description: "Rename a CV variant",
+            inputSchema: {
+              type: "object",
+              properties: {
+                filename: { type: "string" },
+                newFilename: { type: "string" },
+                overwrite: { type: "boolean" }
+              },
+              required: ["filename", "newFilename"]
+            }
+          },
+          {
+            name: "list_cv_versions",
+            description: "List revisions of a CV",
+            inputSchema: {
+              type: "object",
+              properties: { filename: { type: "string" } },
+              required: ["filename"]
+            }
+          },
+          {
+            name: "diff_cv_versions",
+            description: "Diff two revisions of a CV",
+            inputSchema: {
+              type: "object",
+              properties: {
+                filename: { type: "string" },
+                fromVersion: { type: "number" },
+                toVersion: { type: "number" }
+              },
+              required: ["filename", "fromVersion"]
+            }
+          },
+          {
+            name: "restore_cv_version",
+            description: "Restore an earlier revision of a CV",
+            inputSchema: {
+              type: "object",
+              properties: { filename: { type: "string" }, version: { type: "number" } },
+              required: ["filename", "version"]
+            }
+          },
+          {
+            name: "slugify_id",
+            description: "Canonical storage-safe form of an ID",
+            inputSchema: {
+              type: "object",
+              properties: { value: { type: "string" } },
+              required: ["value"]
+            }
+          },
+          {
+            name: "validate_store",
+            description: "Report stored entities that violate the current schemas",
+            inputSchema: {
+              type: "object",
+              properties: { entityType: { type: "string", enum: ["CV", "Job", "Matrix", "Application"] } }
+            }
+          },
+          {
+            name: "check_integrity",
+            description: "Report (and optionally repair) dangling links between entities",
+            inputSchema: { type: "object", properties: { repair: { type: "boolean" } } }
+          },
+          {
+            name: "search_jobs",
+            description: "Full-text, faceted job search",
+            inputSchema: {
+              type: "object",
+              properties: {
+                query: { type: "string" },
+                matchAll: { type: "boolean" },
+                company: { type: ["string", "array"], items: { type: "string" } },
+                location: { type: ["string", "array"], items: { type: "string" } },
+                tags: { type: "array", items: { type: "string" } },
+                hasMatrix: { type: "boolean" },
+                dateRange: {
+                  type: "object",
+                  properties: {
+                    field: { type: "string", enum: ["storedAt", "extractedAt", "createdAt"] },
+                    from: { type: "string" },
+                    to: { type: "string" }
+                  }
+                },
+                offset: { type: "number" },
+                limit: { type: "number" }
+              }
+            }
+          },
+          {
+            name: "search_cvs",
+            description: "Full-text, faceted CV search",
+            inputSchema: {
+              type: "object",
+              properties: {
+                query: { type: "string" },
+                matchAll: { type: "boolean" },
+                company: { type: ["string", "array"], items: { type: "string" } },
+                location: { type: ["string", "array"], items: { type: "string" } },
+                tags: { type: "array", items: { type: "string" } },
+                hasMatrix: { type: "boolean" },
+                dateRange: {
+                  type: "object",
+                  properties: {
+                    field: { type: "string", enum: ["storedAt", "extractedAt", "createdAt"] },
+                    from: { type: "string" },
+                    to: { type: "string" }
+                  }
+                },
+                offset: { type: "number" },
+                limit: { type: "number" }
+              }
+            }
+          },
+          {
+            name: "rebuild_search_index",
+            description: "Rebuild the search index from data/",
+            inputSchema: { type: "object", properties: {} }
+          },
+          {
+            name: "export_workspace",
+            description: "Export data/ to an archive in data/exports/",
+            inputSchema: { type: "object", properties: { filename: { type: "string" } } }
+          },
+          {
+            name: "import_workspace",
+            description: "Import a workspace archive from data/exports/",
+            inputSchema: {
+              type: "object",
+              properties: {
+                filename: { type: "string" },
+                strategy: { type: "string", enum: ["merge", "overwrite", "skip"] },
+                dryRun: { type: "boolean" }
+              },
+              required: ["filename"]
+            }
+          },
+          {
+            name: "migrate_storage",
+            description: "Copy all data from one storage backend to another",
+            inputSchema: {
+              type: "object",
+              properties: {
+                from: { type: "string", enum: ["fs", "sqlite"] },
+                to: { type: "string", enum: ["fs", "sqlite"] },
+                dryRun: { type: "boolean" },
+                overwrite: { type: "boolean" }
+              },
+              required: ["from", "to"]
+            }
+          },
+          {
+            name: "create_application",
+            description: "Record an application of a CV to a job",
+            inputSchema: {
+              type: "object",
+              properties: {
+                jobId: { type: "string" },
+                cvFilename: { type: "string" },
+                cvVersion: { type: "number" },
+                status: { type: "string", enum: ["drafted", "submitted", "screening", "interview", "offer", "rejected", "withdrawn"] },
+                note: { type: "string" },
+                at: { type: "string" },
+                applicationId: { type: "string" }
+              },
+              required: ["jobId", "cvFilename"]
+            }
+          },
+          {
+            name: "update_application",
+            description: "Change an application's status or add a note",
+            inputSchema: {
+              type: "object",
+              properties: {
+                applicationId: { type: "string" },
+                status: { type: "string", enum: ["drafted", "submitted", "screening", "interview", "offer", "rejected", "withdrawn"] },
+                note: { type: "string" },
+                at: { type: "string" }
+              },
+              required: ["applicationId"]
+            }
+          },
+          {
+            name: "list_applications",
+            description: "List applications (paginated, filterable)",
+            inputSchema: {
+              type: "object",
+              properties: {
+                jobId: { type: "string" },
+                cvFilename: { type: "string" },
+                status: { type: ["string", "array"], items: { type: "string" } },
+                updatedAfter: { type: "string" },
+                updatedBefore: { type: "string" },
+                cursor: { type: "string" },
+                limit: { type: "number" },
+                sortBy: { type: "string", enum: ["updatedAt", "createdAt", "status"] },
+                order: { type: "string", enum: ["asc", "desc"] },
+                fields: { type: "array", items: { type: "string" } }
+              }
+            }
           }
         ]
       }
     };
   }
 
+  private async handleResourceRequest(method: string, params: any) {
+    try {
+      switch (method) {
+        case "resources/list":
+          return { result: await this.listResources() };
+        case "resources/templates/list":
+          return { result: this.listResourceTemplates() };
+        case "resources/read":
+          return { result: await this.readResource(params?.uri) };
+        default:
+          return { error: { code: -32601, message: 'Method not found' } };
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      await this.log('error', `Resource request failed: ${errorMessage}`);
+      if (error instanceof EntityIdError) {
+        return { error: { code: -32602, message: errorMessage, data: error.toJSON() } };
+      }
+      return { error: { code: -32603, message: errorMessage } };
+    }
+  }
+
   private async handleToolCall(params: any) {
     try {
       const { name, arguments: args } = params;
@@ -588,29 +2968,104 @@ class FilesystemMCP {
 
       switch (name) {
         case "store_cv":
-          toolResult = await this.storeCv(args.filename, args.content, args.metadata);
+          toolResult = await this.storeCv(args.filename, args.content, args.metadata, args.strictLinks);
           break;
         case "load_cv":
-          toolResult = await this.loadCv(args.filename);
+          toolResult = await this.loadCv(args.filename, args.version);
           break;
         case "list_cvs":
-          toolResult = await this.listCvs();
+          toolResult = await this.listCvs(args ?? {});
           break;
         case "store_job":
-          toolResult = await this.storeJob(args.jobId, args.data);
+          toolResult = await this.storeJob(args.jobId, args.data, args.strictLinks);
           break;
         case "load_job":
           toolResult = await this.loadJob(args.jobId);
           break;
         case "list_jobs":
-          toolResult = await this.listJobs();
+          toolResult = await this.listJobs(args ?? {});
           break;
         case "store_matrix":
-          toolResult = await this.storeMatrix(args.matrixId, args.data);
+          toolResult = await this.storeMatrix(args.matrixId, args.data, args.strictLinks);
           break;
         case "load_matrix":
           toolResult = await this.loadMatrix(args.matrixId);
           break;
+        case "load_jobs_batch":
+          toolResult = await this.loadJobsBatch(args.jobIds);
+          break;
+        case "store_jobs_batch":
+          toolResult = await this.storeJobsBatch(args.jobs, args.strictLinks);
+          break;
+        case "load_cvs_batch":
+          toolResult = await this.loadCvsBatch(args.filenames);
+          break;
+        case "delete_cv":
+          toolResult = await this.removeEntity('cv', args.filename, false);
+          break;
+        case "delete_job":
+          toolResult = await this.removeEntity('job', args.jobId, false);
+          break;
+        case "delete_matrix":
+          toolResult = await this.removeEntity('matrix', args.matrixId, false);
+          break;
+        case "archive_cv":
+          toolResult = await this.removeEntity('cv', args.filename, true, args.reason);
+          break;
+        case "archive_job":
+          toolResult = await this.removeEntity('job', args.jobId, true, args.reason);
+          break;
+        case "archive_matrix":
+          toolResult = await this.removeEntity('matrix', args.matrixId, true, args.reason);
+          break;
+        case "rename_cv":
+          toolResult = await this.renameCv(args.filename, args.newFilename, args.overwrite);
+          break;
+        case "list_cv_versions":
+          toolResult = await this.listCvVersions(args.filename);
+          break;
+        case "diff_cv_versions":
+          toolResult = await this.diffCvVersions(args.filename, args.fromVersion, args.toVersion);
+          break;
+        case "restore_cv_version":
+          toolResult = await this.restoreCvVersion(args.filename, args.version);
+          break;
+        case "slugify_id":
+          toolResult = this.slugifyId(args.value);
+          break;
+        case "validate_store":
+          toolResult = await this.validateStore(args.entityType);
+          break;
+        case "check_integrity":
+          toolResult = await this.checkIntegrity(args.repair);
+          break;
+        case "search_jobs":
+          toolResult = await this.search('job', args ?? {});
+          break;
+        case "search_cvs":
+          toolResult = await this.search('cv', args ?? {});
+          break;
+        case "rebuild_search_index":
+          toolResult = await this.rebuildSearchIndex();
+          break;
+        case "export_workspace":
+          toolResult = await this.exportWorkspace(args.filename);
+          break;
+        case "import_workspace":
+          toolResult = await this.importWorkspace(args.filename, args.strategy, args.dryRun);
+          break;
+        case "migrate_storage":
+          toolResult = await this.migrateStorage(args.from, args.to, args.dryRun, args.overwrite);
+          break;
+        case "create_application":
+          toolResult = await this.createApplication(args);
+          break;
+        case "update_application":
+          toolResult = await this.updateApplicationStatus(args.applicationId, args.status, args.note, args.at);
+          break;
+        case "list_applications":
+          toolResult = await this.listApplications(args ?? {});
+          break;
         default:
           return { error: { code: -32601, message: `Unknown tool: ${name}` } };
       }
@@ -620,6 +3075,9 @@ class FilesystemMCP {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       await this.log('error', `Tool call failed: ${errorMessage}`);
+      if (error instanceof EntityIdError || error instanceof SchemaValidationError || error instanceof LinkValidationError) {
+        return { error: { code: -32602, message: errorMessage, data: error.toJSON() } };
+      }
       return { error: { code: -32603, message: errorMessage } };
     }
   }
@@ -666,6 +3124,9 @@ class FilesystemMCP {
                 result = await this.handleListTools();
               } else if (jsonrpcMessage.method === 'tools/call') {
                 result = await this.handleToolCall(jsonrpcMessage.params);
+              } else if (jsonrpcMessage.method?.startsWith('resources/')) {
+                // No push channel over plain HTTP, so resources/subscribe is stdio-only
+                result = await this.handleResourceRequest(jsonrpcMessage.method, jsonrpcMessage.params);
               } else {
                 result = { error: { code: -32601, message: 'Method not found' } };
               }
@@ -706,6 +3167,7 @@ class FilesystemMCP {
       // Default stdio mode for CLI usage
       const transport = new StdioServerTransport();
       await this.server.connect(transport);
+      await this.resourceWatcher.start(RESOURCE_POLL_INTERVAL_MS);
       console.error("CV Filesystem MCP server running on stdio");
     }
   }
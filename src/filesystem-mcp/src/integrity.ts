@@ -0,0 +1,221 @@
+/**
+ * Referential integrity between CVs, jobs, matrices and applications (see doc/Data.md).
+ *
+ * Links checked:
+ * - CV metadata.matrixId   -> matrix of type 'CV' whose entityId is the CV
+ * - CV metadata.targetJobs -> jobs
+ * - Job matrixId           -> matrix of type 'Job' whose entityId is the job
+ * - Matrix entityId        -> CV or job, depending on the matrix type
+ * - Application jobId       -> job
+ * - Application cvFilename  -> CV
+ */
+
+export type LinkKind = 'cv' | 'job' | 'matrix' | 'application';
+
+export type LinkProblem = 'missing' | 'archived' | 'mismatch';
+
+export interface EntityLink {
+  field: string;
+  targetKind: LinkKind;
+  target: string;
+}
+
+export interface IntegrityIssue extends EntityLink {
+  entityType: 'CV' | 'Job' | 'Matrix' | 'Application';
+  id: string;
+  problem: LinkProblem;
+  message: string;
+  marked?: boolean;
+  repair?: { action: 'relinked'; matrixId: string } | { action: 'marked' };
+}
+
+// Recorded on an entity by check_integrity's repair mode
+export interface BrokenLinkMarker {
+  field: string;
+  target: string;
+  problem: LinkProblem;
+  markedAt: string;
+}
+
+export interface LinkTarget {
+  exists: boolean;
+  archived: boolean;
+  record?: any; // Matrix record, needed to detect type/entityId mismatches
+}
+
+export interface LinkSnapshot {
+  cvs: Map<string, any>; // filename -> metadata (null when there is no sidecar)
+  jobs: Map<string, any>;
+  matrices: Map<string, any>;
+  applications: Map<string, any>;
+  archived: Record<LinkKind, Set<string>>;
+}
+
+export const DANGLING_LINK = 'DANGLING_LINK';
+
+const ENTITY_TYPES: Record<LinkKind, IntegrityIssue['entityType']> = {
+  cv: 'CV',
+  job: 'Job',
+  matrix: 'Matrix',
+  application: 'Application',
+};
+
+export class LinkValidationError extends Error {
+  readonly code = DANGLING_LINK;
+
+  constructor(readonly issues: IntegrityIssue[]) {
+    super(`Dangling link(s): ${issues.map(i => i.message).join('; ')}`);
+    this.name = 'LinkValidationError';
+  }
+
+  toJSON() {
+    return {
+      code: this.code,
+      issues: this.issues,
+    };
+  }
+}
+
+/**
+ * Outgoing links of a stored record. `record` is the CV metadata, or the job,
+ * matrix or application data.
+ */
+export function entityLinks(kind: LinkKind, record: any): EntityLink[] {
+  const links: EntityLink[] = [];
+  if (!record || typeof record !== 'object') {
+    return links;
+  }
+
+  if (kind === 'cv') {
+    if (typeof record.matrixId === 'string') {
+      links.push({ field: 'metadata.matrixId', targetKind: 'matrix', target: record.matrixId });
+    }
+    if (Array.isArray(record.targetJobs)) {
+      record.targetJobs.forEach((jobId: unknown, index: number) => {
+        if (typeof jobId === 'string') {
+          links.push({ field: `metadata.targetJobs[${index}]`, targetKind: 'job', target: jobId });
+        }
+      });
+    }
+  } else if (kind === 'job') {
+    if (typeof record.matrixId === 'string') {
+      links.push({ field: 'matrixId', targetKind: 'matrix', target: record.matrixId });
+    }
+  } else if (kind === 'application') {
+    if (typeof record.jobId === 'string') {
+      links.push({ field: 'jobId', targetKind: 'job', target: record.jobId });
+    }
+    if (typeof record.cvFilename === 'string') {
+      links.push({ field: 'cvFilename', targetKind: 'cv', target: record.cvFilename });
+    }
+  } else if (typeof record.entityId === 'string' && (record.type === 'CV' || record.type === 'Job')) {
+    links.push({ field: 'entityId', targetKind: record.type === 'CV' ? 'cv' : 'job', target: record.entityId });
+  }
+
+  return links;
+}
+
+/**
+ * Classifies one link, or returns null when it resolves. A matrixId must point
+ * at a matrix that analyzes this very entity; anything else is a mismatch.
+ */
+export function checkLink(kind: LinkKind, id: string, link: EntityLink, target: LinkTarget): IntegrityIssue | null {
+  const base = { entityType: ENTITY_TYPES[kind], id, ...link };
+  const targetLabel = `${ENTITY_TYPES[link.targetKind]} '${link.target}'`;
+
+  if (!target.exists) {
+    return target.archived
+      ? { ...base, problem: 'archived', message: `${kind} '${id}' ${link.field} points at archived ${targetLabel}` }
+      : { ...base, problem: 'missing', message: `${kind} '${id}' ${link.field} points at missing ${targetLabel}` };
+  }
+
+  if (link.targetKind === 'matrix' && !matrixAnalyzes(target.record, kind, id)) {
+    return {
+      ...base,
+      problem: 'mismatch',
+      message: `${kind} '${id}' ${link.field} points at ${targetLabel}, which analyzes ${target.record?.type} '${target.record?.entityId}'`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Checks every link in the snapshot. Issues already recorded in the entity's
+ * `brokenLinks` are flagged `marked: true`.
+ */
+export function findLinkIssues(snapshot: LinkSnapshot): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const sources: Array<[LinkKind, Map<string, any>]> = [
+    ['cv', snapshot.cvs],
+    ['job', snapshot.jobs],
+    ['matrix', snapshot.matrices],
+    ['application', snapshot.applications],
+  ];
+
+  for (const [kind, records] of sources) {
+    for (const [id, record] of records) {
+      for (const link of entityLinks(kind, record)) {
+        const issue = checkLink(kind, id, link, resolve(snapshot, link));
+        if (issue) {
+          const markers: BrokenLinkMarker[] = Array.isArray(record?.brokenLinks) ? record.brokenLinks : [];
+          if (markers.some(m => m.field === issue.field && m.target === issue.target)) {
+            issue.marked = true;
+          }
+          issues.push(issue);
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Finds the matrix to re-link a CV or job to: the newest matrix whose type and
+ * entityId point back at the entity.
+ */
+export function findRelinkCandidate(snapshot: LinkSnapshot, kind: LinkKind, id: string): string | null {
+  let best: { matrixId: string; storedAt: string } | null = null;
+  for (const [matrixId, matrix] of snapshot.matrices) {
+    if (!matrixAnalyzes(matrix, kind, id)) continue;
+    const storedAt = typeof matrix.storedAt === 'string' ? matrix.storedAt : '';
+    if (!best || storedAt > best.storedAt) {
+      best = { matrixId, storedAt };
+    }
+  }
+  return best?.matrixId ?? null;
+}
+
+/**
+ * Adds a marker for `issue` to `record.brokenLinks` unless one is already there.
+ * Returns the updated record.
+ */
+export function markBrokenLink(record: any, issue: IntegrityIssue, markedAt: string): any {
+  const markers: BrokenLinkMarker[] = Array.isArray(record.brokenLinks) ? record.brokenLinks : [];
+  if (markers.some(m => m.field === issue.field && m.target === issue.target)) {
+    return record;
+  }
+  return {
+    ...record,
+    brokenLinks: [...markers, { field: issue.field, target: issue.target, problem: issue.problem, markedAt }],
+  };
+}
+
+function resolve(snapshot: LinkSnapshot, link: EntityLink): LinkTarget {
+  const records = {
+    cv: snapshot.cvs,
+    job: snapshot.jobs,
+    matrix: snapshot.matrices,
+    application: snapshot.applications,
+  }[link.targetKind];
+  return {
+    exists: records.has(link.target),
+    archived: snapshot.archived[link.targetKind].has(link.target),
+    record: records.get(link.target),
+  };
+}
+
+function matrixAnalyzes(matrix: any, kind: LinkKind, id: string): boolean {
+  return matrix?.type === ENTITY_TYPES[kind] && matrix?.entityId === id;
+}
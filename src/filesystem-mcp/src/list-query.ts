@@ -0,0 +1,191 @@
+/**
+ * Filtering, sorting, cursor pagination and field projection for list_* tools.
+ *
+ * Cursors are opaque base64url tokens holding the sort key and the last
+ * item's (value, id). The next page starts strictly after that position, so
+ * paging stays stable when items are added or removed between calls.
+ */
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface ListOptions {
+  cursor?: string;
+  limit?: number;
+  sortBy?: string;
+  order?: SortOrder;
+  fields?: string[];
+}
+
+export interface ListFilters {
+  company?: string | string[];
+  matrixId?: string;
+  hasMatrix?: boolean;
+  tags?: string[];
+  storedAfter?: string;
+  storedBefore?: string;
+  minOptimizationScore?: number;
+}
+
+export interface ListPage<T> {
+  items: Partial<T>[];
+  total: number;
+  limit: number;
+  sortBy: string;
+  order: SortOrder;
+  nextCursor: string | null;
+}
+
+interface Cursor {
+  sortBy: string;
+  order: SortOrder;
+  value: unknown;
+  id: string;
+}
+
+/**
+ * Applies list_* filters to manifest summaries. Company matches are
+ * case-insensitive; tags must all be present; stored* bounds are inclusive.
+ */
+export function applyFilters<T extends Record<string, any>>(items: T[], filters: ListFilters): T[] {
+  const companies = filters.company === undefined
+    ? null
+    : (Array.isArray(filters.company) ? filters.company : [filters.company]).map(c => c.toLowerCase());
+  const after = parseBound(filters.storedAfter, 'storedAfter');
+  const before = parseBound(filters.storedBefore, 'storedBefore');
+
+  return items.filter(item => {
+    if (companies && !companies.includes(String(item.company ?? '').toLowerCase())) return false;
+    if (filters.matrixId !== undefined && item.matrixId !== filters.matrixId) return false;
+    if (filters.hasMatrix !== undefined && Boolean(item.matrixId) !== filters.hasMatrix) return false;
+    if (filters.tags?.length) {
+      const tags: string[] = Array.isArray(item.tags) ? item.tags : [];
+      if (!filters.tags.every(tag => tags.includes(tag))) return false;
+    }
+    if (after !== null || before !== null) {
+      const storedAt = item.storedAt ? Date.parse(item.storedAt) : NaN;
+      if (Number.isNaN(storedAt)) return false;
+      if (after !== null && storedAt < after) return false;
+      if (before !== null && storedAt > before) return false;
+    }
+    if (filters.minOptimizationScore !== undefined
+      && !(typeof item.optimizationScore === 'number' && item.optimizationScore >= filters.minOptimizationScore)) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Sorts, pages and projects an already filtered list.
+ *
+ * @param items - Filtered items
+ * @param idField - Field that uniquely identifies an item; used as tiebreaker
+ * @param sortKeys - Allowed sortBy values
+ * @param defaults - sortBy/order/fields used when the caller omits them
+ */
+export function paginate<T extends Record<string, any>>(
+  items: T[],
+  options: ListOptions,
+  idField: keyof T & string,
+  sortKeys: string[],
+  defaults: { sortBy: string; order: SortOrder; fields: string[] }
+): ListPage<T> {
+  const sortBy = options.sortBy ?? defaults.sortBy;
+  const order = options.order ?? defaults.order;
+  if (!sortKeys.includes(sortBy)) {
+    throw new Error(`Invalid sortBy "${sortBy}". Expected one of: ${sortKeys.join(', ')}`);
+  }
+  if (order !== 'asc' && order !== 'desc') {
+    throw new Error(`Invalid order "${order}". Expected "asc" or "desc"`);
+  }
+
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(options.limit ?? DEFAULT_PAGE_SIZE)));
+  const compare = (aValue: unknown, aId: string, bValue: unknown, bId: string) => {
+    const byValue = compareValues(aValue, bValue, order);
+    return byValue !== 0 ? byValue : aId.localeCompare(bId);
+  };
+
+  const sorted = [...items].sort((a, b) => compare(a[sortBy], a[idField], b[sortBy], b[idField]));
+
+  let start = 0;
+  if (options.cursor) {
+    const cursor = decodeCursor(options.cursor);
+    if (cursor.sortBy !== sortBy || cursor.order !== order) {
+      throw new Error('Cursor was created with a different sortBy/order');
+    }
+    start = sorted.findIndex(item => compare(item[sortBy], item[idField], cursor.value, cursor.id) > 0);
+    if (start === -1) start = sorted.length;
+  }
+
+  const page = sorted.slice(start, start + limit);
+  const last = page[page.length - 1];
+  const hasMore = start + limit < sorted.length;
+
+  return {
+    items: page.map(item => project(item, options.fields ?? defaults.fields)),
+    total: sorted.length,
+    limit,
+    sortBy,
+    order,
+    nextCursor: hasMore && last
+      ? encodeCursor({ sortBy, order, value: last[sortBy] ?? null, id: last[idField] })
+      : null,
+  };
+}
+
+/**
+ * Keeps only the requested fields. `archived`, `tombstone` and `error` are
+ * always kept so archived and unreadable items stay recognizable in projected
+ * listings.
+ */
+export function project<T extends Record<string, any>>(item: T, fields: string[]): Partial<T> {
+  const projected: Record<string, any> = {};
+  for (const field of [...fields, 'archived', 'tombstone', 'error']) {
+    if (item[field] !== undefined) {
+      projected[field] = item[field];
+    }
+  }
+  return projected as Partial<T>;
+}
+
+function parseBound(value: string | undefined, field: string): number | null {
+  if (value === undefined) return null;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`${field} must be an ISO 8601 date-time`);
+  }
+  return time;
+}
+
+// Missing values always sort last, whatever the order
+function compareValues(a: unknown, b: unknown, order: SortOrder): number {
+  const aMissing = a === undefined || a === null;
+  const bMissing = b === undefined || b === null;
+  if (aMissing || bMissing) {
+    return aMissing === bMissing ? 0 : aMissing ? 1 : -1;
+  }
+
+  const result = typeof a === 'number' && typeof b === 'number'
+    ? a - b
+    : String(a).localeCompare(String(b), undefined, { sensitivity: 'base' });
+  return order === 'asc' ? result : -result;
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(token: string): Cursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf-8'));
+    if (typeof cursor?.sortBy !== 'string' || typeof cursor?.id !== 'string') {
+      throw new Error('malformed');
+    }
+    return cursor;
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+}
@@ -0,0 +1,87 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { writeFileAtomic } from './atomic-write.js';
+
+/**
+ * Cached per-entity summaries for list_* tools.
+ *
+ * Each listing is a manifest section mapping entity ID to a summary plus the
+ * storage backend's change token for that entity (see StorageBackend.changeTokens).
+ * A listing only fetches the tokens; it re-reads and re-summarizes just the
+ * entities whose token changed, so edits made outside the server are still
+ * picked up without N reads per call.
+ */
+
+const MANIFEST_FORMAT_VERSION = 2;
+
+interface ManifestEntry {
+  signature: string;
+  summary: any;
+}
+
+interface ManifestFile {
+  formatVersion: number;
+  sections: Record<string, Record<string, ManifestEntry>>;
+}
+
+export class ListingManifest {
+  private file: ManifestFile | null = null;
+
+  constructor(private readonly manifestPath: string) {}
+
+  /**
+   * Returns the summaries of every entity in `tokens`, refreshing only the
+   * entries whose token changed since they were cached.
+   *
+   * @param section - Manifest section name, unique per backend and listing (e.g. 'fs:jobs')
+   * @param tokens - Current change token per entity ID
+   */
+  async list<T>(section: string, tokens: Map<string, string>, summarize: (id: string) => Promise<T>): Promise<Array<{ id: string; summary: T }>> {
+    const manifest = await this.load();
+    const cached = manifest.sections[section] ?? {};
+    const next: Record<string, ManifestEntry> = {};
+    let changed = manifest.sections[section] === undefined;
+
+    for (const [id, signature] of tokens) {
+      const entry = cached[id];
+      if (entry && entry.signature === signature) {
+        next[id] = entry;
+      } else {
+        next[id] = { signature, summary: await summarize(id) };
+        changed = true;
+      }
+    }
+
+    if (Object.keys(cached).some(id => !next[id])) {
+      changed = true;
+    }
+
+    if (changed) {
+      manifest.sections[section] = next;
+      await this.save();
+    }
+
+    return Object.entries(next).map(([id, entry]) => ({ id, summary: entry.summary as T }));
+  }
+
+  private async load(): Promise<ManifestFile> {
+    if (this.file) {
+      return this.file;
+    }
+
+    try {
+      const file: ManifestFile = JSON.parse(await fs.readFile(this.manifestPath, 'utf-8'));
+      this.file = file.formatVersion === MANIFEST_FORMAT_VERSION ? file : null;
+    } catch {
+      this.file = null; // Missing or unreadable: rebuilt from scratch below
+    }
+
+    this.file = this.file ?? { formatVersion: MANIFEST_FORMAT_VERSION, sections: {} };
+    return this.file;
+  }
+
+  private async save(): Promise<void> {
+    await fs.ensureDir(path.dirname(this.manifestPath));
+    await writeFileAtomic(this.manifestPath, JSON.stringify(this.file));
+  }
+}
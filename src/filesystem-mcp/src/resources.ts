@@ -0,0 +1,135 @@
+import { StorageBackend, StorageKind } from './storage.js';
+
+/**
+ * MCP resource URIs for stored entities and a poller that detects changes.
+ *
+ * Every active entity has a stable URI: `cv://<filename>`, `job://<jobId>`,
+ * `matrix://<matrixId>` and `application://<applicationId>`. The watcher
+ * compares the storage backend's change tokens between polls, so edits made
+ * outside the server (another process, a text editor) are noticed the same
+ * way as the server's own writes.
+ */
+
+export const RESOURCE_SCHEMES: Record<StorageKind, string> = {
+  cv: 'cv',
+  job: 'job',
+  matrix: 'matrix',
+  application: 'application',
+};
+
+export const RESOURCE_MIME_TYPES: Record<StorageKind, string> = {
+  cv: 'text/markdown',
+  job: 'application/json',
+  matrix: 'application/json',
+  application: 'application/json',
+};
+
+const RESOURCE_KINDS = Object.keys(RESOURCE_SCHEMES) as StorageKind[];
+
+export function resourceUri(kind: StorageKind, id: string): string {
+  return `${RESOURCE_SCHEMES[kind]}://${encodeURIComponent(id)}`;
+}
+
+/**
+ * @throws Error if the URI does not use one of the entity schemes
+ */
+export function parseResourceUri(uri: string): { kind: StorageKind; id: string } {
+  const match = /^([a-z]+):\/\/(.+)$/.exec(typeof uri === 'string' ? uri : '');
+  const kind = RESOURCE_KINDS.find(k => RESOURCE_SCHEMES[k] === match?.[1]);
+  if (!match || !kind) {
+    throw new Error(`Unknown resource URI: ${uri}. Expected ${RESOURCE_KINDS.map(k => `${RESOURCE_SCHEMES[k]}://<id>`).join(', ')}`);
+  }
+  return { kind, id: decodeURIComponent(match[2]) };
+}
+
+export interface ResourceChanges {
+  updated: string[]; // URIs whose entity was added, changed or removed
+  listChanged: boolean; // An entity was added or removed
+}
+
+export class ResourceWatcher {
+  private tokens: Map<string, string> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private checking: Promise<void> | null = null;
+
+  constructor(
+    private readonly storage: StorageBackend,
+    private readonly onChange: (changes: ResourceChanges) => Promise<void>,
+    private readonly onError: (error: unknown) => Promise<void>
+  ) {}
+
+  /**
+   * Takes the baseline snapshot and polls every `intervalMs`. The timer does
+   * not keep the process alive on its own.
+   */
+  async start(intervalMs: number): Promise<void> {
+    this.tokens = await this.snapshot();
+    this.timer = setInterval(() => void this.check(), intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Compares the current change tokens with the last snapshot and reports
+   * any differences. Concurrent calls share one comparison.
+   */
+  check(): Promise<void> {
+    if (!this.checking) {
+      this.checking = this.compare().finally(() => {
+        this.checking = null;
+      });
+    }
+    return this.checking;
+  }
+
+  private async compare(): Promise<void> {
+    if (!this.tokens) {
+      return; // Not started
+    }
+
+    try {
+      const current = await this.snapshot();
+      const updated: string[] = [];
+      let listChanged = false;
+
+      for (const [uri, token] of current) {
+        const previous = this.tokens.get(uri);
+        if (previous === undefined) {
+          listChanged = true;
+        }
+        if (previous !== token) {
+          updated.push(uri);
+        }
+      }
+      for (const uri of this.tokens.keys()) {
+        if (!current.has(uri)) {
+          listChanged = true;
+          updated.push(uri);
+        }
+      }
+
+      this.tokens = current;
+      if (updated.length > 0) {
+        await this.onChange({ updated, listChanged });
+      }
+    } catch (error) {
+      await this.onError(error);
+    }
+  }
+
+  private async snapshot(): Promise<Map<string, string>> {
+    const tokens = new Map<string, string>();
+    for (const kind of RESOURCE_KINDS) {
+      for (const [id, token] of await this.storage.changeTokens(kind)) {
+        tokens.set(resourceUri(kind, id), token);
+      }
+    }
+    return tokens;
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Minimal JSON-schema validator covering the subset used by the entity schemas
+ * and the MCP tool input schemas: type, properties, required,
+ * additionalProperties, items, enum, minLength, minimum, maximum and the
+ * 'date-time' format.
+ */
+
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+  format?: 'date-time';
+}
+
+type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface FieldError {
+  field: string; // Dotted path from the validated root, e.g. 'data.requirements[2]'
+  message: string;
+}
+
+export const SCHEMA_VALIDATION_FAILED = 'SCHEMA_VALIDATION_FAILED';
+
+export class SchemaValidationError extends Error {
+  readonly code = SCHEMA_VALIDATION_FAILED;
+
+  constructor(
+    readonly entityType: string,
+    readonly schemaVersion: number,
+    readonly errors: FieldError[]
+  ) {
+    super(`Invalid ${entityType} (schema v${schemaVersion}): ${errors.map(e => `${e.field} ${e.message}`).join('; ')}`);
+    this.name = 'SchemaValidationError';
+  }
+
+  toJSON() {
+    return {
+      code: this.code,
+      entityType: this.entityType,
+      schemaVersion: this.schemaVersion,
+      errors: this.errors,
+    };
+  }
+}
+
+/**
+ * Validates `value` against `schema` and returns every violation found.
+ * An empty array means the value conforms.
+ *
+ * @param field - Name used for the root in error paths (e.g. 'data')
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, field: string): FieldError[] {
+  const errors: FieldError[] = [];
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    const expected = Array.isArray(schema.type) ? schema.type.join(' or ') : schema.type;
+    errors.push({ field, message: `must be of type ${expected}` });
+    return errors; // Nested checks are meaningless on the wrong type
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ field, message: `must be one of: ${schema.enum.map(v => JSON.stringify(v)).join(', ')}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+      errors.push({
+        field,
+        message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`,
+      });
+    }
+    if (schema.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+      errors.push({ field, message: 'must be an ISO 8601 date-time' });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ field, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ field, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(...validateSchema(item, schema.items!, `${field}[${index}]`));
+    });
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined || value[key] === null) {
+        errors.push({ field: `${field}.${key}`, message: 'is required' });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      if (propertyValue === undefined) continue;
+
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        if (propertyValue !== null || (schema.required ?? []).includes(key)) {
+          errors.push(...validateSchema(propertyValue, propertySchema, `${field}.${key}`));
+        }
+      } else if (schema.additionalProperties === false) {
+        errors.push({ field: `${field}.${key}`, message: 'is not an allowed property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateSchema(propertyValue, schema.additionalProperties, `${field}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value: unknown, type: JsonType | JsonType[]): boolean {
+  const types = Array.isArray(type) ? type : [type];
+  return types.some(t => {
+    switch (t) {
+      case 'string': return typeof value === 'string';
+      case 'number': return typeof value === 'number' && Number.isFinite(value);
+      case 'integer': return Number.isInteger(value);
+      case 'boolean': return typeof value === 'boolean';
+      case 'object': return isPlainObject(value);
+      case 'array': return Array.isArray(value);
+      case 'null': return value === null;
+    }
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,384 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { writeFileAtomic } from './atomic-write.js';
+
+/**
+ * Persistent full-text index over stored jobs and CVs.
+ *
+ * The index lives in a single JSON file under var/ and is updated
+ * incrementally by the store/delete/archive/rename tools. Each document keeps
+ * its term frequencies; ranking uses BM25 with document frequencies computed
+ * at query time, which is plenty fast for a few thousand documents.
+ */
+
+const INDEX_FORMAT_VERSION = 1;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const TITLE_BOOST = 3; // Title terms count this many times
+const SNIPPET_RADIUS = 80;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on',
+  'or', 'our', 'that', 'the', 'this', 'to', 'we', 'with', 'you', 'your', 'will',
+  'der', 'die', 'das', 'und', 'mit', 'für', 'von', 'zu', 'im', 'ein', 'eine', 'wir', 'sie',
+]);
+
+export type SearchKind = 'job' | 'cv';
+
+export interface SearchDocument {
+  kind: SearchKind;
+  id: string;
+  title: string;
+  company: string | null;
+  location: string | null;
+  tags: string[];
+  matrixId: string | null;
+  storedAt: string | null;
+  extractedAt: string | null;
+  createdAt: string | null;
+  text: string;
+  terms: Record<string, number>;
+  length: number;
+}
+
+export interface DateRangeFilter {
+  field: 'storedAt' | 'extractedAt' | 'createdAt';
+  from?: string;
+  to?: string;
+}
+
+export interface SearchQuery {
+  query?: string;
+  company?: string | string[];
+  location?: string | string[];
+  tags?: string[];
+  hasMatrix?: boolean;
+  dateRange?: DateRangeFilter;
+  matchAll?: boolean; // Require every query term instead of any
+  offset?: number;
+  limit?: number;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  title: string;
+  company: string | null;
+  location: string | null;
+  tags: string[];
+  matrixId: string | null;
+  storedAt: string | null;
+  snippet: string;
+}
+
+export interface SearchResult {
+  kind: SearchKind;
+  query: string;
+  total: number;
+  offset: number;
+  limit: number;
+  hits: SearchHit[];
+  facets: {
+    company: Record<string, number>;
+    location: Record<string, number>;
+    tags: Record<string, number>;
+    matrix: { linked: number; unlinked: number };
+  };
+}
+
+interface IndexFile {
+  formatVersion: number;
+  updatedAt: string;
+  documents: Record<string, SearchDocument>;
+}
+
+export function tokenize(text: string): string[] {
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}+#.]*/gu) ?? [];
+  return tokens
+    .map(token => token.replace(/\.+$/, ''))
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+export class SearchIndex {
+  private documents: Record<string, SearchDocument> | null = null;
+  private loadedMtimeMs = 0;
+  private outdatedFormat = false;
+
+  constructor(private readonly indexPath: string) {}
+
+  static jobDocument(record: any): SearchDocument {
+    const requirements = Array.isArray(record.requirements) ? record.requirements.join('\n') : '';
+    const body = [record.company, record.location, record.description, requirements].filter(Boolean).join('\n');
+    return SearchIndex.buildDocument('job', record.jobId, {
+      title: record.title ?? '',
+      company: record.company ?? null,
+      location: record.location ?? null,
+      tags: Array.isArray(record.tags) ? record.tags : [],
+      matrixId: record.matrixId ?? null,
+      storedAt: record.storedAt ?? null,
+      extractedAt: record.extractedAt ?? null,
+      createdAt: null,
+      text: record.description ?? '',
+    }, body);
+  }
+
+  static cvDocument(filename: string, content: string, metadata: any): SearchDocument {
+    const tags = Array.isArray(metadata?.tags) ? metadata.tags : [];
+    return SearchIndex.buildDocument('cv', filename, {
+      title: filename,
+      company: null,
+      location: null,
+      tags,
+      matrixId: metadata?.matrixId ?? null,
+      storedAt: metadata?.storedAt ?? null,
+      extractedAt: null,
+      createdAt: metadata?.createdAt ?? null,
+      text: content,
+    }, `${tags.join(' ')}\n${content}`);
+  }
+
+  private static buildDocument(
+    kind: SearchKind,
+    id: string,
+    fields: Omit<SearchDocument, 'kind' | 'id' | 'terms' | 'length'>,
+    body: string
+  ): SearchDocument {
+    const terms: Record<string, number> = {};
+    const titleTokens = tokenize(fields.title);
+    const bodyTokens = tokenize(body);
+
+    for (const token of titleTokens) {
+      terms[token] = (terms[token] || 0) + TITLE_BOOST;
+    }
+    for (const token of bodyTokens) {
+      terms[token] = (terms[token] || 0) + 1;
+    }
+
+    return {
+      kind,
+      id,
+      ...fields,
+      terms,
+      length: titleTokens.length * TITLE_BOOST + bodyTokens.length,
+    };
+  }
+
+  /**
+   * True when there is no index on disk yet or it was written in an older
+   * format; the caller should then rebuild it from data/.
+   */
+  async needsRebuild(): Promise<boolean> {
+    if (!(await fs.pathExists(this.indexPath))) {
+      return true;
+    }
+    await this.load();
+    return this.outdatedFormat;
+  }
+
+  async upsert(document: SearchDocument): Promise<void> {
+    const documents = await this.load();
+    documents[this.key(document.kind, document.id)] = document;
+    await this.save();
+  }
+
+  async remove(kind: SearchKind, id: string): Promise<void> {
+    const documents = await this.load();
+    delete documents[this.key(kind, id)];
+    await this.save();
+  }
+
+  async rebuild(documents: SearchDocument[]): Promise<number> {
+    this.documents = {};
+    for (const document of documents) {
+      this.documents[this.key(document.kind, document.id)] = document;
+    }
+    await this.save();
+    return documents.length;
+  }
+
+  /**
+   * Ranked, faceted search over one entity kind.
+   *
+   * Filters are applied first; facet counts describe the filtered match set
+   * (before pagination) so callers can drill down. Without a query string,
+   * matches are ordered by most recently stored.
+   */
+  async search(kind: SearchKind, query: SearchQuery): Promise<SearchResult> {
+    const documents = Object.values(await this.load()).filter(d => d.kind === kind);
+    const queryTerms = Array.from(new Set(tokenize(query.query ?? '')));
+
+    const candidates = documents.filter(document => this.matchesFilters(document, query));
+
+    let scored: Array<{ document: SearchDocument; score: number }>;
+    if (queryTerms.length === 0) {
+      scored = candidates
+        .map(document => ({ document, score: 0 }))
+        .sort((a, b) => (b.document.storedAt ?? '').localeCompare(a.document.storedAt ?? ''));
+    } else {
+      const averageLength = documents.reduce((sum, d) => sum + d.length, 0) / Math.max(1, documents.length);
+      const documentFrequency = new Map<string, number>(
+        queryTerms.map(term => [term, documents.filter(d => d.terms[term]).length])
+      );
+
+      scored = candidates
+        .filter(document => {
+          const present = queryTerms.filter(term => document.terms[term]);
+          return query.matchAll ? present.length === queryTerms.length : present.length > 0;
+        })
+        .map(document => ({
+          document,
+          score: this.bm25(document, queryTerms, documentFrequency, documents.length, averageLength),
+        }))
+        .sort((a, b) => b.score - a.score);
+    }
+
+    const offset = Math.max(0, Math.floor(query.offset ?? 0));
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(query.limit ?? DEFAULT_PAGE_SIZE)));
+
+    return {
+      kind,
+      query: query.query ?? '',
+      total: scored.length,
+      offset,
+      limit,
+      hits: scored.slice(offset, offset + limit).map(({ document, score }) => ({
+        id: document.id,
+        score: Math.round(score * 1000) / 1000,
+        title: document.title,
+        company: document.company,
+        location: document.location,
+        tags: document.tags,
+        matrixId: document.matrixId,
+        storedAt: document.storedAt,
+        snippet: this.snippet(document.text, queryTerms),
+      })),
+      facets: this.facets(scored.map(s => s.document)),
+    };
+  }
+
+  private bm25(
+    document: SearchDocument,
+    queryTerms: string[],
+    documentFrequency: Map<string, number>,
+    documentCount: number,
+    averageLength: number
+  ): number {
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = document.terms[term] || 0;
+      if (tf === 0) continue;
+
+      const df = documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (documentCount - df + 0.5) / (df + 0.5));
+      const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (document.length / (averageLength || 1)));
+      score += idf * (tf * (BM25_K1 + 1)) / norm;
+    }
+    return score;
+  }
+
+  private matchesFilters(document: SearchDocument, query: SearchQuery): boolean {
+    const anyOf = (value: string | string[] | undefined) =>
+      value === undefined ? [] : (Array.isArray(value) ? value : [value]).map(v => v.toLowerCase());
+
+    const companies = anyOf(query.company);
+    if (companies.length > 0 && !companies.includes((document.company ?? '').toLowerCase())) {
+      return false;
+    }
+
+    // Locations match by substring so "Berlin" finds "Berlin, Germany (Hybrid)"
+    const locations = anyOf(query.location);
+    const documentLocation = (document.location ?? '').toLowerCase();
+    if (locations.length > 0 && !locations.some(location => documentLocation.includes(location))) {
+      return false;
+    }
+
+    const tags = anyOf(query.tags);
+    const documentTags = document.tags.map(tag => tag.toLowerCase());
+    if (tags.length > 0 && !tags.every(tag => documentTags.includes(tag))) {
+      return false;
+    }
+
+    if (query.hasMatrix !== undefined && query.hasMatrix !== Boolean(document.matrixId)) {
+      return false;
+    }
+
+    if (query.dateRange) {
+      const value = document[query.dateRange.field];
+      const time = value ? Date.parse(value) : NaN;
+      if (Number.isNaN(time)) return false;
+      if (query.dateRange.from && time < Date.parse(query.dateRange.from)) return false;
+      if (query.dateRange.to && time > Date.parse(query.dateRange.to)) return false;
+    }
+
+    return true;
+  }
+
+  private facets(documents: SearchDocument[]): SearchResult['facets'] {
+    const count = (acc: Record<string, number>, value: string | null) => {
+      if (value) acc[value] = (acc[value] || 0) + 1;
+      return acc;
+    };
+
+    return {
+      company: documents.reduce((acc, d) => count(acc, d.company), {} as Record<string, number>),
+      location: documents.reduce((acc, d) => count(acc, d.location), {} as Record<string, number>),
+      tags: documents.reduce((acc, d) => {
+        d.tags.forEach(tag => count(acc, tag));
+        return acc;
+      }, {} as Record<string, number>),
+      matrix: {
+        linked: documents.filter(d => d.matrixId).length,
+        unlinked: documents.filter(d => !d.matrixId).length,
+      },
+    };
+  }
+
+  private snippet(text: string, queryTerms: string[]): string {
+    const lower = text.toLowerCase();
+    const positions = queryTerms.map(term => lower.indexOf(term)).filter(index => index >= 0);
+    const center = positions.length > 0 ? Math.min(...positions) : 0;
+    const start = Math.max(0, center - SNIPPET_RADIUS);
+    const end = Math.min(text.length, center + SNIPPET_RADIUS);
+
+    const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+    return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+  }
+
+  private key(kind: SearchKind, id: string): string {
+    return `${kind}:${id}`;
+  }
+
+  /**
+   * Loads the index from disk, re-reading it when another process (stdio vs
+   * HTTP server) has written a newer copy since the last load.
+   */
+  private async load(): Promise<Record<string, SearchDocument>> {
+    if (!(await fs.pathExists(this.indexPath))) {
+      this.documents = this.documents ?? {};
+      return this.documents;
+    }
+
+    const { mtimeMs } = await fs.stat(this.indexPath);
+    if (this.documents === null || mtimeMs !== this.loadedMtimeMs) {
+      const file: IndexFile = JSON.parse(await fs.readFile(this.indexPath, 'utf-8'));
+      this.outdatedFormat = file.formatVersion !== INDEX_FORMAT_VERSION;
+      this.documents = this.outdatedFormat ? {} : file.documents;
+      this.loadedMtimeMs = mtimeMs;
+    }
+    return this.documents;
+  }
+
+  private async save(): Promise<void> {
+    const file: IndexFile = {
+      formatVersion: INDEX_FORMAT_VERSION,
+      updatedAt: new Date().toISOString(),
+      documents: this.documents ?? {},
+    };
+    await fs.ensureDir(path.dirname(this.indexPath));
+    await writeFileAtomic(this.indexPath, JSON.stringify(file));
+    this.loadedMtimeMs = (await fs.stat(this.indexPath)).mtimeMs;
+    this.outdatedFormat = false;
+  }
+}
@@ -0,0 +1,209 @@
+import fs from 'fs-extra';
+import path from 'path';
+import Database from 'better-sqlite3';
+import {
+  EntityWrite,
+  StorageArea,
+  StorageBackend,
+  StorageKind,
+  StorageOpenOptions,
+  StoredEntity,
+  StoredRevision,
+} from './storage.js';
+
+/**
+ * Embedded SQLite storage backend: one database file holding every entity,
+ * archived entity, tombstone and CV revision.
+ *
+ * The database runs in WAL mode with a busy timeout, so the HTTP server and
+ * stdio clients can use the same file concurrently. Multi-row changes
+ * (archive, rename, remove with revisions) run in a single transaction.
+ */
+
+export const SQLITE_FILE_NAME = 'cv-store.sqlite';
+
+const SQLITE_SCHEMA_VERSION = 1;
+const BUSY_TIMEOUT_MS = 5000;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS entities (
+    kind TEXT NOT NULL,
+    area TEXT NOT NULL,
+    id TEXT NOT NULL,
+    content TEXT NOT NULL,
+    meta TEXT,
+    tombstone TEXT,
+    revision INTEGER NOT NULL DEFAULT 1,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (kind, area, id)
+  );
+  CREATE TABLE IF NOT EXISTS cv_revisions (
+    area TEXT NOT NULL,
+    cv_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    record TEXT NOT NULL,
+    PRIMARY KEY (area, cv_id, version)
+  );
+`;
+
+export class SqliteStorage implements StorageBackend {
+  readonly type = 'sqlite' as const;
+  readonly location: string;
+  private db: Database.Database;
+
+  /**
+   * @param options.readOnly - Open an existing database read-only; a missing
+   *   one is not created but read as empty
+   */
+  constructor(databasePath: string, projectRoot: string, options: StorageOpenOptions = {}) {
+    this.location = path.relative(projectRoot, databasePath);
+
+    if (options.readOnly && fs.existsSync(databasePath)) {
+      this.db = new Database(databasePath, { readonly: true, fileMustExist: true });
+      this.db.pragma(`busy_timeout = ${BUSY_TIMEOUT_MS}`);
+      this.checkSchemaVersion();
+      return;
+    }
+
+    if (options.readOnly) {
+      this.db = new Database(':memory:');
+    } else {
+      fs.ensureDirSync(path.dirname(databasePath));
+      this.db = new Database(databasePath);
+      this.db.pragma('journal_mode = WAL');
+      this.db.pragma(`busy_timeout = ${BUSY_TIMEOUT_MS}`);
+    }
+
+    this.checkSchemaVersion();
+    this.db.exec(SCHEMA);
+    this.db.pragma(`user_version = ${SQLITE_SCHEMA_VERSION}`);
+  }
+
+  async list(kind: StorageKind, area: StorageArea = 'active'): Promise<string[]> {
+    const rows = this.db.prepare('SELECT id FROM entities WHERE kind = ? AND area = ? ORDER BY id')
+      .all(kind, area) as Array<{ id: string }>;
+    return rows.map(row => row.id);
+  }
+
+  async changeTokens(kind: StorageKind, area: StorageArea = 'active'): Promise<Map<string, string>> {
+    const rows = this.db.prepare('SELECT id, revision, updated_at FROM entities WHERE kind = ? AND area = ?')
+      .all(kind, area) as Array<{ id: string; revision: number; updated_at: string }>;
+    return new Map(rows.map(row => [row.id, `${row.revision}:${row.updated_at}`]));
+  }
+
+  async exists(kind: StorageKind, id: string, area: StorageArea = 'active'): Promise<boolean> {
+    return this.db.prepare('SELECT 1 FROM entities WHERE kind = ? AND area = ? AND id = ?').get(kind, area, id) !== undefined;
+  }
+
+  async read(kind: StorageKind, id: string, area: StorageArea = 'active'): Promise<StoredEntity | null> {
+    const row = this.db.prepare('SELECT content, meta FROM entities WHERE kind = ? AND area = ? AND id = ?')
+      .get(kind, area, id) as { content: string; meta: string | null } | undefined;
+    return row ? { content: row.content, meta: kind === 'cv' ? row.meta : null } : null;
+  }
+
+  async write(kind: StorageKind, id: string, entity: EntityWrite, area: StorageArea = 'active'): Promise<void> {
+    const keepMeta = entity.meta === undefined ? 1 : 0;
+    this.db.prepare(`
+      INSERT INTO entities (kind, area, id, content, meta, updated_at)
+      VALUES (@kind, @area, @id, @content, @meta, @now)
+      ON CONFLICT (kind, area, id) DO UPDATE SET
+        content = excluded.content,
+        meta = CASE WHEN @keepMeta THEN entities.meta ELSE excluded.meta END,
+        revision = entities.revision + 1,
+        updated_at = excluded.updated_at
+    `).run({
+      kind,
+      area,
+      id,
+      content: entity.content,
+      meta: kind === 'cv' ? entity.meta ?? null : null,
+      keepMeta,
+      now: new Date().toISOString(),
+    });
+  }
+
+  async remove(kind: StorageKind, id: string, area: StorageArea = 'active'): Promise<boolean> {
+    return this.db.transaction(() => {
+      const { changes } = this.db.prepare('DELETE FROM entities WHERE kind = ? AND area = ? AND id = ?').run(kind, area, id);
+      if (kind === 'cv') {
+        this.db.prepare('DELETE FROM cv_revisions WHERE area = ? AND cv_id = ?').run(area, id);
+      }
+      return changes > 0;
+    })();
+  }
+
+  async archive(kind: StorageKind, id: string, tombstone: string): Promise<void> {
+    const now = new Date().toISOString();
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM entities WHERE kind = ? AND area = 'archive' AND id = ?").run(kind, id);
+      const { changes } = this.db.prepare(`
+        UPDATE entities SET area = 'archive', tombstone = ?, revision = revision + 1, updated_at = ?
+        WHERE kind = ? AND area = 'active' AND id = ?
+      `).run(tombstone, now, kind, id);
+      if (changes === 0) {
+        throw new Error(`Not found: ${kind} ${id}`);
+      }
+
+      if (kind === 'cv') {
+        this.db.prepare("DELETE FROM cv_revisions WHERE area = 'archive' AND cv_id = ?").run(id);
+        this.db.prepare("UPDATE cv_revisions SET area = 'archive' WHERE area = 'active' AND cv_id = ?").run(id);
+      }
+    })();
+  }
+
+  async readTombstone(kind: StorageKind, id: string): Promise<string | null> {
+    const row = this.db.prepare("SELECT tombstone FROM entities WHERE kind = ? AND area = 'archive' AND id = ?")
+      .get(kind, id) as { tombstone: string | null } | undefined;
+    return row?.tombstone ?? null;
+  }
+
+  async writeTombstone(kind: StorageKind, id: string, tombstone: string): Promise<void> {
+    this.db.prepare(`
+      UPDATE entities SET tombstone = ?, revision = revision + 1, updated_at = ?
+      WHERE kind = ? AND area = 'archive' AND id = ?
+    `).run(tombstone, new Date().toISOString(), kind, id);
+  }
+
+  async rename(kind: 'cv', id: string, newId: string): Promise<void> {
+    const now = new Date().toISOString();
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM entities WHERE kind = ? AND area = 'active' AND id = ?").run(kind, newId);
+      this.db.prepare("DELETE FROM cv_revisions WHERE area = 'active' AND cv_id = ?").run(newId);
+      this.db.prepare(`
+        UPDATE entities SET id = ?, revision = revision + 1, updated_at = ?
+        WHERE kind = ? AND area = 'active' AND id = ?
+      `).run(newId, now, kind, id);
+      this.db.prepare("UPDATE cv_revisions SET cv_id = ? WHERE area = 'active' AND cv_id = ?").run(newId, id);
+    })();
+  }
+
+  async writeRevision(cvId: string, version: number, revision: StoredRevision, area: StorageArea = 'active'): Promise<void> {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO cv_revisions (area, cv_id, version, content, record) VALUES (?, ?, ?, ?, ?)
+    `).run(area, cvId, version, revision.content, revision.record);
+  }
+
+  async readRevision(cvId: string, version: number, area: StorageArea = 'active'): Promise<StoredRevision | null> {
+    const row = this.db.prepare('SELECT content, record FROM cv_revisions WHERE area = ? AND cv_id = ? AND version = ?')
+      .get(area, cvId, version) as StoredRevision | undefined;
+    return row ?? null;
+  }
+
+  async readRevisionRecords(cvId: string, area: StorageArea = 'active'): Promise<string[]> {
+    const rows = this.db.prepare('SELECT record FROM cv_revisions WHERE area = ? AND cv_id = ? ORDER BY version')
+      .all(area, cvId) as Array<{ record: string }>;
+    return rows.map(row => row.record);
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  private checkSchemaVersion(): void {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    if (version > SQLITE_SCHEMA_VERSION) {
+      throw new Error(`${this.location} uses storage schema v${version}; this server supports v${SQLITE_SCHEMA_VERSION}`);
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { StorageArea, StorageBackend, StorageKind } from './storage.js';
+
+/**
+ * Copies every entity from one storage backend to another: active and
+ * archived CVs, jobs, matrices and applications, CV metadata, tombstones and
+ * the full CV revision history. Records are copied byte for byte, so
+ * storedAt, revision numbers and schema versions are preserved.
+ *
+ * The source is never modified. Each entity is removed from the target
+ * before it is copied, so a replaced CV does not keep stale revisions.
+ */
+
+const STORAGE_KINDS: StorageKind[] = ['cv', 'job', 'matrix', 'application'];
+const STORAGE_AREAS: StorageArea[] = ['active', 'archive'];
+
+export interface MigrationCounts {
+  active: number;
+  archived: number;
+  revisions: number;
+}
+
+export interface MigrationReport {
+  counts: Record<StorageKind, MigrationCounts>;
+  replaced: string[]; // '<kind>/<id>' entries that already existed in the target
+  errors: Array<{ id: string; error: string }>;
+}
+
+export interface MigrationOptions {
+  dryRun?: boolean;
+  // Wraps each entity copy, e.g. to hold its entity lock
+  withEntity?: <T>(kind: StorageKind, id: string, fn: () => Promise<T>) => Promise<T>;
+}
+
+/**
+ * Returns the IDs ('<kind>/<id>', archived ones prefixed with 'archive/')
+ * already stored in a backend; empty means it is safe to migrate into.
+ */
+export async function listStoredEntities(storage: StorageBackend): Promise<string[]> {
+  const ids: string[] = [];
+  for (const area of STORAGE_AREAS) {
+    for (const kind of STORAGE_KINDS) {
+      for (const id of await storage.list(kind, area)) {
+        ids.push(`${area === 'archive' ? 'archive/' : ''}${kind}/${id}`);
+      }
+    }
+  }
+  return ids;
+}
+
+export async function migrateStorage(
+  source: StorageBackend,
+  target: StorageBackend,
+  options: MigrationOptions = {}
+): Promise<MigrationReport> {
+  const withEntity = options.withEntity ?? ((_kind, _id, fn) => fn());
+  const report: MigrationReport = {
+    counts: {
+      cv: { active: 0, archived: 0, revisions: 0 },
+      job: { active: 0, archived: 0, revisions: 0 },
+      matrix: { active: 0, archived: 0, revisions: 0 },
+      application: { active: 0, archived: 0, revisions: 0 },
+    },
+    replaced: [],
+    errors: [],
+  };
+
+  for (const area of STORAGE_AREAS) {
+    for (const kind of STORAGE_KINDS) {
+      for (const id of await source.list(kind, area)) {
+        const label = `${area === 'archive' ? 'archive/' : ''}${kind}/${id}`;
+        try {
+          const revisions = await withEntity(kind, id, () => copyEntity(source, target, kind, id, area, options.dryRun ?? false));
+          if (revisions === null) continue; // Removed from the source since listing
+
+          if (revisions.replaced) report.replaced.push(label);
+          report.counts[kind][area === 'archive' ? 'archived' : 'active']++;
+          report.counts[kind].revisions += revisions.count;
+        } catch (error) {
+          report.errors.push({ id: label, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+  }
+
+  return report;
+}
+
+async function copyEntity(
+  source: StorageBackend,
+  target: StorageBackend,
+  kind: StorageKind,
+  id: string,
+  area: StorageArea,
+  dryRun: boolean
+): Promise<{ count: number; replaced: boolean } | null> {
+  const entity = await source.read(kind, id, area);
+  if (!entity) {
+    return null;
+  }
+
+  const revisions = kind === 'cv'
+    ? (await source.readRevisionRecords(id, area)).map(record => JSON.parse(record).version as number)
+    : [];
+  const replaced = await target.exists(kind, id, area);
+  if (dryRun) {
+    return { count: revisions.length, replaced };
+  }
+
+  if (replaced) {
+    await target.remove(kind, id, area);
+  }
+  await target.write(kind, id, { content: entity.content, meta: entity.meta }, area);
+
+  if (area === 'archive') {
+    const tombstone = await source.readTombstone(kind, id);
+    if (tombstone !== null) {
+      await target.writeTombstone(kind, id, tombstone);
+    }
+  }
+
+  for (const version of revisions) {
+    const revision = await source.readRevision(id, version, area);
+    if (revision) {
+      await target.writeRevision(id, version, revision, area);
+    }
+  }
+
+  return { count: revisions.length, replaced };
+}
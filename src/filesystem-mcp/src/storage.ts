@@ -0,0 +1,98 @@
+/**
+ * Storage backend interface for CVs, jobs, matrices and applications.
+ *
+ * FilesystemMCP only talks to entities through this interface; the tool
+ * contracts do not depend on where the data lives. Two implementations exist:
+ * - 'fs' (default): the data/ directory layout described in doc/filesystem-mcp.md
+ * - 'sqlite': a single embedded database file, data/cv-store.sqlite
+ *
+ * Backends store documents as raw text (CV markdown, JSON for everything else)
+ * and never parse them, so a corrupt record surfaces exactly where the caller
+ * parses it. Locking is the caller's job (see entity-locks.ts); backends only
+ * guarantee that each write is atomic.
+ */
+
+import path from 'path';
+import { FsStorage } from './fs-storage.js';
+import { SqliteStorage, SQLITE_FILE_NAME } from './sqlite-storage.js';
+
+export type StorageKind = 'cv' | 'job' | 'matrix' | 'application';
+
+// 'archive' holds entities moved aside by archive_* together with their tombstone
+export type StorageArea = 'active' | 'archive';
+
+export type StorageBackendType = 'fs' | 'sqlite';
+
+export const STORAGE_BACKEND_TYPES: StorageBackendType[] = ['fs', 'sqlite'];
+
+export interface StoredEntity {
+  content: string; // CV markdown, or the JSON document of any other kind
+  meta: string | null; // CV metadata JSON; always null for other kinds
+}
+
+export interface EntityWrite {
+  content: string;
+  meta?: string | null; // undefined keeps the current CV metadata, null removes it
+}
+
+export interface StoredRevision {
+  content: string;
+  record: string; // JSON revision record (version, storedAt, size, metadata, ...)
+}
+
+export interface StorageBackend {
+  readonly type: StorageBackendType;
+  readonly location: string; // Path of the data relative to the project root, for logs and reports
+
+  list(kind: StorageKind, area?: StorageArea): Promise<string[]>;
+
+  /**
+   * A token per entity that changes whenever the entity, its metadata or (in
+   * the archive) its tombstone changes. Used to cache listing summaries.
+   */
+  changeTokens(kind: StorageKind, area?: StorageArea): Promise<Map<string, string>>;
+
+  exists(kind: StorageKind, id: string, area?: StorageArea): Promise<boolean>;
+  read(kind: StorageKind, id: string, area?: StorageArea): Promise<StoredEntity | null>;
+  write(kind: StorageKind, id: string, entity: EntityWrite, area?: StorageArea): Promise<void>;
+
+  // Removes the entity and, for CVs, its revisions. Returns false if it did not exist.
+  remove(kind: StorageKind, id: string, area?: StorageArea): Promise<boolean>;
+
+  // Moves an active entity (and CV revisions) to the archive, replacing an older archived copy
+  archive(kind: StorageKind, id: string, tombstone: string): Promise<void>;
+  readTombstone(kind: StorageKind, id: string): Promise<string | null>;
+  writeTombstone(kind: StorageKind, id: string, tombstone: string): Promise<void>;
+
+  // Renames an active CV together with its revisions, replacing `newId` if it exists
+  rename(kind: 'cv', id: string, newId: string): Promise<void>;
+
+  writeRevision(cvId: string, version: number, revision: StoredRevision, area?: StorageArea): Promise<void>;
+  readRevision(cvId: string, version: number, area?: StorageArea): Promise<StoredRevision | null>;
+  readRevisionRecords(cvId: string, area?: StorageArea): Promise<string[]>;
+
+  close(): Promise<void>;
+}
+
+export interface StorageOpenOptions {
+  readOnly?: boolean; // Create nothing, e.g. for the target of a dry-run migration; writes fail
+}
+
+/**
+ * Opens the backend of the given type for a project's data/ directory.
+ */
+export function createStorageBackend(
+  type: StorageBackendType,
+  dataDir: string,
+  projectRoot: string,
+  options: StorageOpenOptions = {}
+): StorageBackend {
+  switch (type) {
+    case 'fs':
+      return new FsStorage(dataDir, projectRoot);
+    case 'sqlite':
+      return new SqliteStorage(path.join(dataDir, SQLITE_FILE_NAME), projectRoot, options);
+    default:
+      throw new Error(`Unknown storage backend "${type}". Expected one of: ${STORAGE_BACKEND_TYPES.join(', ')}`);
+  }
+}
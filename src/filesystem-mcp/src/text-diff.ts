@@ -0,0 +1,100 @@
+export interface DiffLine {
+  op: 'equal' | 'add' | 'remove';
+  text: string;
+  oldLine?: number; // 1-based line number in the old text
+  newLine?: number; // 1-based line number in the new text
+}
+
+export interface LineDiff {
+  lines: DiffLine[];
+  stats: {
+    added: number;
+    removed: number;
+    unchanged: number;
+  };
+}
+
+/**
+ * Line-based diff of two texts using a longest-common-subsequence table.
+ *
+ * CVs are a few hundred lines at most, so the O(n*m) table is cheap and keeps
+ * the output stable and easy to read (removals are listed before additions
+ * within each changed block).
+ *
+ * @param oldText - Text of the earlier version
+ * @param newText - Text of the later version
+ * @returns Every line tagged as equal/add/remove plus summary counts
+ */
+export function diffLines(oldText: string, newText: string): LineDiff {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ op: 'equal', text: a[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ op: 'remove', text: a[i], oldLine: i + 1 });
+      i++;
+    } else {
+      lines.push({ op: 'add', text: b[j], newLine: j + 1 });
+      j++;
+    }
+  }
+  for (; i < a.length; i++) {
+    lines.push({ op: 'remove', text: a[i], oldLine: i + 1 });
+  }
+  for (; j < b.length; j++) {
+    lines.push({ op: 'add', text: b[j], newLine: j + 1 });
+  }
+
+  return {
+    lines,
+    stats: {
+      added: lines.filter(l => l.op === 'add').length,
+      removed: lines.filter(l => l.op === 'remove').length,
+      unchanged: lines.filter(l => l.op === 'equal').length,
+    },
+  };
+}
+
+/**
+ * Renders a diff in the familiar "+ / - / space" prefix format, dropping
+ * unchanged lines that are further than `context` lines from any change.
+ */
+export function formatDiff(diff: LineDiff, context: number = 3): string {
+  const changed = diff.lines.map(l => l.op !== 'equal');
+  const output: string[] = [];
+  let skipped = false;
+
+  diff.lines.forEach((line, index) => {
+    const nearChange = changed
+      .slice(Math.max(0, index - context), index + context + 1)
+      .some(Boolean);
+
+    if (line.op !== 'equal' || nearChange) {
+      const prefix = line.op === 'add' ? '+' : line.op === 'remove' ? '-' : ' ';
+      output.push(`${prefix} ${line.text}`);
+      skipped = false;
+    } else if (!skipped) {
+      output.push('...');
+      skipped = true;
+    }
+  });
+
+  return output.join('\n');
+}
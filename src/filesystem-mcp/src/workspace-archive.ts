@@ -0,0 +1,149 @@
+import fs from 'fs-extra';
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { promisify } from 'util';
+import { writeFileAtomic } from './atomic-write.js';
+
+/**
+ * Portable snapshot of data/cvs, data/jobs, data/matrices and data/applications.
+ *
+ * An archive is a single gzip-compressed JSON document: a manifest listing
+ * every entity with the SHA-256 and size of each of its files, plus the file
+ * contents keyed by their path relative to data/. The manifest also records
+ * the entity schema versions the data was written with, so an older server
+ * can refuse an archive it does not understand.
+ */
+
+export const ARCHIVE_FORMAT = 'cv-workspace-archive';
+export const ARCHIVE_FORMAT_VERSION = 1;
+export const ARCHIVE_EXTENSION = '.json.gz';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+export type ArchiveEntityKind = 'cv' | 'job' | 'matrix' | 'application';
+
+export interface ArchiveFileEntry {
+  path: string; // Relative to data/, e.g. 'cvs/tech-lead.md'
+  size: number;
+  sha256: string;
+}
+
+export interface ArchiveEntity {
+  kind: ArchiveEntityKind;
+  id: string;
+  files: ArchiveFileEntry[];
+}
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  formatVersion: number;
+  createdAt: string;
+  createdBy: { service: string; version: string };
+  schemaVersions: Record<string, number>;
+  counts: Record<ArchiveEntityKind, number>;
+  entities: ArchiveEntity[];
+}
+
+export interface WorkspaceArchive {
+  manifest: ArchiveManifest;
+  files: Record<string, string>;
+}
+
+export interface ArchiveSource {
+  kind: ArchiveEntityKind;
+  id: string;
+  files: Array<{ path: string; content: string }>;
+}
+
+export function sha256(content: string): string {
+  return crypto.createHash('sha256').update(content, 'utf-8').digest('hex');
+}
+
+export function buildArchive(
+  sources: ArchiveSource[],
+  createdBy: ArchiveManifest['createdBy'],
+  schemaVersions: Record<string, number>
+): WorkspaceArchive {
+  const files: Record<string, string> = {};
+  const entities: ArchiveEntity[] = sources.map(source => ({
+    kind: source.kind,
+    id: source.id,
+    files: source.files.map(file => {
+      files[file.path] = file.content;
+      return { path: file.path, size: Buffer.byteLength(file.content, 'utf-8'), sha256: sha256(file.content) };
+    }),
+  }));
+
+  return {
+    manifest: {
+      format: ARCHIVE_FORMAT,
+      formatVersion: ARCHIVE_FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      createdBy,
+      schemaVersions,
+      counts: {
+        cv: entities.filter(e => e.kind === 'cv').length,
+        job: entities.filter(e => e.kind === 'job').length,
+        matrix: entities.filter(e => e.kind === 'matrix').length,
+        application: entities.filter(e => e.kind === 'application').length,
+      },
+      entities,
+    },
+    files,
+  };
+}
+
+/**
+ * Writes the archive and returns the size and SHA-256 of the compressed file.
+ */
+export async function writeArchive(archivePath: string, archive: WorkspaceArchive): Promise<{ size: number; sha256: string }> {
+  const compressed = await gzip(Buffer.from(JSON.stringify(archive), 'utf-8'));
+  await writeFileAtomic(archivePath, compressed);
+  return {
+    size: compressed.length,
+    sha256: crypto.createHash('sha256').update(compressed).digest('hex'),
+  };
+}
+
+/**
+ * Reads an archive and verifies its format and every file checksum.
+ * Throws on the first problem; a damaged archive is never partially trusted.
+ *
+ * @param schemaVersions - Current entity schema versions; archives written with a newer one are rejected
+ */
+export async function readArchive(archivePath: string, schemaVersions: Record<string, number>): Promise<WorkspaceArchive> {
+  let archive: WorkspaceArchive;
+  try {
+    archive = JSON.parse((await gunzip(await fs.readFile(archivePath))).toString('utf-8'));
+  } catch (error) {
+    throw new Error(`Not a readable workspace archive: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const manifest = archive?.manifest;
+  if (manifest?.format !== ARCHIVE_FORMAT || !Array.isArray(manifest.entities) || typeof archive.files !== 'object') {
+    throw new Error('Not a workspace archive (missing manifest)');
+  }
+  if (manifest.formatVersion > ARCHIVE_FORMAT_VERSION) {
+    throw new Error(`Archive format v${manifest.formatVersion} is newer than supported v${ARCHIVE_FORMAT_VERSION}`);
+  }
+  for (const [entityType, version] of Object.entries(manifest.schemaVersions ?? {})) {
+    if (schemaVersions[entityType] !== undefined && version > schemaVersions[entityType]) {
+      throw new Error(`Archive ${entityType} schema v${version} is newer than supported v${schemaVersions[entityType]}`);
+    }
+  }
+
+  for (const entity of manifest.entities) {
+    for (const file of entity.files) {
+      const content = archive.files[file.path];
+      if (typeof content !== 'string') {
+        throw new Error(`Archive is missing file: ${file.path}`);
+      }
+      if (sha256(content) !== file.sha256) {
+        throw new Error(`Checksum mismatch for ${file.path}`);
+      }
+    }
+  }
+
+  return archive;
+}
@@ -0,0 +1,37 @@
+/**
+ * A minimal runner for the self-contained checks in test/: each test file
+ * registers named checks with inline fixtures, and they run once all
+ * imported files have registered theirs. A file runs on its own
+ * (`npx tsx test/test-entity-id.ts`) or with all others through
+ * run-checks.ts (`npm test`). Failures set a non-zero exit code.
+ */
+
+type CheckFn = () => void | Promise<void>;
+
+const checks: Array<{ name: string; fn: CheckFn }> = [];
+let scheduled = false;
+
+export function check(name: string, fn: CheckFn): void {
+  checks.push({ name, fn });
+  if (!scheduled) {
+    scheduled = true;
+    setImmediate(() => void runChecks());
+  }
+}
+
+async function runChecks(): Promise<void> {
+  let failed = 0;
+
+  for (const { name, fn } of checks) {
+    try {
+      await fn();
+      console.log(`  ✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`  ❌ ${name}\n     ${error instanceof Error ? error.message.replace(/\n/g, '\n     ') : String(error)}`);
+    }
+  }
+
+  console.log(`\n${checks.length - failed}/${checks.length} checks passed`);
+  if (failed > 0) process.exitCode = 1;
+}
@@ -0,0 +1,58 @@
+import assert from 'assert/strict';
+import { spawn } from 'child_process';
+import { mkdirSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const SERVER_DIR = path.join(__dirname, '..');
+
+export interface ToolResult {
+  text: string;
+  isError: boolean;
+  json: () => any;
+}
+
+/**
+ * Calls one tool on a fresh server over stdio, with CV_PROJECT_ROOT at
+ * `projectRoot`. Calls run in separate processes, so concurrent calls
+ * contend for the same entity locks as separate clients would.
+ */
+export function callTool(projectRoot: string, name: string, args: any, env: NodeJS.ProcessEnv = {}): Promise<ToolResult> {
+  const request = { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } };
+
+  return new Promise((resolve, reject) => {
+    const server = spawn('npx', ['tsx', 'src/index.ts'], {
+      cwd: SERVER_DIR,
+      env: { ...process.env, CV_PROJECT_ROOT: projectRoot, ...env },
+    });
+    let stdout = '';
+    let stderr = '';
+    const timer = setTimeout(() => server.kill(), 60_000);
+    server.stdout.on('data', chunk => { stdout += chunk; });
+    server.stderr.on('data', chunk => { stderr += chunk; });
+    server.on('error', reject);
+    server.on('close', () => {
+      clearTimeout(timer);
+      try {
+        const response = stdout.split('\n').filter(Boolean).map(line => JSON.parse(line)).find(message => message.id === 1);
+        assert.ok(response?.result, `no result from ${name}: ${stdout}${stderr}`);
+        const text: string = response.result.content[0].text;
+        resolve({ text, isError: response.result.isError === true, json: () => JSON.parse(text) });
+      } catch (error) {
+        reject(error);
+      }
+    });
+    server.stdin.end(`${JSON.stringify(request)}\n`);
+  });
+}
+
+// Runs `fn` in a fresh project root with an empty data/ directory, removed afterwards
+export async function withProjectRoot<T>(fn: (projectRoot: string) => Promise<T>): Promise<T> {
+  const projectRoot = mkdtempSync(path.join(tmpdir(), 'filesystem-mcp-'));
+  try {
+    mkdirSync(path.join(projectRoot, 'data'));
+    return await fn(projectRoot);
+  } finally {
+    rmSync(projectRoot, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+
+// Runs every self-contained check; test-mcp.sh sends the request files in requests/ to a running project and is run separately
+import './test-entity-id.js';
+import './test-entity-locks.js';
+import './test-workspace-archive.js';
+import './test-storage-migration.js';
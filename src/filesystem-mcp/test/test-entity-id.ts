@@ -0,0 +1,46 @@
+import assert from 'assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { check } from './check.js';
+import { EntityIdError, assertSafeEntityId, slugifyEntityId } from '../src/entity-id.js';
+
+function reason(value: unknown): string | null {
+  try {
+    assertSafeEntityId(value, 'filename', { reservedSuffixes: ['.meta.json'] });
+    return null;
+  } catch (error) {
+    assert.ok(error instanceof EntityIdError);
+    return error.reason;
+  }
+}
+
+check('slugs and names stored before IDs were validated are accepted', () => {
+  for (const id of ['head-of-engineering-berlin.md', 'job_123', 'Lebenslauf Müller (2024).md', 'CV Jane Doe.md']) {
+    assert.equal(reason(id), null, id);
+  }
+});
+
+check('traversal, separators, control characters and unportable names are rejected', () => {
+  assert.equal(reason('../../conf/x'), 'must not contain path separators');
+  assert.equal(reason('..'), 'must not contain ".."');
+  assert.equal(reason('/etc/passwd'), 'must not be an absolute path');
+  assert.equal(reason('C:evil'), 'must not be an absolute path');
+  assert.equal(reason('cv\u0000.md'), 'must not contain control characters');
+  assert.equal(reason('.hidden'), 'must not start with "."');
+  assert.equal(reason(' cv.md'), 'must not start or end with whitespace');
+  assert.equal(reason('what?.md'), 'must not contain any of < > : " | ? *');
+  assert.equal(reason('cv.md.meta.json'), 'must not end with reserved suffix ".meta.json"');
+  assert.equal(reason(''), 'must be a non-empty string');
+});
+
+check('a rejection suggests the canonical slug', () => {
+  assert.throws(() => assertSafeEntityId('../Head of Engineering (Berlin).md', 'filename'),
+    (error: EntityIdError) => error.suggestion === 'head-of-engineering-berlin.md');
+  assert.equal(slugifyEntityId('Head of Engineering @ Müller & Söhne GmbH (Berlin)'), 'head-of-engineering-muller-sohne-gmbh-berlin');
+});
+
+check('the entity ID and lock modules match the shared copies in src/common', () => {
+  for (const file of ['entity-id.ts', 'entity-locks.ts']) {
+    assert.equal(readFileSync(path.join(__dirname, '../src', file), 'utf-8'), readFileSync(path.join(__dirname, '../../common', file), 'utf-8'), file);
+  }
+});
@@ -0,0 +1,82 @@
+import assert from 'assert/strict';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { check } from './check.js';
+import { callTool, withProjectRoot } from './mcp-client.js';
+import { EntityLocks } from '../src/entity-locks.js';
+
+async function withLockDir(fn: (lockDir: string) => Promise<void>): Promise<void> {
+  const dir = mkdtempSync(path.join(tmpdir(), 'entity-locks-'));
+  try {
+    await fn(path.join(dir, 'locks'));
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+check('callers locking the same entity run one after the other', () => withLockDir(async lockDir => {
+  const locks = new EntityLocks(lockDir);
+  const events: string[] = [];
+  const task = (name: string) => locks.withLocks(['job/job-1'], async () => {
+    events.push(`${name} start`);
+    await sleep(20);
+    events.push(`${name} end`);
+  });
+
+  await Promise.all([task('a'), task('b'), task('c')]);
+  assert.deepEqual(events, ['a start', 'a end', 'b start', 'b end', 'c start', 'c end']);
+  assert.ok(!existsSync(path.join(lockDir, 'job--job-1.lock')));
+}));
+
+check('overlapping lock sets taken in different orders do not deadlock', () => withLockDir(async lockDir => {
+  const locks = new EntityLocks(lockDir);
+  const results = await Promise.all([
+    locks.withLocks(['job/a', 'matrix/b'], async () => { await sleep(10); return 1; }),
+    locks.withLocks(['matrix/b', 'job/a'], async () => { await sleep(10); return 2; }),
+  ]);
+  assert.deepEqual(results, [1, 2]);
+}));
+
+check('a lock file held by another process is waited for', () => withLockDir(async lockDir => {
+  mkdirSync(lockDir, { recursive: true });
+  const lockFile = path.join(lockDir, 'cv--cv.md.lock');
+  writeFileSync(lockFile, JSON.stringify({ pid: 0, acquiredAt: new Date().toISOString() }));
+  setTimeout(() => rmSync(lockFile), 300);
+
+  const startedAt = Date.now();
+  await new EntityLocks(lockDir).withLocks(['cv/cv.md'], async () => {
+    assert.ok(existsSync(lockFile), 'the lock is held while fn runs');
+  });
+  assert.ok(Date.now() - startedAt >= 250, `acquired after ${Date.now() - startedAt}ms`);
+  assert.ok(!existsSync(lockFile));
+}));
+
+check('a stale lock file of a crashed process is taken over', () => withLockDir(async lockDir => {
+  mkdirSync(lockDir, { recursive: true });
+  const lockFile = path.join(lockDir, 'cv--cv.md.lock');
+  writeFileSync(lockFile, JSON.stringify({ pid: 0, acquiredAt: '2025-01-01T00:00:00.000Z' }));
+  const fiveMinutesAgo = new Date(Date.now() - 5 * 60_000);
+  utimesSync(lockFile, fiveMinutesAgo, fiveMinutesAgo);
+
+  const startedAt = Date.now();
+  await new EntityLocks(lockDir).withLocks(['cv/cv.md'], async () => undefined);
+  assert.ok(Date.now() - startedAt < 1000);
+  assert.ok(!existsSync(lockFile));
+}));
+
+check('concurrent store_cv calls from separate processes each get their own revision', () => withProjectRoot(async projectRoot => {
+  const results = await Promise.all(['one', 'two', 'three'].map(word =>
+    callTool(projectRoot, 'store_cv', { filename: 'cv.md', content: `# CV ${word}` })));
+  const versions = results.map(result => Number(/\(version (\d+)\)/.exec(result.text)?.[1])).sort();
+  assert.deepEqual(versions, [1, 2, 3]);
+
+  const history = (await callTool(projectRoot, 'list_cv_versions', { filename: 'cv.md' })).json();
+  assert.equal(history.currentVersion, 3);
+  const latest = (await callTool(projectRoot, 'load_cv', { filename: 'cv.md', version: 3 })).text;
+  const current = (await callTool(projectRoot, 'load_cv', { filename: 'cv.md' })).text;
+  assert.ok(latest.includes(current.match(/# CV \w+/)![0]), 'the current CV is the latest revision');
+  assert.deepEqual(results.map(result => result.isError), [false, false, false]);
+}));
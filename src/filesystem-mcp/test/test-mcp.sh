@@ -70,9 +70,155 @@ send_mcp_request "load-cv.json" "Load CV"
 echo -e "\n=== Test 9: Load CV matrix ==="
 send_mcp_request "load-matrix.json" "Load Matrix"
 
+# Test 10: Store several jobs in one call
+echo -e "\n=== Test 10: Store jobs batch ==="
+send_mcp_request "store-jobs-batch.json" "Store Jobs Batch"
+
+# Test 11: Load several jobs in one call (includes one missing ID)
+echo -e "\n=== Test 11: Load jobs batch ==="
+send_mcp_request "load-jobs-batch.json" "Load Jobs Batch"
+
+# Test 12: Load several CVs in one call (includes one missing filename)
+echo -e "\n=== Test 12: Load CVs batch ==="
+send_mcp_request "load-cvs-batch.json" "Load CVs Batch"
+
+# Test 13: Store a second revision of the test CV
+echo -e "\n=== Test 13: Store CV revision ==="
+send_mcp_request "store-cv-v2.json" "Store CV Revision"
+
+# Test 14: List CV revisions
+echo -e "\n=== Test 14: List CV versions ==="
+send_mcp_request "list-cv-versions.json" "List CV Versions"
+
+# Test 15: Diff the two revisions
+echo -e "\n=== Test 15: Diff CV versions ==="
+send_mcp_request "diff-cv-versions.json" "Diff CV Versions"
+
+# Test 16: Roll back to the first revision
+echo -e "\n=== Test 16: Restore CV version ==="
+send_mcp_request "restore-cv-version.json" "Restore CV Version"
+
+# Test 17: Archive a job with a tombstone record
+echo -e "\n=== Test 17: Archive job ==="
+send_mcp_request "archive-job.json" "Archive Job"
+
+# Test 18: List jobs including archived ones
+echo -e "\n=== Test 18: List jobs including archived ==="
+send_mcp_request "list-jobs-archived.json" "List Jobs Archived"
+
+# Test 19: Delete a job
+echo -e "\n=== Test 19: Delete job ==="
+send_mcp_request "delete-job.json" "Delete Job"
+
+# Test 20: Rename a CV (moves metadata and relinks CV matrices)
+echo -e "\n=== Test 20: Rename CV ==="
+send_mcp_request "rename-cv.json" "Rename CV"
+
+# Test 21: A path-traversal job ID must be rejected with a structured error
+echo -e "\n=== Test 21: Reject unsafe job ID ==="
+send_mcp_request "store-job-invalid-id.json" "Reject Unsafe ID"
+
+# Test 22: Canonical slug for a free-text ID
+echo -e "\n=== Test 22: Slugify ID ==="
+send_mcp_request "slugify-id.json" "Slugify ID"
+
+# Test 23: A job missing required fields must be rejected with field-level errors
+echo -e "\n=== Test 23: Reject invalid job data ==="
+send_mcp_request "store-job-invalid.json" "Reject Invalid Job"
+
+# Test 24: Check every stored entity against the current schemas
+echo -e "\n=== Test 24: Validate store ==="
+send_mcp_request "validate-store.json" "Validate Store"
+
+# Test 25: Ranked, faceted job search
+echo -e "\n=== Test 25: Search jobs ==="
+send_mcp_request "search-jobs.json" "Search Jobs"
+
+# Test 26: CV search filtered by tag
+echo -e "\n=== Test 26: Search CVs ==="
+send_mcp_request "search-cvs.json" "Search CVs"
+
+# Test 27: First page of jobs sorted by company with a field projection
+echo -e "\n=== Test 27: List jobs (paged) ==="
+send_mcp_request "list-jobs-paged.json" "List Jobs Paged"
+
+# Test 28: CVs filtered by matrix link and optimization score
+echo -e "\n=== Test 28: List CVs (filtered) ==="
+send_mcp_request "list-cvs-filtered.json" "List CVs Filtered"
+
+# Test 29: Report dangling matrixId/targetJobs/entityId links
+echo -e "\n=== Test 29: Check integrity ==="
+send_mcp_request "check-integrity.json" "Check Integrity"
+
+# Test 30: A matrix for a missing job must be rejected when strictLinks is set
+echo -e "\n=== Test 30: Reject dangling matrix link ==="
+send_mcp_request "store-matrix-strict.json" "Reject Dangling Link"
+
+# Test 31: Snapshot the workspace into data/exports/
+echo -e "\n=== Test 31: Export workspace ==="
+send_mcp_request "export-workspace.json" "Export Workspace"
+
+# Test 32: Dry-run import of the snapshot (everything should be unchanged)
+echo -e "\n=== Test 32: Import workspace (dry run) ==="
+send_mcp_request "import-workspace-dry-run.json" "Import Workspace Dry Run"
+
+# Test 33: Dry-run copy of the filesystem store into SQLite (nothing is written)
+echo -e "\n=== Test 33: Migrate storage (dry run) ==="
+send_mcp_request "migrate-storage-dry-run.json" "Migrate Storage Dry Run"
+
+# Test 34: CVs, jobs and matrices published as cv://, job:// and matrix:// resources
+echo -e "\n=== Test 34: List resources ==="
+send_mcp_request "list-resources.json" "List Resources"
+
+# Test 35: Read a job through its resource URI
+echo -e "\n=== Test 35: Read resource ==="
+send_mcp_request "read-resource.json" "Read Resource"
+
+# Test 36: Record that the tech lead CV was sent to job-123
+echo -e "\n=== Test 36: Create application ==="
+send_mcp_request "create-application.json" "Create Application"
+
+# Test 37: Open applications with their event log
+echo -e "\n=== Test 37: List applications ==="
+send_mcp_request "list-applications.json" "List Applications"
+
+# Test 38: A lock file left behind by a crashed process is taken over and removed
+echo -e "\n=== Test 38: Store job over a stale lock ==="
+LOCK_FILE="$PROJECT_ROOT/var/locks/job--job-123.lock"
+mkdir -p "$(dirname "$LOCK_FILE")"
+echo '{"pid":0,"acquiredAt":"2025-01-01T00:00:00.000Z"}' > "$LOCK_FILE"
+touch -d '5 minutes ago' "$LOCK_FILE"
+send_mcp_request "store-job-stale-lock.json" "Store Job Stale Lock"
+if [ -e "$LOCK_FILE" ]; then echo "FAIL: stale lock file was left in place"; else echo "OK: stale lock file removed"; fi
+
+# Test 39: A lock held by another process makes the store wait until it is released
+echo -e "\n=== Test 39: Store job under lock contention ==="
+echo "{\"pid\":$$,\"acquiredAt\":\"$(date -u +%Y-%m-%dT%H:%M:%S.000Z)\"}" > "$LOCK_FILE"
+(sleep 3; rm -f "$LOCK_FILE") &
+RELEASER=$!
+STARTED_AT=$(date +%s)
+send_mcp_request "store-job-locked.json" "Store Job Locked"
+wait "$RELEASER"
+echo "Store returned after $(( $(date +%s) - STARTED_AT ))s (the lock was released after 3s)"
+if [ -e "$LOCK_FILE" ]; then echo "FAIL: lock file was left in place"; else echo "OK: lock file removed"; fi
+
+# Test 40: Importing a CV whose archive has no metadata sidecar removes the local metadata
+echo -e "\n=== Test 40: Import CV without metadata over local metadata ==="
+send_mcp_request "store-cv-plain.json" "Store Plain CV"
+send_mcp_request "export-workspace-plain.json" "Export Workspace With Plain CV"
+send_mcp_request "store-cv-plain-meta.json" "Store Plain CV With Metadata"
+send_mcp_request "import-workspace-overwrite.json" "Import Workspace Overwrite"
+send_mcp_request "load-cv-plain.json" "Load Plain CV"
+META_FILE="$PROJECT_ROOT/data/cvs/test-cv-plain.md.meta.json"
+if [ -e "$META_FILE" ]; then echo "FAIL: stale metadata was kept"; else echo "OK: metadata removed"; fi
+
 echo -e "\n=== All tests completed ==="
 echo "Check the data/ directory for stored files:"
 echo "- data/cvs/ for CV files"
 echo "- data/jobs/ for job files" 
 echo "- data/matrices/ for matrix files"
-echo "- var/ for logs"
\ No newline at end of file
+echo "- data/applications/ for application records"
+echo "- data/versions/ for CV revision history"
+echo "- data/archive/ for archived entities and tombstones"
+echo "- data/exports/ for workspace archives"
+echo "- var/ for logs, entity locks and the search index"
\ No newline at end of file
@@ -0,0 +1,61 @@
+import assert from 'assert/strict';
+import { existsSync } from 'fs';
+import path from 'path';
+import { check } from './check.js';
+import { callTool, withProjectRoot } from './mcp-client.js';
+
+const SQLITE = { CV_STORAGE_BACKEND: 'sqlite' };
+
+const JOB = {
+  title: 'Platform Engineer',
+  company: 'TechCorp Inc',
+  description: 'Run the Kubernetes platform',
+  requirements: ['Kubernetes'],
+};
+
+// Two CV revisions with metadata, an active job and an archived job, stored in the fs backend
+async function seed(projectRoot: string): Promise<void> {
+  await callTool(projectRoot, 'store_cv', { filename: 'cv.md', content: '# CV v1', metadata: { tags: ['first'] } });
+  await callTool(projectRoot, 'store_cv', { filename: 'cv.md', content: '# CV v2', metadata: { tags: ['second'] } });
+  await callTool(projectRoot, 'store_job', { jobId: 'job-1', data: JOB });
+  await callTool(projectRoot, 'store_job', { jobId: 'job-2', data: { ...JOB, title: 'SRE' } });
+  await callTool(projectRoot, 'archive_job', { jobId: 'job-2', reason: 'Posting closed' });
+}
+
+check('a dry-run migration reports the counts and creates no SQLite file', () => withProjectRoot(async projectRoot => {
+  await seed(projectRoot);
+  const report = (await callTool(projectRoot, 'migrate_storage', { from: 'fs', to: 'sqlite', dryRun: true })).json();
+  assert.deepEqual(report.counts.cv, { active: 1, archived: 0, revisions: 2 });
+  assert.deepEqual(report.counts.job, { active: 1, archived: 1, revisions: 0 });
+  assert.deepEqual(report.errors, []);
+  assert.ok(!existsSync(path.join(projectRoot, 'data', 'cv-store.sqlite')));
+}));
+
+check('entities migrated to SQLite and back match the originals', () => withProjectRoot(async projectRoot => {
+  await seed(projectRoot);
+  const before = {
+    cv: (await callTool(projectRoot, 'load_cv', { filename: 'cv.md' })).json(),
+    firstRevision: (await callTool(projectRoot, 'load_cv', { filename: 'cv.md', version: 1 })).json(),
+    job: (await callTool(projectRoot, 'load_job', { jobId: 'job-1' })).json(),
+  };
+
+  const toSqlite = (await callTool(projectRoot, 'migrate_storage', { from: 'fs', to: 'sqlite' })).json();
+  assert.deepEqual(toSqlite.errors, []);
+  assert.ok(existsSync(path.join(projectRoot, 'data', 'cv-store.sqlite')));
+
+  assert.deepEqual((await callTool(projectRoot, 'load_cv', { filename: 'cv.md' }, SQLITE)).json(), before.cv);
+  assert.deepEqual((await callTool(projectRoot, 'load_cv', { filename: 'cv.md', version: 1 }, SQLITE)).json(), before.firstRevision);
+  assert.deepEqual((await callTool(projectRoot, 'load_job', { jobId: 'job-1' }, SQLITE)).json(), before.job);
+  const archived = (await callTool(projectRoot, 'list_jobs', { includeArchived: true }, SQLITE)).text;
+  assert.ok(archived.includes('job-2'), archived);
+
+  // The fs store still holds everything, so copying back must be asked for explicitly
+  const refused = await callTool(projectRoot, 'migrate_storage', { from: 'sqlite', to: 'fs' }, SQLITE);
+  assert.match(refused.text, /^Error: Target backend "fs" .* already holds/);
+
+  const toFs = (await callTool(projectRoot, 'migrate_storage', { from: 'sqlite', to: 'fs', overwrite: true }, SQLITE)).json();
+  assert.deepEqual(toFs.counts, toSqlite.counts);
+  assert.deepEqual(toFs.replaced.sort(), ['archive/job/job-2', 'cv/cv.md', 'job/job-1']);
+  assert.deepEqual((await callTool(projectRoot, 'load_cv', { filename: 'cv.md' })).json(), before.cv);
+  assert.deepEqual((await callTool(projectRoot, 'load_job', { jobId: 'job-1' })).json(), before.job);
+}));
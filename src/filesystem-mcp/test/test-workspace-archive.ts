@@ -0,0 +1,57 @@
+import assert from 'assert/strict';
+import { copyFileSync, existsSync, mkdirSync } from 'fs';
+import path from 'path';
+import { check } from './check.js';
+import { callTool, withProjectRoot } from './mcp-client.js';
+
+const JOB = {
+  title: 'Platform Engineer',
+  company: 'TechCorp Inc',
+  description: 'Run the Kubernetes platform',
+  requirements: ['Kubernetes', 'Terraform'],
+};
+
+// Exports `filename` from one project root and copies the archive into the other's data/exports/
+async function exportTo(sourceRoot: string, targetRoot: string, filename: string): Promise<void> {
+  const exported = await callTool(sourceRoot, 'export_workspace', { filename });
+  assert.equal(exported.isError, false, exported.text);
+  const targetDir = path.join(targetRoot, 'data', 'exports');
+  mkdirSync(targetDir, { recursive: true });
+  copyFileSync(path.join(sourceRoot, 'data', 'exports', filename), path.join(targetDir, filename));
+}
+
+check('an exported workspace imports into an empty project unchanged', () => withProjectRoot(source => withProjectRoot(async target => {
+  await callTool(source, 'store_cv', { filename: 'cv.md', content: '# CV\n\nKubernetes', metadata: { tags: ['platform'] } });
+  await callTool(source, 'store_job', { jobId: 'job-1', data: JOB });
+  await exportTo(source, target, 'snapshot.json.gz');
+
+  const report = (await callTool(target, 'import_workspace', { filename: 'snapshot.json.gz' })).json();
+  assert.deepEqual(report.added.map((item: any) => `${item.kind}/${item.id}`).sort(), ['cv/cv.md', 'job/job-1']);
+  assert.deepEqual(report.errors, []);
+
+  const [sourceCv, targetCv] = await Promise.all([source, target].map(root => callTool(root, 'load_cv', { filename: 'cv.md' })));
+  assert.equal(targetCv.json().content, sourceCv.json().content);
+  assert.deepEqual(targetCv.json().metadata, sourceCv.json().metadata);
+  const [sourceJob, targetJob] = await Promise.all([source, target].map(root => callTool(root, 'load_job', { jobId: 'job-1' })));
+  assert.deepEqual(targetJob.json(), sourceJob.json());
+
+  const again = (await callTool(target, 'import_workspace', { filename: 'snapshot.json.gz' })).json();
+  assert.deepEqual(again.unchanged.map((item: any) => `${item.kind}/${item.id}`).sort(), ['cv/cv.md', 'job/job-1']);
+})));
+
+check('overwriting with an archived CV that has no metadata removes the local metadata', () => withProjectRoot(source => withProjectRoot(async target => {
+  await callTool(source, 'store_cv', { filename: 'cv.md', content: '# Archived CV' });
+  await exportTo(source, target, 'snapshot.json.gz');
+  await callTool(target, 'store_cv', { filename: 'cv.md', content: '# Local CV', metadata: { tags: ['local'] } });
+
+  const report = (await callTool(target, 'import_workspace', { filename: 'snapshot.json.gz', strategy: 'overwrite' })).json();
+  assert.deepEqual(report.overwritten.map((item: any) => item.id), ['cv.md']);
+
+  const cv = (await callTool(target, 'load_cv', { filename: 'cv.md' })).json();
+  assert.equal(cv.content, '# Archived CV');
+  assert.equal(cv.metadata, null);
+  assert.ok(!existsSync(path.join(target, 'data', 'cvs', 'cv.md.meta.json')));
+
+  const again = (await callTool(target, 'import_workspace', { filename: 'snapshot.json.gz', strategy: 'overwrite' })).json();
+  assert.deepEqual(again.unchanged.map((item: any) => item.id), ['cv.md']);
+})));
@@ -0,0 +1,145 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Reads the application history recorded by filesystem-mcp
+ * (data/applications/, see doc/filesystem-mcp.md) and labels each
+ * application with the outcome calibration learns from:
+ *
+ * - 'interview': the application reached screening, interview or offer
+ *   (a later rejection does not change this)
+ * - 'rejection': rejected without reaching an interview
+ * - 'no_response': still submitted after `noResponseDays`
+ *
+ * Drafted, withdrawn and recently submitted applications carry no outcome
+ * yet and are skipped. The CV is read at the revision that was sent when
+ * that revision is still in data/versions/.
+ */
+
+export type ApplicationOutcome = 'interview' | 'rejection' | 'no_response';
+
+export const DEFAULT_NO_RESPONSE_DAYS = 21;
+
+const INTERVIEW_STATUSES = ['screening', 'interview', 'offer'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface OutcomeRecord {
+  applicationId: string;
+  jobId: string;
+  cvFilename: string;
+  cvVersion: number | null; // Revision the CV content was read from; null for the current file
+  outcome: ApplicationOutcome;
+  jobData: any;
+  cvContent: string;
+}
+
+export interface OutcomeHistory {
+  records: OutcomeRecord[];
+  skipped: Array<{ applicationId: string; reason: string }>;
+}
+
+export async function loadApplicationOutcomes(
+  dataDir: string,
+  noResponseDays: number = DEFAULT_NO_RESPONSE_DAYS,
+  now: Date = new Date()
+): Promise<OutcomeHistory> {
+  const applicationsDir = path.join(dataDir, 'applications');
+  const history: OutcomeHistory = { records: [], skipped: [] };
+
+  let files: string[];
+  try {
+    files = (await fs.readdir(applicationsDir)).filter(f => f.endsWith('.json')).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    throw new Error(`No application history in ${applicationsDir}. Record applications with filesystem-mcp create_application `
+      + '(calibration reads the fs storage backend layout)');
+  }
+
+  for (const file of files) {
+    const applicationId = file.replace(/\.json$/, '');
+    try {
+      const application = JSON.parse(await fs.readFile(path.join(applicationsDir, file), 'utf-8'));
+      const outcome = applicationOutcome(application, noResponseDays, now);
+      if (typeof outcome !== 'string') {
+        history.skipped.push({ applicationId, reason: outcome.reason });
+        continue;
+      }
+      if (!isPlainName(application.jobId) || !isPlainName(application.cvFilename)) {
+        history.skipped.push({ applicationId, reason: 'jobId and cvFilename must be plain file names' });
+        continue;
+      }
+
+      const jobData = await readOptional(path.join(dataDir, 'jobs', `${application.jobId}.json`));
+      if (jobData === null) {
+        history.skipped.push({ applicationId, reason: `job not found: ${application.jobId}` });
+        continue;
+      }
+
+      const cv = await readCvContent(dataDir, application.cvFilename, application.cvVersion);
+      if (cv === null) {
+        history.skipped.push({ applicationId, reason: `CV not found: ${application.cvFilename}` });
+        continue;
+      }
+
+      history.records.push({
+        applicationId,
+        jobId: application.jobId,
+        cvFilename: application.cvFilename,
+        cvVersion: cv.version,
+        outcome,
+        jobData: { ...JSON.parse(jobData), jobId: application.jobId },
+        cvContent: cv.content,
+      });
+    } catch (error) {
+      history.skipped.push({ applicationId, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return history;
+}
+
+function applicationOutcome(application: any, noResponseDays: number, now: Date): ApplicationOutcome | { reason: string } {
+  const statuses = [application.status, ...(application.events ?? []).map((e: any) => e.status)];
+  if (statuses.some(status => INTERVIEW_STATUSES.includes(status))) {
+    return 'interview';
+  }
+
+  switch (application.status) {
+    case 'rejected':
+      return 'rejection';
+    case 'submitted': {
+      const waitedDays = (now.getTime() - Date.parse(application.updatedAt)) / DAY_MS;
+      return waitedDays >= noResponseDays
+        ? 'no_response'
+        : { reason: `awaiting response (submitted ${Math.floor(waitedDays)} of ${noResponseDays} days ago)` };
+    }
+    default:
+      return { reason: `no outcome for status ${application.status}` };
+  }
+}
+
+async function readCvContent(dataDir: string, cvFilename: string, cvVersion: unknown): Promise<{ content: string; version: number | null } | null> {
+  if (typeof cvVersion === 'number') {
+    const revision = await readOptional(path.join(dataDir, 'versions', 'cvs', cvFilename, `${cvVersion}.md`));
+    if (revision !== null) {
+      return { content: revision, version: cvVersion };
+    }
+  }
+
+  const current = await readOptional(path.join(dataDir, 'cvs', cvFilename));
+  return current === null ? null : { content: current, version: null };
+}
+
+// Guards the data/ paths built from hand-editable records
+function isPlainName(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0 && !/[\\/]|^\.\.?$/.test(value);
+}
+
+async function readOptional(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
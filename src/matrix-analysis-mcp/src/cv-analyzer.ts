@@ -1,4 +1,9 @@
 import { JobParameter } from './job-analyzer.js';
+import { SkillTaxonomy, termPattern } from './skill-taxonomy.js';
+import { Language, detectLanguage } from './language.js';
+import { Qualifications, RequirementExtractor } from './requirements.js';
+import { CVTimeline, Role, buildTimeline, hasDateRange, toYears, unionMonths } from './cv-timeline.js';
+import { DEFAULT_RECENCY_DECAY, RecencyDecay, SkillUsage, skillUsage, usageStrength } from './skill-recency.js';
 
 export interface CVParameter {
   name: string;
@@ -6,60 +11,34 @@ export interface CVParameter {
   strength: number; // 0-1, how strong this skill/experience is in the CV
   value: string;
   evidence: string[]; // Supporting evidence from CV
-  yearsOfExperience?: number;
+  yearsOfExperience?: number; // The more of the years stated next to a mention and the months of the roles mentioning it
+  usage?: SkillUsage; // First and last use, years and recency from the roles mentioning it; unset if no role does
 }
 
 export interface CVAnalysis {
   cvId: string;
-  totalExperience: number; // Years
+  totalExperience: number; // Years covered by the roles of the timeline
+  timeline: CVTimeline; // Roles from the experience section, and gaps between them
   parameters: CVParameter[];
   keyStrengths: string[];
+  qualifications: Qualifications; // Years per skill, degrees, certifications, languages; compared with job requirements
   seniorityLevel: 'junior' | 'mid' | 'senior' | 'lead' | 'director' | 'executive';
   currentRole?: string;
   analysisMetadata: {
     analyzedAt: string;
     parameterCount: number;
     strongestCategory: string;
+    language: Language; // Detected language of the CV; skills are also found by their aliases in it
+    recencyDecay: RecencyDecay; // Applied to the strength of skills last used in past roles
   };
 }
 
 export class CVAnalyzer {
-  // Technical skills mapping with strength indicators
-  private readonly technicalSkills = {
-    // Programming Languages
-    'javascript': ['js', 'javascript', 'node.js', 'nodejs'],
-    'typescript': ['typescript', 'ts'],
-    'python': ['python', 'django', 'flask', 'pandas'],
-    'java': ['java', 'spring', 'hibernate'],
-    'golang': ['golang', 'go'],
-    'c#': ['c#', 'csharp', '.net', 'dotnet'],
-    'c++': ['c++', 'cpp'],
-    'php': ['php', 'laravel', 'symfony'],
-    
-    // Cloud & Infrastructure  
-    'aws': ['aws', 'amazon web services', 'ec2', 's3', 'lambda'],
-    'azure': ['azure', 'az', 'azure kubernetes service', 'aks'],
-    'gcp': ['gcp', 'google cloud', 'gke'],
-    'kubernetes': ['kubernetes', 'k8s', 'kubectl'],
-    'docker': ['docker', 'containerization'],
-    'terraform': ['terraform', 'tf', 'infrastructure as code'],
-    'helm': ['helm', 'helm charts'],
-    
-    // Databases
-    'mongodb': ['mongodb', 'mongo', 'mongoose'],
-    'postgresql': ['postgresql', 'postgres', 'psql'],
-    'mysql': ['mysql'],
-    'mssql': ['mssql', 'sql server'],
-    'redis': ['redis'],
-    
-    // DevOps & Tools
-    'gitlab': ['gitlab', 'gitlab ci'],
-    'jenkins': ['jenkins'],
-    'git': ['git', 'version control'],
-    'grafana': ['grafana'],
-    'jira': ['jira'],
-    'confluence': ['confluence']
-  };
+  private readonly requirementExtractor: RequirementExtractor;
+
+  constructor(private readonly taxonomy: SkillTaxonomy) {
+    this.requirementExtractor = new RequirementExtractor(taxonomy);
+  }
 
   private readonly leadershipIndicators = [
     'led', 'managed', 'supervised', 'mentored', 'coached', 'directed',
@@ -68,69 +47,99 @@ export class CVAnalyzer {
     'team lead', 'head of', 'director', 'cto', 'vp'
   ];
 
-  private readonly domainExperience = {
-    'adtech': ['adtech', 'advertising technology', 'programmatic', 'rtb', 'vast', 'vpaid'],
-    'medtech': ['medtech', 'healthcare', 'medical', 'fhir', 'hl7', 'hipaa'],
-    'fintech': ['fintech', 'financial', 'banking', 'payment', 'blockchain'],
-    'ecommerce': ['e-commerce', 'ecommerce', 'retail', 'shopping', 'marketplace']
+  private readonly leadershipTitle = /director|head of|\blead\b|manager|\bcto\b|\bvp\b|chief|leiter|leitung/i;
+
+  // Words around a skill mention that show hands-on work with it
+  private readonly technicalContextIndicators: Record<Language, { strong: string[]; medium: string[] }> = {
+    en: {
+      strong: ['implemented', 'architected', 'built', 'designed', 'led', 'expertise'],
+      medium: ['used', 'worked with', 'experience', 'knowledge']
+    },
+    de: {
+      strong: ['implementiert', 'entwickelt', 'konzipiert', 'aufgebaut', 'entworfen', 'geleitet', 'expertise', 'implemented', 'built', 'designed'],
+      medium: ['eingesetzt', 'genutzt', 'gearbeitet', 'erfahrung', 'kenntnisse', 'used', 'experience']
+    }
   };
 
-  async analyzeCV(cvContent: string): Promise<CVAnalysis> {
+  /**
+   * Technical, domain and leadership skills mentioned in roles of the
+   * timeline get their `usage`, and their strength a bonus for the years of
+   * use and the `recencyDecay` for the time since they were last used.
+   */
+  async analyzeCV(cvContent: string, recencyDecay: RecencyDecay = DEFAULT_RECENCY_DECAY): Promise<CVAnalysis> {
     const parameters: CVParameter[] = [];
+    const language = detectLanguage(cvContent);
+    const now = new Date();
+    const timeline = buildTimeline(this.extractExperienceSection(cvContent) ?? '', now);
+    const usage = (skillId: string) => skillUsage(this.rolesMentioning(timeline, skillId, language), now, recencyDecay);
     
     // Extract technical parameters
-    parameters.push(...this.extractTechnicalParameters(cvContent));
+    parameters.push(...this.extractTechnicalParameters(cvContent, language, usage));
     
     // Extract leadership parameters  
-    parameters.push(...this.extractLeadershipParameters(cvContent));
+    parameters.push(...this.extractLeadershipParameters(cvContent, language, timeline, usage));
     
     // Extract domain parameters
-    parameters.push(...this.extractDomainParameters(cvContent));
+    parameters.push(...this.extractDomainParameters(cvContent, language, usage));
     
     // Extract soft skills
-    parameters.push(...this.extractSoftSkills(cvContent));
+    parameters.push(...this.extractSoftSkills(cvContent, language));
     
     // Extract education parameters
     parameters.push(...this.extractEducation(cvContent));
     
     // Calculate total experience
-    const totalExperience = this.calculateTotalExperience(cvContent);
+    const totalExperience = toYears(timeline.totalMonths);
+    
+    // Get current role
+    const currentRole = this.extractCurrentRole(cvContent, timeline);
     
     // Determine seniority level
-    const seniorityLevel = this.determineSeniorityLevel(cvContent, totalExperience);
+    const seniorityLevel = this.determineSeniorityLevel(currentRole, totalExperience);
     
     // Extract key strengths
     const keyStrengths = this.extractKeyStrengths(parameters);
-    
-    // Get current role
-    const currentRole = this.extractCurrentRole(cvContent);
+
+    // Extract qualifications to compare with typed job requirements
+    const knownYears = Object.fromEntries(parameters
+      .filter(p => ['technical', 'domain', 'leadership'].includes(p.category) && p.yearsOfExperience)
+      .map(p => [p.name, p.yearsOfExperience!]));
+    const qualifications = this.requirementExtractor.fromCV(cvContent, language, knownYears);
 
     return {
       cvId: 'ronald-wertlen-2025', // Default, should be passed in
       totalExperience,
+      timeline,
       parameters: parameters.sort((a, b) => b.strength - a.strength),
       keyStrengths,
+      qualifications,
       seniorityLevel,
       currentRole,
       analysisMetadata: {
         analyzedAt: new Date().toISOString(),
         parameterCount: parameters.length,
-        strongestCategory: this.determineStrongestCategory(parameters)
+        strongestCategory: this.determineStrongestCategory(parameters),
+        language,
+        recencyDecay
       }
     };
   }
 
-  private extractTechnicalParameters(cvContent: string): CVParameter[] {
+  private extractTechnicalParameters(
+    cvContent: string,
+    language: Language,
+    usageOf: (skillId: string) => SkillUsage | undefined
+  ): CVParameter[] {
     const parameters: CVParameter[] = [];
     const lowerContent = cvContent.toLowerCase();
     
-    for (const [skill, variants] of Object.entries(this.technicalSkills)) {
+    for (const skill of this.taxonomy.skills('technical')) {
       const evidence: string[] = [];
       let maxStrength = 0;
       let yearsExperience = 0;
       
-      for (const variant of variants) {
-        const regex = new RegExp(`\\b${variant.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'gi');
+      for (const variant of this.evidencePatterns(skill.id, language)) {
+        const regex = new RegExp(variant, 'giu');
         const matches = lowerContent.match(regex);
         
         if (matches) {
@@ -140,7 +149,7 @@ export class CVAnalyzer {
           
           // Calculate strength based on frequency and context
           const frequency = matches.length;
-          const contextStrength = this.assessTechnicalContext(contexts);
+          const contextStrength = this.assessTechnicalContext(contexts, language);
           const calculatedStrength = Math.min(1.0, (frequency * 0.2) + contextStrength);
           
           maxStrength = Math.max(maxStrength, calculatedStrength);
@@ -152,13 +161,16 @@ export class CVAnalyzer {
       }
       
       if (maxStrength > 0.2) { // Only include if there's significant evidence
+        const usage = usageOf(skill.id);
+        yearsExperience = Math.max(yearsExperience, usage?.years ?? 0);
         parameters.push({
-          name: skill,
+          name: skill.id,
           category: 'technical',
-          strength: maxStrength,
-          value: skill,
+          strength: usageStrength(maxStrength, usage, 1.0),
+          value: skill.id,
           evidence: evidence.slice(0, 3), // Top 3 pieces of evidence
-          yearsOfExperience: yearsExperience || undefined
+          yearsOfExperience: yearsExperience || undefined,
+          ...(usage ? { usage } : {})
         });
       }
     }
@@ -166,7 +178,12 @@ export class CVAnalyzer {
     return parameters;
   }
 
-  private extractLeadershipParameters(cvContent: string): CVParameter[] {
+  private extractLeadershipParameters(
+    cvContent: string,
+    language: Language,
+    timeline: CVTimeline,
+    usageOf: (skillId: string) => SkillUsage | undefined
+  ): CVParameter[] {
     const parameters: CVParameter[] = [];
     const evidence: string[] = [];
     
@@ -175,7 +192,7 @@ export class CVAnalyzer {
       const matches = cvContent.match(regex);
       
       if (matches) {
-        const contexts = this.findContexts(cvContent, indicator, 100);
+        const contexts = this.findContexts(cvContent, termPattern(indicator), 100);
         evidence.push(...contexts);
       }
     }
@@ -183,7 +200,7 @@ export class CVAnalyzer {
     if (evidence.length > 0) {
       // Analyze team sizes mentioned
       const teamSizes = this.extractTeamSizes(cvContent);
-      const leadershipYears = this.extractLeadershipYears(cvContent);
+      const leadershipYears = this.extractLeadershipYears(timeline);
       
       parameters.push({
         name: 'team_leadership',
@@ -206,6 +223,8 @@ export class CVAnalyzer {
       }
     }
     
+    parameters.push(...this.extractTaxonomyTerms(cvContent, 'leadership', 0.4, 1.0, 100, language, usageOf));
+    
     // Check for specific leadership roles
     const seniorRoles = this.extractSeniorRoles(cvContent);
     for (const role of seniorRoles) {
@@ -222,29 +241,49 @@ export class CVAnalyzer {
     return parameters;
   }
 
-  private extractDomainParameters(cvContent: string): CVParameter[] {
+  private extractDomainParameters(cvContent: string, language: Language, usageOf: (skillId: string) => SkillUsage | undefined): CVParameter[] {
+    return this.extractTaxonomyTerms(cvContent, 'domain', 0.2, 1.0, 80, language, usageOf);
+  }
+
+  private extractSoftSkills(cvContent: string, language: Language): CVParameter[] {
+    return this.extractTaxonomyTerms(cvContent, 'soft', 0.15, 0.8, 60, language) // Cap soft skills at 0.8
+      .filter(param => param.strength > 0.2);
+  }
+
+  // Strength grows by `perTerm` for each distinct term of the skill found; with
+  // `usageOf`, it is adjusted for the skill's usage in the timeline's roles
+  private extractTaxonomyTerms(
+    cvContent: string,
+    category: 'leadership' | 'domain' | 'soft',
+    perTerm: number,
+    maxStrength: number,
+    contextLength: number,
+    language: Language,
+    usageOf?: (skillId: string) => SkillUsage | undefined
+  ): CVParameter[] {
     const parameters: CVParameter[] = [];
-    const lowerContent = cvContent.toLowerCase();
     
-    for (const [domain, indicators] of Object.entries(this.domainExperience)) {
+    for (const skill of this.taxonomy.skills(category)) {
       const evidence: string[] = [];
       let strength = 0;
       
-      for (const indicator of indicators) {
-        if (lowerContent.includes(indicator.toLowerCase())) {
-          const contexts = this.findContexts(cvContent, indicator, 80);
+      for (const pattern of this.evidencePatterns(skill.id, language)) {
+        const contexts = this.findContexts(cvContent, pattern, contextLength);
+        if (contexts.length > 0) {
           evidence.push(...contexts);
-          strength += 0.2;
+          strength += perTerm;
         }
       }
       
       if (strength > 0) {
+        const usage = usageOf?.(skill.id);
         parameters.push({
-          name: domain,
-          category: 'domain',
-          strength: Math.min(1.0, strength),
-          value: domain,
-          evidence: evidence.slice(0, 3)
+          name: skill.id,
+          category,
+          strength: usageStrength(Math.min(maxStrength, strength), usage, maxStrength),
+          value: skill.id.replace(/_/g, ' '),
+          evidence: evidence.slice(0, 3),
+          ...(usage ? { yearsOfExperience: usage.years, usage } : {})
         });
       }
     }
@@ -252,41 +291,15 @@ export class CVAnalyzer {
     return parameters;
   }
 
-  private extractSoftSkills(cvContent: string): CVParameter[] {
-    const softSkills = {
-      'communication': ['communication', 'stakeholder', 'collaboration', 'alignment'],
-      'problem_solving': ['problem solving', 'optimization', 'troubleshooting', 'debugging'],
-      'mentoring': ['mentored', 'coaching', 'guided', 'developed'],
-      'agile': ['agile', 'scrum', 'kanban', 'sprint']
-    };
-    
-    const parameters: CVParameter[] = [];
-    const lowerContent = cvContent.toLowerCase();
-    
-    for (const [skill, indicators] of Object.entries(softSkills)) {
-      const evidence: string[] = [];
-      let strength = 0;
-      
-      for (const indicator of indicators) {
-        if (lowerContent.includes(indicator)) {
-          const contexts = this.findContexts(cvContent, indicator, 60);
-          evidence.push(...contexts);
-          strength += 0.15;
-        }
-      }
-      
-      if (strength > 0.2) {
-        parameters.push({
-          name: skill,
-          category: 'soft',
-          strength: Math.min(0.8, strength), // Cap soft skills at 0.8
-          value: skill.replace('_', ' '),
-          evidence: evidence.slice(0, 2)
-        });
-      }
-    }
-    
-    return parameters;
+  // Roles whose heading or description mentions the skill
+  private rolesMentioning(timeline: CVTimeline, skillId: string, language: Language): Role[] {
+    const patterns = this.evidencePatterns(skillId, language).map(pattern => new RegExp(pattern, 'iu'));
+    return timeline.roles.filter(role => patterns.some(pattern => pattern.test(role.text)));
+  }
+
+  // A skill's own patterns plus those of its descendants: Django is evidence of Python
+  private evidencePatterns(skillId: string, language: Language): string[] {
+    return [skillId, ...this.taxonomy.descendants(skillId)].flatMap(id => this.taxonomy.patterns(id, language));
   }
 
   private extractEducation(cvContent: string): CVParameter[] {
@@ -322,33 +335,8 @@ export class CVAnalyzer {
     return parameters;
   }
 
-  private calculateTotalExperience(cvContent: string): number {
-    const experienceSection = this.extractSection(cvContent, 'experience');
-    if (!experienceSection) return 0;
-    
-    // Look for year ranges like "2020 - 2023" or "2020 – present"
-    const yearRanges = experienceSection.match(/(\d{4})\s*[-–]\s*(\d{4}|present)/gi);
-    
-    if (!yearRanges) return 0;
-    
-    const currentYear = new Date().getFullYear();
-    let totalYears = 0;
-    
-    for (const range of yearRanges) {
-      const match = range.match(/(\d{4})\s*[-–]\s*(\d{4}|present)/i);
-      if (match) {
-        const startYear = parseInt(match[1]);
-        const endYear = match[2].toLowerCase() === 'present' ? currentYear : parseInt(match[2]);
-        totalYears += (endYear - startYear);
-      }
-    }
-    
-    return totalYears;
-  }
-
-  private determineSeniorityLevel(cvContent: string, totalExperience: number): CVAnalysis['seniorityLevel'] {
-    const title = this.extractCurrentRole(cvContent) || '';
-    const titleLower = title.toLowerCase();
+  private determineSeniorityLevel(currentRole: string | undefined, totalExperience: number): CVAnalysis['seniorityLevel'] {
+    const titleLower = (currentRole || '').toLowerCase();
     
     // Check title-based seniority
     if (titleLower.includes('cto') || titleLower.includes('vp')) return 'executive';
@@ -371,32 +359,58 @@ export class CVAnalyzer {
       .map(p => p.value);
   }
 
-  private extractCurrentRole(cvContent: string): string | undefined {
-    const experienceSection = this.extractSection(cvContent, 'experience');
+  private extractCurrentRole(cvContent: string, timeline: CVTimeline): string | undefined {
+    // The ongoing role, else the most recent one
+    const role = timeline.roles.find(r => r.current) ?? timeline.roles[0];
+    if (role) return role.title;
+
+    const experienceSection = this.extractExperienceSection(cvContent);
     if (!experienceSection) return undefined;
     
-    // Look for the first role (most recent)
+    // Without dates, take the first role (most recent)
     const roleMatch = experienceSection.match(/^([^|]+)/);
     return roleMatch ? roleMatch[1].trim() : undefined;
   }
 
   // Helper methods
-  private findContexts(content: string, term: string, contextLength: number): string[] {
-    const regex = new RegExp(`(.{0,${contextLength}}\\b${term}\\b.{0,${contextLength}})`, 'gi');
+  // Mentions of a pattern (a regex source, see SkillTaxonomy.patterns) with the text around them
+  private findContexts(content: string, pattern: string, contextLength: number): string[] {
+    const regex = new RegExp(`(.{0,${contextLength}}${pattern}.{0,${contextLength}})`, 'giu');
     const matches = content.match(regex);
     return matches ? matches.map(m => m.trim()) : [];
   }
 
+  private extractExperienceSection(content: string): string | null {
+    return this.extractSection(content, 'experience') ?? this.extractSection(content, 'berufserfahrung');
+  }
+
+  /**
+   * The section under a heading naming `sectionName`, up to the next heading
+   * of a higher level, or of the same level unless that heading or the line
+   * below it has dates: "## Experience" with a "### " heading per role is one
+   * section, and so is "### Experience" followed by "### Backend Developer,
+   * 03/2019 - present".
+   */
   private extractSection(content: string, sectionName: string): string | null {
-    const regex = new RegExp(`###\\s*${sectionName}([^]*?)(?=###|$)`, 'i');
-    const match = content.match(regex);
-    return match ? match[1].trim() : null;
+    const lines = content.split('\n');
+    const headingLevel = (line: string) => /^(#{1,6})(?!#)/.exec(line)?.[1].length ?? 0;
+    const start = lines.findIndex(line => headingLevel(line) > 0 && new RegExp(`^#+\\s*${sectionName}`, 'i').test(line));
+    if (start < 0) return null;
+
+    const level = headingLevel(lines[start]);
+    let end = start + 1;
+    for (; end < lines.length; end++) {
+      const next = headingLevel(lines[end]);
+      if (next === 0 || next > level) continue;
+      const below = lines.slice(end + 1).find(line => line.trim() !== '') ?? '';
+      if (next < level || !(hasDateRange(lines[end]) || hasDateRange(below))) break;
+    }
+    return [lines[start].replace(new RegExp(`^#+\\s*${sectionName}`, 'i'), ''), ...lines.slice(start + 1, end)].join('\n').trim();
   }
 
-  private assessTechnicalContext(contexts: string[]): number {
+  private assessTechnicalContext(contexts: string[], language: Language): number {
     let strength = 0;
-    const strongIndicators = ['implemented', 'architected', 'built', 'designed', 'led', 'expertise'];
-    const mediumIndicators = ['used', 'worked with', 'experience', 'knowledge'];
+    const { strong: strongIndicators, medium: mediumIndicators } = this.technicalContextIndicators[language];
     
     for (const context of contexts) {
       const lowerContext = context.toLowerCase();
@@ -412,7 +426,7 @@ export class CVAnalyzer {
 
   private extractYearsForSkill(contexts: string[], skill: string): number {
     for (const context of contexts) {
-      const yearMatch = context.match(/(\d+)\+?\s*years?/i);
+      const yearMatch = context.match(/(\d+)\+?\s*(?:years?|jahren?)\b/i);
       if (yearMatch) {
         return parseInt(yearMatch[1]);
       }
@@ -428,23 +442,9 @@ export class CVAnalyzer {
     }).filter(n => n > 0) : [];
   }
 
-  private extractLeadershipYears(content: string): number {
-    const leadershipRoles = content.match(/(director|head of|lead|manager|cto)[^]*?(\d{4})\s*[-–]\s*(\d{4}|present)/gi);
-    if (!leadershipRoles) return 0;
-    
-    const currentYear = new Date().getFullYear();
-    let totalLeadershipYears = 0;
-    
-    for (const role of leadershipRoles) {
-      const yearMatch = role.match(/(\d{4})\s*[-–]\s*(\d{4}|present)/i);
-      if (yearMatch) {
-        const startYear = parseInt(yearMatch[1]);
-        const endYear = yearMatch[2].toLowerCase() === 'present' ? currentYear : parseInt(yearMatch[2]);
-        totalLeadershipYears += (endYear - startYear);
-      }
-    }
-    
-    return totalLeadershipYears;
+  // Years covered by roles with a leadership title; concurrent ones count once
+  private extractLeadershipYears(timeline: CVTimeline): number {
+    return toYears(unionMonths(timeline.roles.filter(role => this.leadershipTitle.test(role.title))));
   }
 
   private extractSeniorRoles(content: string): Array<{title: string, context: string, years: number}> {
@@ -0,0 +1,216 @@
+/**
+ * The employment timeline of a CV: its roles with start and end month,
+ * read from the experience section in English or German date formats
+ * ("03/2019 – 11/2021", "Mar 2019 - present", "2019-03", "15.03.2019 - 30.06.2021",
+ * "seit 01.2020"). A day, if given, is ignored.
+ *
+ * Experience is counted as the union of the roles' months, so concurrent
+ * roles (freelance work next to employment) and promotions within one
+ * company count once. A year without a month is taken as its middle:
+ * "2018 – 2021" runs from July 2018 to June 2021, three years as stated.
+ * Breaks of MIN_GAP_MONTHS or more between roles, and since the last one,
+ * are gaps. A gap only counts months no role can have covered, so there a
+ * year without a month is read as the whole year: "2015 – 2019" followed by
+ * "Jan 2020 – present" has none.
+ */
+
+export const EMPLOYMENT_TYPES = ['full_time', 'part_time', 'freelance', 'internship'] as const;
+export type EmploymentType = typeof EMPLOYMENT_TYPES[number];
+
+// Shorter breaks between roles are job changes, not gaps
+export const MIN_GAP_MONTHS = 3;
+
+// Months assumed for a year stated without one
+const YEAR_ONLY_START_MONTH = 7;
+const YEAR_ONLY_END_MONTH = 6;
+
+const MONTH_NAMES = String.raw`jan(?:uary|uar)?|feb(?:ruary|ruar)?|mar(?:ch)?|märz?|mrz|apr(?:il)?|may|mai|june?|juni|july?|juli|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|okt(?:ober)?|nov(?:ember)?|dec(?:ember)?|dez(?:ember)?`;
+const MONTH_NUMBERS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, mär: 3, mrz: 3, apr: 4, may: 5, mai: 5, jun: 6, jul: 7,
+  aug: 8, sep: 9, oct: 10, okt: 10, nov: 11, dec: 12, dez: 12,
+};
+
+// "Mar 2019", "März 2019", "03/2019", "03.2019", "15.03.2019", "2019-03", "2019"
+const DATE = String.raw`(?:(?<!\p{L})(?:${MONTH_NAMES})\.?\s+|\b(?:\d{1,2}\.\s*)?\d{1,2}\s*[/.]\s*)?\b(?:19|20)\d{2}(?:-\d{2}(?!\d))?`;
+const PRESENT = String.raw`present|current(?:ly)?|now|today|ongoing|heute|aktuell|laufend|jetzt|dato`;
+const DATE_RANGE = new RegExp(String.raw`(${DATE})\s*(?:-|–|—|to|until|bis)\s*(${DATE}|(?:${PRESENT})(?!\p{L}))`, 'iu');
+const OPEN_RANGE = new RegExp(String.raw`(?:since|seit)\s+(${DATE})`, 'iu');
+
+// Checked in order against the role heading; anything else is full-time employment
+const EMPLOYMENT_TYPE_CUES: Array<[EmploymentType, RegExp]> = [
+  ['internship', /\bintern(?:ship)?\b|praktik|werkstudent|working student/iu],
+  ['freelance', /freelance|freiberuf|freie[rn]? mitarbeit|contractor|self-employed|selbst(?:st)?ändig/iu],
+  ['part_time', /part[- ]time|teilzeit/iu],
+];
+
+// Separators between title and company in a heading, strongest first
+const HEADING_SEPARATORS = [/\s*\|\s*/, /\s+(?:at|@|bei)\s+/iu, /\s*,\s*/, /\s+[-–—]\s+/];
+
+export interface Role {
+  title: string;
+  company?: string;
+  start: string; // YYYY-MM
+  end: string; // YYYY-MM, the last month in the role; the current month for ongoing roles
+  current: boolean;
+  months: number;
+  employmentType: EmploymentType;
+  text: string; // Heading and description, to tell which skills the role used
+}
+
+export interface EmploymentGap {
+  start: string; // First month without a role, YYYY-MM
+  end: string; // Last one
+  months: number;
+  ongoing?: boolean; // Since the last role ended
+}
+
+export interface CVTimeline {
+  roles: Role[]; // Most recent start first
+  totalMonths: number; // Union of the roles' months
+  gaps: EmploymentGap[];
+}
+
+/**
+ * Reads the roles from a CV's experience section. A line with a date range
+ * starts a role; its heading is the rest of the line, or the line above when
+ * the dates stand on their own, and the lines up to the next role are its
+ * description.
+ */
+export function buildTimeline(experienceSection: string, now: Date = new Date()): CVTimeline {
+  const currentMonth = now.getFullYear() * 12 + now.getMonth();
+  const drafts: Array<{ heading: string; dates: string; start: number; end: number; current: boolean; lines: string[] }> = [];
+  const coverage: Array<[number, number]> = []; // Each role's months with year-only dates read as whole years
+  const preamble: string[] = [];
+
+  for (const line of (experienceSection ?? '').split('\n')) {
+    const range = DATE_RANGE.exec(line) ?? OPEN_RANGE.exec(line);
+    const previous = drafts[drafts.length - 1]?.lines ?? preamble;
+    if (!range) {
+      previous.push(line);
+      continue;
+    }
+
+    const start = monthIndex(range[1], 'start');
+    const current = range[2] === undefined || new RegExp(`^(?:${PRESENT})$`, 'iu').test(range[2]);
+    let end = current ? currentMonth : monthIndex(range[2], 'end');
+    if (start === null || end === null || start > currentMonth) {
+      previous.push(line);
+      continue;
+    }
+    // "2020 – 2020": the year-only end lies before the year-only start
+    if (end < start && !hasMonth(range[2])) end = Math.floor(end / 12) * 12 + 11;
+
+    let heading = cleanHeading(line.replace(range[0], ''));
+    if (heading.length < 3) {
+      while (previous.length > 0 && previous[previous.length - 1].trim() === '') previous.pop();
+      heading = cleanHeading(previous.pop() ?? '');
+    }
+    end = Math.max(start, Math.min(end, currentMonth));
+    drafts.push({ heading, dates: line, start, end, current, lines: [] });
+    coverage.push([
+      hasMonth(range[1]) ? start : Math.floor(start / 12) * 12,
+      current || hasMonth(range[2]) ? end : Math.min(Math.floor(end / 12) * 12 + 11, currentMonth),
+    ]);
+  }
+
+  const roles: Role[] = drafts.map(draft => {
+    const [title, company] = splitHeading(draft.heading);
+    return {
+      title,
+      ...(company ? { company } : {}),
+      start: formatMonth(draft.start),
+      end: formatMonth(draft.end),
+      current: draft.current,
+      months: draft.end - draft.start + 1,
+      employmentType: EMPLOYMENT_TYPE_CUES.find(([, pattern]) => pattern.test(`${draft.heading} ${draft.dates}`))?.[0] ?? 'full_time',
+      text: [draft.heading, ...draft.lines].join('\n').trim(),
+    };
+  }).sort((a, b) => b.start.localeCompare(a.start));
+
+  const periods = mergedPeriods(coverage);
+  const gaps: EmploymentGap[] = [];
+  for (let i = 1; i < periods.length; i++) {
+    const months = periods[i][0] - periods[i - 1][1] - 1;
+    if (months >= MIN_GAP_MONTHS) {
+      gaps.push({ start: formatMonth(periods[i - 1][1] + 1), end: formatMonth(periods[i][0] - 1), months });
+    }
+  }
+  const lastEnd = periods[periods.length - 1]?.[1];
+  if (lastEnd !== undefined && currentMonth - lastEnd >= MIN_GAP_MONTHS) {
+    gaps.push({ start: formatMonth(lastEnd + 1), end: formatMonth(currentMonth), months: currentMonth - lastEnd, ongoing: true });
+  }
+
+  return { roles, totalMonths: unionMonths(roles), gaps };
+}
+
+// Whether a line states a role's dates ("03/2019 – 11/2021", "seit 01.2020")
+export function hasDateRange(line: string): boolean {
+  return DATE_RANGE.test(line) || OPEN_RANGE.test(line);
+}
+
+// Months covered by any of the roles; overlapping months count once
+export function unionMonths(roles: Role[]): number {
+  return mergedPeriods(roles.map(role => [parseMonth(role.start), parseMonth(role.end)]))
+    .reduce((sum, [start, end]) => sum + end - start + 1, 0);
+}
+
+export function toYears(months: number): number {
+  return Math.round(months / 12 * 10) / 10;
+}
+
+// [first, last] month indexes with overlapping and adjacent periods merged, oldest first
+function mergedPeriods(periods: Array<[number, number]>): Array<[number, number]> {
+  const merged: Array<[number, number]> = [];
+
+  for (const [start, end] of [...periods].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1] + 1) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  }
+  return merged;
+}
+
+// Whether a date states its month, not just the year
+function hasMonth(date: string): boolean {
+  return /\d\s*[/.]|-\d{2}|\p{L}/u.test(date);
+}
+
+// Month index (year × 12 + month - 1) of a date, or null if the month is invalid
+function monthIndex(date: string, side: 'start' | 'end'): number | null {
+  const year = Number(/(?:19|20)\d{2}/.exec(date)![0]);
+  const iso = /(?:19|20)\d{2}-(\d{2})/.exec(date);
+  const numeric = /(\d{1,2})\s*[/.]\s*(?:19|20)\d{2}/.exec(date); // The month, not the day, of "15.03.2019"
+  const named = /^\p{L}+/u.exec(date.trim());
+  const month = iso ? Number(iso[1])
+    : numeric ? Number(numeric[1])
+    : named ? MONTH_NUMBERS[named[0].toLowerCase().slice(0, 3)]
+    : side === 'start' ? YEAR_ONLY_START_MONTH : YEAR_ONLY_END_MONTH;
+
+  return month >= 1 && month <= 12 ? year * 12 + month - 1 : null;
+}
+
+function formatMonth(index: number): string {
+  return `${Math.floor(index / 12)}-${String(index % 12 + 1).padStart(2, '0')}`;
+}
+
+function parseMonth(month: string): number {
+  const [year, number] = month.split('-').map(Number);
+  return year * 12 + number - 1;
+}
+
+// Markdown, brackets and separators left over around the dates
+function cleanHeading(heading: string): string {
+  return heading
+    .replace(/[#*_`]|\(\s*\)|\[\s*\]/g, ' ')
+    .replace(/^[\s|,@–—:-]+|[\s|,@–—:(-]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function splitHeading(heading: string): [string, string | undefined] {
+  for (const separator of HEADING_SEPARATORS) {
+    const parts = heading.split(separator).map(part => part.trim()).filter(Boolean);
+    if (parts.length > 1) return [parts[0], parts[1]];
+  }
+  return [heading, undefined];
+}
@@ -0,0 +1,399 @@
+import { splitClauses } from './job-sections.js';
+
+/**
+ * Employment terms of a job posting: salary, contract type, work mode,
+ * relocation and visa support, and travel share. They are read from the
+ * title, location and description with English and German phrasing, and are
+ * not weighted parameters: they do not describe the candidate, so they do not
+ * enter the skill match. Instead, a match can filter jobs by them and score
+ * them against the user's preferences (see evaluateTerms).
+ *
+ * Anything a posting does not state is left unset; filters let unknown terms
+ * pass and report them.
+ */
+
+export const CURRENCIES = ['EUR', 'USD', 'GBP', 'CHF'] as const;
+export type Currency = typeof CURRENCIES[number];
+
+export const SALARY_PERIODS = ['hour', 'day', 'month', 'year'] as const;
+export type SalaryPeriod = typeof SALARY_PERIODS[number];
+
+export const CONTRACT_TYPES = ['permanent', 'fixed_term', 'freelance'] as const;
+export type ContractType = typeof CONTRACT_TYPES[number];
+
+export const WORK_MODES = ['remote', 'hybrid', 'on_site'] as const;
+export type WorkMode = typeof WORK_MODES[number];
+
+// Multipliers to a year: 220 working days of 8 hours, 12 monthly salaries
+const PERIODS_PER_YEAR: Record<SalaryPeriod, number> = { hour: 1760, day: 220, month: 12, year: 1 };
+
+// Amounts outside these are not a salary of that period (funding rounds, headcounts)
+const PLAUSIBLE_AMOUNTS: Record<SalaryPeriod, [number, number]> = {
+  hour: [10, 500],
+  day: [100, 3000],
+  month: [1000, 40000],
+  year: [15000, 1000000],
+};
+
+const DAYS_PER_WEEK = 5;
+
+const CURRENCY_SYMBOLS: Array<[Currency, RegExp]> = [
+  ['EUR', /€|\beur\b|\beuro\b/iu],
+  ['USD', /\$|\busd\b/iu],
+  ['GBP', /£|\bgbp\b/iu],
+  ['CHF', /\bchf\b/iu],
+];
+
+// An amount with an optional currency on either side: "€60,000", "60.000 €", "75k", "EUR 700"
+const AMOUNT = String.raw`(?:€|\$|£|\b(?:eur|usd|gbp|chf)\b)?\s*(\d{1,3}(?:[.,\s]\d{3})+|\d+(?:[.,]\d+)?)(?!\d)\s*(k\b|tsd\.?|tausend)?\s*(?:€|\$|£|\b(?:eur|euro|usd|gbp|chf)\b)?`;
+const SALARY_RANGE = new RegExp(String.raw`(?:(?:up to|bis zu|max(?:imal|imum)?\.?)\s*)?${AMOUNT}(?:\s*(?:-|–|to|bis)\s*${AMOUNT})?(?!\s*(?:m\b|mio|million|billion|mrd))`, 'giu');
+// A currency alone does not make a salary: "5.000 € training budget"
+const SALARY_CUE = /salary|gehalt|vergütung|compensation|\bpay\b|\brate\b|tagessatz|stundensatz|brutto|netto|gross|\bnet\b|\bote\b|p\.\s?a\b|per (?:year|annum|month|day|hour)|annual|yearly|monthly|hourly|jährlich|monatlich|lohn|einkommen/iu;
+const UP_TO = /^(?:up to|bis zu|max)/iu;
+
+const SALARY_PERIOD_CUES: Array<[SalaryPeriod, RegExp]> = [
+  ['hour', /per hour|hourly|\/\s?h(?:our|r)?\b|stundensatz|pro stunde|\/\s?std/iu],
+  ['day', /per day|daily|day rate|\/\s?day|tagessatz|pro tag|\/\s?tag/iu],
+  ['month', /per month|monthly|\/\s?month|monatlich|pro monat|\/\s?monat/iu],
+  ['year', /per year|per annum|annual|yearly|p\.\s?a\b|\/\s?year|jährlich|jahresgehalt|pro jahr/iu],
+];
+
+// First match wins: "unbefristet" is permanent, "befristet" fixed-term
+const CONTRACT_CUES: Array<[ContractType, RegExp]> = [
+  ['permanent', /permanent|unbefristet|festanstellung|feste anstellung|open[- ]ended/iu],
+  ['fixed_term', /fixed[- ]term|temporary|\bbefristet|\d+[- ]months? contract|elternzeitvertretung|maternity cover/iu],
+  ['freelance', /freelance|freiberuflich|freie mitarbeit|contractor|\bb2b\b|day rate|tagessatz|projektbasis/iu],
+];
+
+// Checked in order: ruled-out remote work first, so "no remote" is not read as remote
+const WORK_MODE_CUES: Array<[WorkMode, RegExp]> = [
+  ['on_site', /\bno remote|\bnot (?:a )?remote|non-remote|without remote|remote (?:work )?(?:is )?not (?:possible|available|offered|an option)|kein(?:e)? (?:home ?office|remote)|(?:home ?office|remote(?:arbeit)?) (?:ist )?nicht möglich/iu],
+  ['hybrid', /hybrid|days? (?:per|a|\/) week (?:in|at) (?:the |our )?office|tage? (?:pro|die|in der) woche (?:im büro|vor ort)|teilweise remote|mobiles arbeiten|(?<!100\s?%\s?)\bhome ?office\b/iu],
+  ['remote', /fully remote|100\s?% remote|remote[- ]first|remote only|full remote|work from anywhere|vollständig remote|komplett remote|100\s?% homeoffice|\bremote\b/iu],
+  ['on_site', /on[- ]?site|in[- ]office|office[- ]based|vor ort|präsenz|no remote|kein homeoffice/iu],
+];
+
+const OFFICE_DAYS = /(\d)\s*(?:days?|x|tage?)\s*(?:per|a|\/|pro|die|in der)\s*(?:week|woche)\s*(?:in|at|im|vor)\s*(?:the\s*|our\s*)?(?:office|büro|ort)/iu;
+const REMOTE_DAYS = /(\d)\s*(?:days?|tage?)\s*(?:per|a|\/|pro|die|in der)?\s*(?:week|woche)?\s*(?:remote|home ?office|from home|mobil)/iu;
+
+const RELOCATION_NO = /no relocation|relocation (?:is )?not (?:offered|provided|possible|supported)|keine umzugs|keine relocation/iu;
+const RELOCATION_YES = /relocation|relocate|umzugs(?:hilfe|unterstützung|kosten|pauschale)|umzug/iu;
+const VISA_NO = /no visa|(?:unable to|not able to|cannot|can't|can not) (?:offer |provide )?(?:visa )?sponsor|not (?:offer|provide) (?:visa )?sponsorship|must (?:already )?have (?:the )?(?:right|permission) to work|work permit (?:is )?(?:required|needed)|kein(?:e)? visum|arbeitserlaubnis (?:ist )?erforderlich/iu;
+const VISA_YES = /visa|sponsorship|work permit|blue card|blaue karte|arbeitserlaubnis|aufenthaltstitel/iu;
+
+const TRAVEL = /travel|reise/iu;
+const TRAVEL_SHARE = /(\d{1,3})\s*%/u;
+const NO_TRAVEL = /no travel|without travel|keine reise/iu;
+const OCCASIONAL_TRAVEL = /occasional|gelegentlich|sporadic|vereinzelt/iu;
+const OCCASIONAL_TRAVEL_SHARE = 0.1;
+
+export interface SalaryRange {
+  min: number;
+  max: number; // Equal to min if one amount is stated; "up to" amounts set max only, with min 0
+  currency: Currency;
+  period: SalaryPeriod;
+  gross?: boolean; // Unset unless the posting says gross/brutto or net/netto
+  annualMin: number; // In the same currency, converted with PERIODS_PER_YEAR
+  annualMax: number;
+  text: string;
+}
+
+export interface EmploymentTerms {
+  salary?: SalaryRange;
+  contractType?: ContractType;
+  workMode?: WorkMode;
+  officeDaysPerWeek?: number; // 0 for remote, 5 for on-site unless stated
+  relocationSupport?: boolean;
+  visaSponsorship?: boolean;
+  travelShare?: number; // 0-1 of working time
+}
+
+// [x, utility 0-1] points of a piecewise-linear curve, by increasing x; flat beyond the ends
+export type PreferenceCurve = Array<[number, number]>;
+
+export interface TermFilters {
+  minAnnualSalary?: number; // In the preferences' currency; compared with the top of the posting's range
+  contractTypes?: ContractType[];
+  workModes?: WorkMode[];
+  maxOfficeDaysPerWeek?: number;
+  maxTravelShare?: number;
+  visaSponsorship?: boolean; // true: only jobs that do not rule out sponsorship
+  relocationSupport?: boolean; // true: only jobs that do not rule out relocation support
+}
+
+export interface TermPreferences {
+  currency?: Currency; // Of the salary filter and curve (default EUR); salaries in other currencies are unknown
+  filters?: TermFilters;
+  curves?: {
+    annualSalary?: PreferenceCurve; // Of the middle of the posting's range (its top for "up to" amounts)
+    officeDaysPerWeek?: PreferenceCurve;
+    travelShare?: PreferenceCurve;
+  };
+  contractTypes?: Partial<Record<ContractType, number>>; // Utility 0-1 per contract type
+  workModes?: Partial<Record<WorkMode, number>>; // Utility 0-1 per work mode
+  weight?: number; // Share of the overall score given to the terms score (0-1, default 0: report only)
+}
+
+export interface TermsFit {
+  passesFilters: boolean;
+  failedFilters: string[]; // e.g. "workMode: on_site not in remote, hybrid"
+  unknown: string[]; // Filtered or scored terms the posting does not state
+  scores: Record<string, number>; // Utility 0-1 per scored term
+  score: number | null; // Mean of scores; null if no preferred term is stated
+  weight: number; // Share of the overall score the score was given
+}
+
+export function extractTerms(title: string, description: string, location?: string): EmploymentTerms {
+  const text = [title, location, description].filter(Boolean).join('\n').toLowerCase();
+  const clauses = splitClauses(text);
+  const terms: EmploymentTerms = {};
+
+  const salary = extractSalary(clauses);
+  if (salary) terms.salary = salary;
+
+  const contractType = CONTRACT_CUES.find(([, pattern]) => pattern.test(text))?.[0];
+  if (contractType) terms.contractType = contractType;
+
+  const workMode = WORK_MODE_CUES.find(([, pattern]) => pattern.test(text))?.[0];
+  if (workMode) {
+    terms.workMode = workMode;
+    terms.officeDaysPerWeek = officeDays(text, workMode);
+  }
+
+  const relocation = clauses.filter(clause => RELOCATION_YES.test(clause));
+  if (relocation.length > 0) terms.relocationSupport = !relocation.some(clause => RELOCATION_NO.test(clause));
+
+  const visa = clauses.filter(clause => VISA_YES.test(clause) || VISA_NO.test(clause));
+  if (visa.length > 0) terms.visaSponsorship = !visa.some(clause => VISA_NO.test(clause));
+
+  const travelShare = extractTravelShare(clauses);
+  if (travelShare !== undefined) terms.travelShare = travelShare;
+
+  return terms;
+}
+
+/**
+ * Applies the hard filters of `preferences` to a job's terms and scores the
+ * stated terms with the preference curves and utilities.
+ */
+export function evaluateTerms(terms: EmploymentTerms, preferences: TermPreferences): TermsFit {
+  const currency = preferences.currency ?? 'EUR';
+  const filters = preferences.filters ?? {};
+  const failedFilters: string[] = [];
+  const unknown = new Set<string>();
+  const salary = terms.salary?.currency === currency ? terms.salary : undefined;
+
+  if (filters.minAnnualSalary !== undefined) {
+    if (!salary) unknown.add('salary');
+    else if (salary.annualMax < filters.minAnnualSalary) {
+      failedFilters.push(`salary: up to ${salary.annualMax} ${currency} a year, below ${filters.minAnnualSalary}`);
+    }
+  }
+  if (filters.contractTypes) {
+    if (!terms.contractType) unknown.add('contractType');
+    else if (!filters.contractTypes.includes(terms.contractType)) {
+      failedFilters.push(`contractType: ${terms.contractType} not in ${filters.contractTypes.join(', ')}`);
+    }
+  }
+  if (filters.workModes) {
+    if (!terms.workMode) unknown.add('workMode');
+    else if (!filters.workModes.includes(terms.workMode)) {
+      failedFilters.push(`workMode: ${terms.workMode} not in ${filters.workModes.join(', ')}`);
+    }
+  }
+  if (filters.maxOfficeDaysPerWeek !== undefined) {
+    if (terms.officeDaysPerWeek === undefined) unknown.add('officeDaysPerWeek');
+    else if (terms.officeDaysPerWeek > filters.maxOfficeDaysPerWeek) {
+      failedFilters.push(`officeDaysPerWeek: ${terms.officeDaysPerWeek} above ${filters.maxOfficeDaysPerWeek}`);
+    }
+  }
+  if (filters.maxTravelShare !== undefined) {
+    if (terms.travelShare === undefined) unknown.add('travelShare');
+    else if (terms.travelShare > filters.maxTravelShare) {
+      failedFilters.push(`travelShare: ${terms.travelShare} above ${filters.maxTravelShare}`);
+    }
+  }
+  if (filters.visaSponsorship) {
+    if (terms.visaSponsorship === undefined) unknown.add('visaSponsorship');
+    else if (!terms.visaSponsorship) failedFilters.push('visaSponsorship: not offered');
+  }
+  if (filters.relocationSupport) {
+    if (terms.relocationSupport === undefined) unknown.add('relocationSupport');
+    else if (!terms.relocationSupport) failedFilters.push('relocationSupport: not offered');
+  }
+
+  const scores: Record<string, number> = {};
+  const score = (name: string, value: number | undefined, utility: (value: number) => number) => {
+    if (value === undefined) unknown.add(name);
+    else scores[name] = round(utility(value));
+  };
+  const { curves = {} } = preferences;
+  if (curves.annualSalary) score('salary', salary && midpoint(salary), x => interpolate(curves.annualSalary!, x));
+  if (curves.officeDaysPerWeek) score('officeDaysPerWeek', terms.officeDaysPerWeek, x => interpolate(curves.officeDaysPerWeek!, x));
+  if (curves.travelShare) score('travelShare', terms.travelShare, x => interpolate(curves.travelShare!, x));
+  if (preferences.contractTypes) {
+    if (terms.contractType) scores.contractType = preferences.contractTypes[terms.contractType] ?? 0;
+    else unknown.add('contractType');
+  }
+  if (preferences.workModes) {
+    if (terms.workMode) scores.workMode = preferences.workModes[terms.workMode] ?? 0;
+    else unknown.add('workMode');
+  }
+
+  const values = Object.values(scores);
+  return {
+    passesFilters: failedFilters.length === 0,
+    failedFilters,
+    unknown: [...unknown],
+    scores,
+    score: values.length > 0 ? round(values.reduce((sum, v) => sum + v, 0) / values.length) : null,
+    weight: preferences.weight ?? 0,
+  };
+}
+
+/**
+ * Checks term preferences given as a tool argument; throws naming every
+ * problem.
+ */
+export function assertTermPreferences(value: unknown): asserts value is TermPreferences {
+  const problems: string[] = [];
+  const preferences = value as any;
+  const isUtility = (v: unknown) => typeof v === 'number' && v >= 0 && v <= 1;
+  const oneOf = (list: readonly string[], v: unknown) => typeof v === 'string' && list.includes(v);
+
+  if (typeof preferences !== 'object' || preferences === null || Array.isArray(preferences)) {
+    throw new Error('termPreferences must be an object');
+  }
+  if (preferences.currency !== undefined && !oneOf(CURRENCIES, preferences.currency)) {
+    problems.push(`currency must be one of ${CURRENCIES.join(', ')}`);
+  }
+  if (preferences.weight !== undefined && !isUtility(preferences.weight)) {
+    problems.push('weight must be a number in 0-1');
+  }
+
+  const filters = preferences.filters ?? {};
+  for (const key of ['minAnnualSalary', 'maxOfficeDaysPerWeek', 'maxTravelShare'] as const) {
+    if (filters[key] !== undefined && !(typeof filters[key] === 'number' && filters[key] >= 0)) {
+      problems.push(`filters.${key} must be a non-negative number`);
+    }
+  }
+  for (const [key, list] of [['contractTypes', CONTRACT_TYPES], ['workModes', WORK_MODES]] as const) {
+    if (filters[key] !== undefined && !(Array.isArray(filters[key]) && filters[key].every((v: unknown) => oneOf(list, v)))) {
+      problems.push(`filters.${key} must be an array of ${list.join(', ')}`);
+    }
+    const utilities = preferences[key];
+    if (utilities !== undefined && !(typeof utilities === 'object' && utilities !== null
+      && Object.entries(utilities).every(([k, v]) => oneOf(list, k) && isUtility(v)))) {
+      problems.push(`${key} must map ${list.join(', ')} to utilities in 0-1`);
+    }
+  }
+  for (const key of ['visaSponsorship', 'relocationSupport'] as const) {
+    if (filters[key] !== undefined && typeof filters[key] !== 'boolean') {
+      problems.push(`filters.${key} must be a boolean`);
+    }
+  }
+
+  for (const [key, curve] of Object.entries<any>(preferences.curves ?? {})) {
+    const valid = Array.isArray(curve) && curve.length > 0
+      && curve.every((point: any, i: number) => Array.isArray(point) && point.length === 2
+        && typeof point[0] === 'number' && isUtility(point[1]) && (i === 0 || point[0] > curve[i - 1][0]));
+    if (!['annualSalary', 'officeDaysPerWeek', 'travelShare'].includes(key)) {
+      problems.push(`curves.${key} is not a known curve (annualSalary, officeDaysPerWeek, travelShare)`);
+    } else if (!valid) {
+      problems.push(`curves.${key} must be [x, utility 0-1] points with increasing x`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid termPreferences: ${problems.join('; ')}`);
+  }
+}
+
+function extractSalary(clauses: string[]): SalaryRange | undefined {
+  for (const clause of clauses.filter(c => SALARY_CUE.test(c))) {
+    const currency = CURRENCY_SYMBOLS.find(([, pattern]) => pattern.test(clause))?.[0];
+    if (!currency) continue;
+
+    for (const match of clause.matchAll(SALARY_RANGE)) {
+      const [text, low, lowK, high, highK] = match;
+      if (!CURRENCY_SYMBOLS.some(([, pattern]) => pattern.test(text)) && !/k\b|tsd|tausend/iu.test(text)) continue;
+
+      let min = parseAmount(low, lowK ?? highK);
+      let max = high ? parseAmount(high, highK ?? lowK) : min;
+      if (UP_TO.test(text.trim())) [min, max] = [0, max];
+      if (max < min) continue;
+
+      const period = SALARY_PERIOD_CUES.find(([, pattern]) => pattern.test(clause))?.[0] ?? periodOf(max);
+      const [lowest, highest] = PLAUSIBLE_AMOUNTS[period];
+      if (max < lowest || max > highest) continue;
+
+      const gross = /gross|brutto/iu.test(clause) ? true : /\bnet\b|netto/iu.test(clause) ? false : undefined;
+      return {
+        min,
+        max,
+        currency,
+        period,
+        ...(gross !== undefined ? { gross } : {}),
+        annualMin: Math.round(min * PERIODS_PER_YEAR[period]),
+        annualMax: Math.round(max * PERIODS_PER_YEAR[period]),
+        text: clause,
+      };
+    }
+  }
+  return undefined;
+}
+
+// "60.000" and "60,000" are thousands, "60,5" a decimal
+function parseAmount(amount: string, thousands?: string): number {
+  const normalized = /[.,\s]\d{3}$/.test(amount) && !thousands
+    ? amount.replace(/[.,\s]/g, '')
+    : amount.replace(',', '.');
+  return parseFloat(normalized) * (thousands ? 1000 : 1);
+}
+
+// The period an amount stated without one most plausibly has
+function periodOf(amount: number): SalaryPeriod {
+  return ([...SALARY_PERIODS].reverse() as SalaryPeriod[]).find(period => amount >= PLAUSIBLE_AMOUNTS[period][0]) ?? 'hour';
+}
+
+function officeDays(text: string, workMode: WorkMode): number {
+  if (workMode === 'remote') return 0;
+
+  const inOffice = OFFICE_DAYS.exec(text);
+  if (inOffice) return Math.min(DAYS_PER_WEEK, parseInt(inOffice[1]));
+  const remote = REMOTE_DAYS.exec(text);
+  if (remote) return Math.max(0, DAYS_PER_WEEK - parseInt(remote[1]));
+
+  return workMode === 'on_site' ? DAYS_PER_WEEK : Math.ceil(DAYS_PER_WEEK / 2);
+}
+
+function extractTravelShare(clauses: string[]): number | undefined {
+  for (const clause of clauses.filter(c => TRAVEL.test(c))) {
+    if (NO_TRAVEL.test(clause)) return 0;
+    const share = TRAVEL_SHARE.exec(clause);
+    if (share) return Math.min(100, parseInt(share[1])) / 100;
+    if (OCCASIONAL_TRAVEL.test(clause)) return OCCASIONAL_TRAVEL_SHARE;
+  }
+  return undefined;
+}
+
+// An "up to" range has no stated bottom, so its top stands for it
+function midpoint(salary: SalaryRange): number {
+  return salary.annualMin > 0 ? (salary.annualMin + salary.annualMax) / 2 : salary.annualMax;
+}
+
+function interpolate(curve: PreferenceCurve, x: number): number {
+  if (x <= curve[0][0]) return curve[0][1];
+  for (let i = 1; i < curve.length; i++) {
+    const [x1, y1] = curve[i];
+    if (x <= x1) {
+      const [x0, y0] = curve[i - 1];
+      return y0 + (y1 - y0) * (x - x0) / (x1 - x0);
+    }
+  }
+  return curve[curve.length - 1][1];
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
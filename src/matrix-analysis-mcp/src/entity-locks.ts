@@ -0,0 +1,107 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Per-entity locks shared by every server process using the same project root
+ * (e.g. the HTTP server and a stdio client).
+ *
+ * Within a process, callers for the same key are queued. Across processes a
+ * lock is a `<key>.lock` file under var/locks/ created with O_EXCL; a lock file
+ * older than STALE_LOCK_MS is assumed to belong to a crashed process and is
+ * taken over.
+ *
+ * matrix-analysis-mcp writes into the same data/ directory, so both packages
+ * keep a copy of src/common/entity-locks.ts; their npm test checks that the
+ * copies match it.
+ */
+
+const LOCK_RETRY_MS = 25;
+const LOCK_TIMEOUT_MS = 10_000;
+const STALE_LOCK_MS = 30_000;
+
+type Release = () => Promise<void>;
+
+export class EntityLocks {
+  private queues = new Map<string, Promise<void>>();
+
+  constructor(private readonly lockDir: string) {}
+
+  /**
+   * Runs `fn` while holding the locks for all `keys`. Keys are acquired in
+   * sorted order so that two callers locking overlapping sets cannot deadlock.
+   *
+   * @param keys - Lock keys such as 'job/job-123'; must be safe file names once '/' is replaced
+   */
+  async withLocks<T>(keys: string[], fn: () => Promise<T>): Promise<T> {
+    const releases: Release[] = [];
+    try {
+      for (const key of [...new Set(keys)].sort()) {
+        releases.push(await this.acquire(key));
+      }
+      return await fn();
+    } finally {
+      for (const release of releases.reverse()) {
+        await release();
+      }
+    }
+  }
+
+  private async acquire(key: string): Promise<Release> {
+    const previous = this.queues.get(key) ?? Promise.resolve();
+    let releaseQueue!: () => void;
+    const current = new Promise<void>(resolve => {
+      releaseQueue = resolve;
+    });
+    const tail = previous.then(() => current);
+    this.queues.set(key, tail);
+
+    const leaveQueue = () => {
+      releaseQueue();
+      if (this.queues.get(key) === tail) {
+        this.queues.delete(key);
+      }
+    };
+
+    await previous;
+    const lockPath = path.join(this.lockDir, `${key.replace(/\//g, '--')}.lock`);
+    try {
+      await this.acquireFile(lockPath, key);
+    } catch (error) {
+      leaveQueue();
+      throw error;
+    }
+
+    return async () => {
+      await fs.rm(lockPath, { force: true }).catch(() => undefined);
+      leaveQueue();
+    };
+  }
+
+  private async acquireFile(lockPath: string, key: string): Promise<void> {
+    await fs.mkdir(this.lockDir, { recursive: true });
+    const startedAt = Date.now();
+
+    for (;;) {
+      try {
+        const handle = await fs.open(lockPath, 'wx');
+        await handle.writeFile(JSON.stringify({ pid: process.pid, acquiredAt: new Date().toISOString() }));
+        await handle.close();
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const stat = await fs.stat(lockPath).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+        await fs.rm(lockPath, { force: true }).catch(() => undefined);
+        continue;
+      }
+      if (Date.now() - startedAt > LOCK_TIMEOUT_MS) {
+        throw new Error(`Timed out after ${LOCK_TIMEOUT_MS}ms waiting for lock on ${key}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+}
@@ -7,16 +7,43 @@ import {
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
-import { JobAnalyzer } from './job-analyzer.js';
+import path from 'path';
+
+import { JobAnalyzer, JobAnalysis } from './job-analyzer.js';
 import { sseReporter } from './sse-stdio-protocol.js';
 import { CVAnalyzer } from './cv-analyzer.js';
-import { MatrixGenerator } from './matrix-generator.js';
+import { MatrixGenerator, CVMatrix, JobMatrix } from './matrix-generator.js';
+import { DEFAULT_WEIGHT_PROFILE_ID, WeightProfileStore, assertProfileId } from './weight-profile.js';
+import { DEFAULT_MIN_PARAMETER_SAMPLES, WeightCalibrator, CalibrationSample } from './weight-calibrator.js';
+import { DEFAULT_NO_RESPONSE_DAYS, loadApplicationOutcomes } from './application-outcomes.js';
+import { ProjectData, mapWithConcurrency } from './project-data.js';
+import { SkillTaxonomy, TaxonomyValidationError } from './skill-taxonomy.js';
+import { DEFAULT_MATCH_MODE, MATCH_MODES, MatchMode, assertMatchMode } from './skill-graph.js';
+import { TermPreferences, assertTermPreferences } from './employment-terms.js';
+import { PreferenceProfile, PreferenceProfileStore, assertPreferenceProfile } from './preference-profile.js';
+import { DEFAULT_RECENCY_DECAY, RecencyDecay, assertRecencyDecay } from './skill-recency.js';
+
+// Configuration constants
+const PROJECT_ROOT_ENV_VAR = 'CV_PROJECT_ROOT';
+const DEFAULT_PROJECT_ROOT = process.cwd();
+const STORAGE_BACKEND_ENV_VAR = 'CV_STORAGE_BACKEND'; // filesystem-mcp's storage backend for the same project
+const DATA_DIR_NAME = 'data';
+const LOCKS_DIR = path.join('var', 'locks'); // filesystem-mcp's entity lock files
+const DEFAULT_BATCH_CONCURRENCY = 4;
+const MAX_BATCH_CONCURRENCY = 16;
+const MATRIX_SCHEMA_VERSION = 1; // filesystem-mcp Matrix entity schema version written by persist
 
 class MatrixAnalysisServer {
   private server: Server;
   private jobAnalyzer: JobAnalyzer;
   private cvAnalyzer: CVAnalyzer;
   private matrixGenerator: MatrixGenerator;
+  private taxonomy: SkillTaxonomy;
+  private dataDir: string;
+  private projectData: ProjectData;
+  private weightProfiles: WeightProfileStore;
+  private preferenceProfiles: PreferenceProfileStore;
+  private weightCalibrator: WeightCalibrator;
 
   constructor() {
     this.server = new Server(
@@ -31,9 +58,17 @@ class MatrixAnalysisServer {
       }
     );
 
-    this.jobAnalyzer = new JobAnalyzer();
-    this.cvAnalyzer = new CVAnalyzer();
-    this.matrixGenerator = new MatrixGenerator();
+    // Throws on an invalid taxonomy file, so a broken edit stops the server at startup
+    this.taxonomy = SkillTaxonomy.load();
+    this.jobAnalyzer = new JobAnalyzer(this.taxonomy);
+    this.cvAnalyzer = new CVAnalyzer(this.taxonomy);
+    this.matrixGenerator = new MatrixGenerator(this.taxonomy);
+    const projectRoot = process.env[PROJECT_ROOT_ENV_VAR] || DEFAULT_PROJECT_ROOT;
+    this.dataDir = path.join(projectRoot, DATA_DIR_NAME);
+    this.projectData = new ProjectData(this.dataDir, path.join(projectRoot, LOCKS_DIR), process.env[STORAGE_BACKEND_ENV_VAR] || undefined);
+    this.weightProfiles = new WeightProfileStore(this.dataDir);
+    this.preferenceProfiles = new PreferenceProfileStore(this.dataDir);
+    this.weightCalibrator = new WeightCalibrator();
 
     this.setupToolHandlers();
   }
@@ -58,6 +93,10 @@ class MatrixAnalysisServer {
                     location: { type: 'string' }
                   },
                   required: ['title', 'description']
+                },
+                preferenceProfile: {
+                  type: 'string',
+                  description: 'Preference profile (see save_preference_profile) to weight the location and company_size parameters by; neutral weights if omitted'
                 }
               },
               required: ['jobData']
@@ -72,6 +111,14 @@ class MatrixAnalysisServer {
                 cvContent: {
                   type: 'string',
                   description: 'CV content in markdown or text format'
+                },
+                recencyDecay: {
+                  type: 'object',
+                  description: `Recency decay of skills last used in past roles: strength × (floor + (1 - floor) × 0.5^(years since last use / halfLifeYears)). Defaults: halfLifeYears ${DEFAULT_RECENCY_DECAY.halfLifeYears}, floor ${DEFAULT_RECENCY_DECAY.floor}`,
+                  properties: {
+                    halfLifeYears: { type: 'number' },
+                    floor: { type: 'number' }
+                  }
                 }
               },
               required: ['cvContent']
@@ -92,9 +139,14 @@ class MatrixAnalysisServer {
                       jobId: { type: 'string' },
                       title: { type: 'string' },
                       company: { type: 'string' },
-                      description: { type: 'string' }
+                      description: { type: 'string' },
+                      location: { type: 'string' }
                     }
                   }
+                },
+                preferenceProfile: {
+                  type: 'string',
+                  description: 'Preference profile (see save_preference_profile) to weight the location and company_size parameters by; neutral weights if omitted'
                 }
               },
               required: ['jobs']
@@ -107,7 +159,15 @@ class MatrixAnalysisServer {
               type: 'object',
               properties: {
                 cvContent: { type: 'string' },
-                cvId: { type: 'string' }
+                cvId: { type: 'string' },
+                recencyDecay: {
+                  type: 'object',
+                  description: `Recency decay of skills last used in past roles: strength × (floor + (1 - floor) × 0.5^(years since last use / halfLifeYears)). Defaults: halfLifeYears ${DEFAULT_RECENCY_DECAY.halfLifeYears}, floor ${DEFAULT_RECENCY_DECAY.floor}`,
+                  properties: {
+                    halfLifeYears: { type: 'number' },
+                    floor: { type: 'number' }
+                  }
+                }
               },
               required: ['cvContent', 'cvId']
             }
@@ -119,14 +179,35 @@ class MatrixAnalysisServer {
               type: 'object',
               properties: {
                 jobMatrix: { type: 'object' },
-                cvMatrix: { type: 'object' }
+                cvMatrix: { type: 'object' },
+                weightProfile: {
+                  type: 'string',
+                  description: 'Calibrated weight profile to apply (see calibrate_match_weights); default weights if omitted'
+                },
+                weightProfileVersion: {
+                  type: 'number',
+                  description: 'Profile version to apply (default: latest)'
+                },
+                matchMode: {
+                  type: 'string',
+                  enum: [...MATCH_MODES],
+                  description: `"exact" matches parameters by name; "graph" also gives partial credit through related skills in the skill taxonomy, explained in parameterMatches (default: ${DEFAULT_MATCH_MODE})`
+                },
+                termPreferences: {
+                  type: 'object',
+                  description: 'Employment term preferences: hard "filters" (minAnnualSalary, contractTypes, workModes, maxOfficeDaysPerWeek, maxTravelShare, visaSponsorship, relocationSupport), preference "curves" ([x, utility] points for annualSalary, officeDaysPerWeek, travelShare), utilities per "contractTypes" and "workModes", salary "currency" (default EUR) and the "weight" of the terms score in the overall score (default 0). Jobs failing a filter are listed in filteredOut'
+                },
+                preferenceProfile: {
+                  type: 'string',
+                  description: 'Preference profile (see save_preference_profile) to evaluate each job against: its preferenceFit (location, industry, company size) is reported next to the skills fit, and jobs failing a hard preference (excluded company or industry, remote tolerance, office days, salary floor) are listed in filteredOut'
+                }
               },
               required: ['jobMatrix', 'cvMatrix']
             }
           },
           {
             name: 'analyze_jobs_batch_with_progress',
-            description: 'Batch analyze multiple jobs with real-time progress reporting via SSE',
+            description: 'Batch analyze stored jobs (data/jobs/ under CV_PROJECT_ROOT) with real-time progress reporting via SSE',
             inputSchema: {
               type: 'object',
               properties: {
@@ -134,10 +215,94 @@ class MatrixAnalysisServer {
                   type: 'array',
                   items: { type: 'string' },
                   description: 'Array of job IDs to analyze'
+                },
+                concurrency: {
+                  type: 'number',
+                  description: `Jobs analyzed in parallel (default: ${DEFAULT_BATCH_CONCURRENCY}, max: ${MAX_BATCH_CONCURRENCY})`
+                },
+                persist: {
+                  type: 'boolean',
+                  description: 'Store each analyzed job as matrix-<jobId> in data/matrices/ (default: false)'
+                },
+                preferenceProfile: {
+                  type: 'string',
+                  description: 'Preference profile (see save_preference_profile) to weight the location and company_size parameters by; neutral weights if omitted'
                 }
               },
               required: ['jobIds']
             }
+          },
+          {
+            name: 'calibrate_match_weights',
+            description: 'Fit category and parameter weight multipliers to recorded application outcomes (data/applications/) and store them as a new version of a weight profile, with a before/after predictive-quality report',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                profileId: {
+                  type: 'string',
+                  description: `Weight profile to create a new version of (default: ${DEFAULT_WEIGHT_PROFILE_ID})`
+                },
+                noResponseDays: {
+                  type: 'number',
+                  description: `Days after which a submitted application without reply counts as no response (default: ${DEFAULT_NO_RESPONSE_DAYS})`
+                },
+                minParameterSamples: {
+                  type: 'number',
+                  description: `Applications a parameter must appear in to get its own multiplier (default: ${DEFAULT_MIN_PARAMETER_SAMPLES})`
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Only report the fit without storing a profile version (default: false)'
+                },
+                matchMode: {
+                  type: 'string',
+                  enum: [...MATCH_MODES],
+                  description: `Match mode the applications are scored with; apply the profile with the same mode (default: ${DEFAULT_MATCH_MODE})`
+                }
+              }
+            }
+          },
+          {
+            name: 'list_weight_profiles',
+            description: 'List calibrated weight profiles and their versions',
+            inputSchema: {
+              type: 'object',
+              properties: {}
+            }
+          },
+          {
+            name: 'save_preference_profile',
+            description: 'Create or replace a user preference profile (data/preference-profiles/) used to weight job locations and companies and to compute the preference fit of matches',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                profile: {
+                  type: 'object',
+                  description: 'Preference profile: "profileId", preferred "locations" ([{ place, radiusKm, latitude, longitude }]), "remoteTolerance" (remote_only, hybrid or any), "maxOfficeDaysPerWeek", "industries" ({ preferred, excluded } domain skill IDs), preferred "companySizes" (startup, small, medium, large, enterprise), "salaryFloor" ({ annual, currency }) and "excludedCompanies"',
+                  properties: {
+                    profileId: { type: 'string' }
+                  },
+                  required: ['profileId']
+                }
+              },
+              required: ['profile']
+            }
+          },
+          {
+            name: 'list_preference_profiles',
+            description: 'List stored user preference profiles',
+            inputSchema: {
+              type: 'object',
+              properties: {}
+            }
+          },
+          {
+            name: 'reload_taxonomy',
+            description: 'Re-read and validate the skill taxonomy file. If the file is invalid, the current taxonomy stays in use and the problems are returned',
+            inputSchema: {
+              type: 'object',
+              properties: {}
+            }
           }
         ]
       };
@@ -153,22 +318,56 @@ class MatrixAnalysisServer {
 
         switch (name) {
           case 'analyze_job_parameters':
-            return await this.analyzeJobParameters((args as any).jobData);
+            return await this.analyzeJobParameters((args as any).jobData, (args as any).preferenceProfile);
 
           case 'analyze_cv_parameters':
-            return await this.analyzeCVParameters((args as any).cvContent);
+            return await this.analyzeCVParameters((args as any).cvContent, (args as any).recencyDecay);
 
           case 'generate_job_matrix':
-            return await this.generateJobMatrix((args as any).jobs);
+            return await this.generateJobMatrix((args as any).jobs, (args as any).preferenceProfile);
 
           case 'generate_cv_matrix':
-            return await this.generateCVMatrix((args as any).cvContent, (args as any).cvId);
+            return await this.generateCVMatrix((args as any).cvContent, (args as any).cvId, (args as any).recencyDecay);
 
           case 'calculate_job_cv_match':
-            return await this.calculateJobCVMatch((args as any).jobMatrix, (args as any).cvMatrix);
+            return await this.calculateJobCVMatch(
+              (args as any).jobMatrix,
+              (args as any).cvMatrix,
+              (args as any).weightProfile,
+              (args as any).weightProfileVersion,
+              (args as any).matchMode,
+              (args as any).termPreferences,
+              (args as any).preferenceProfile
+            );
 
           case 'analyze_jobs_batch_with_progress':
-            return await this.analyzeJobsBatchWithProgress((args as any).jobIds);
+            return await this.analyzeJobsBatchWithProgress(
+              (args as any).jobIds,
+              (args as any).concurrency,
+              (args as any).persist,
+              (args as any).preferenceProfile
+            );
+
+          case 'calibrate_match_weights':
+            return await this.calibrateMatchWeights(
+              (args as any).profileId,
+              (args as any).noResponseDays,
+              (args as any).minParameterSamples,
+              (args as any).dryRun,
+              (args as any).matchMode
+            );
+
+          case 'list_weight_profiles':
+            return await this.listWeightProfiles();
+
+          case 'save_preference_profile':
+            return await this.savePreferenceProfile((args as any).profile);
+
+          case 'list_preference_profiles':
+            return await this.listPreferenceProfiles();
+
+          case 'reload_taxonomy':
+            return this.reloadTaxonomy();
 
           default:
             throw new Error(`Unknown tool: ${name}`);
@@ -186,8 +385,8 @@ class MatrixAnalysisServer {
     });
   }
 
-  private async analyzeJobParameters(jobData: any) {
-    const analysis = await this.jobAnalyzer.analyzeJob(jobData);
+  private async analyzeJobParameters(jobData: any, preferenceProfile?: string) {
+    const analysis = await this.jobAnalyzer.analyzeJob(jobData, await this.loadPreferenceProfile(preferenceProfile));
     
     return {
       content: [
@@ -199,8 +398,8 @@ class MatrixAnalysisServer {
     };
   }
 
-  private async analyzeCVParameters(cvContent: string) {
-    const analysis = await this.cvAnalyzer.analyzeCV(cvContent);
+  private async analyzeCVParameters(cvContent: string, recencyDecay?: Partial<RecencyDecay>) {
+    const analysis = await this.cvAnalyzer.analyzeCV(cvContent, this.recencyDecay(recencyDecay));
     
     return {
       content: [
@@ -212,8 +411,8 @@ class MatrixAnalysisServer {
     };
   }
 
-  private async generateJobMatrix(jobs: any[]) {
-    const matrix = await this.matrixGenerator.generateJobMatrix(jobs);
+  private async generateJobMatrix(jobs: any[], preferenceProfile?: string) {
+    const matrix = await this.matrixGenerator.generateJobMatrix(jobs, await this.loadPreferenceProfile(preferenceProfile));
     
     return {
       content: [
@@ -225,8 +424,8 @@ class MatrixAnalysisServer {
     };
   }
 
-  private async generateCVMatrix(cvContent: string, cvId: string) {
-    const matrix = await this.matrixGenerator.generateCVMatrix(cvContent, cvId);
+  private async generateCVMatrix(cvContent: string, cvId: string, recencyDecay?: Partial<RecencyDecay>) {
+    const matrix = await this.matrixGenerator.generateCVMatrix(cvContent, cvId, this.recencyDecay(recencyDecay));
     
     return {
       content: [
@@ -238,8 +437,28 @@ class MatrixAnalysisServer {
     };
   }
 
-  private async calculateJobCVMatch(jobMatrix: any, cvMatrix: any) {
-    const matchScore = await this.matrixGenerator.calculateMatch(jobMatrix, cvMatrix);
+  private async calculateJobCVMatch(
+    jobMatrix: any,
+    cvMatrix: any,
+    weightProfile?: string,
+    weightProfileVersion?: number,
+    matchMode: MatchMode = DEFAULT_MATCH_MODE,
+    termPreferences?: TermPreferences,
+    preferenceProfile?: string
+  ) {
+    assertMatchMode(matchMode);
+    if (termPreferences !== undefined) assertTermPreferences(termPreferences);
+    const profile = weightProfile
+      ? await this.weightProfiles.load(weightProfile, weightProfileVersion)
+      : undefined;
+    const matchScore = await this.matrixGenerator.calculateMatch(
+      jobMatrix,
+      cvMatrix,
+      profile,
+      matchMode,
+      termPreferences,
+      await this.loadPreferenceProfile(preferenceProfile)
+    );
     
     return {
       content: [
@@ -252,63 +471,222 @@ class MatrixAnalysisServer {
   }
 
   /**
-   * Batch analyze multiple jobs with real-time progress reporting
+   * Scores every recorded application with an outcome using the current
+   * analyzers, fits weight multipliers to the outcomes and stores them as
+   * the next version of the profile.
    */
-  async analyzeJobsBatchWithProgress(jobIds: string[]): Promise<any> {
+  private async calibrateMatchWeights(
+    profileId: string = DEFAULT_WEIGHT_PROFILE_ID,
+    noResponseDays: number = DEFAULT_NO_RESPONSE_DAYS,
+    minParameterSamples: number = DEFAULT_MIN_PARAMETER_SAMPLES,
+    dryRun: boolean = false,
+    matchMode: MatchMode = DEFAULT_MATCH_MODE
+  ) {
+    assertProfileId(profileId);
+    assertMatchMode(matchMode);
+    if (!(typeof noResponseDays === 'number' && noResponseDays > 0)) {
+      throw new Error('noResponseDays must be a positive number');
+    }
+    if (!(Number.isInteger(minParameterSamples) && minParameterSamples >= 1)) {
+      throw new Error('minParameterSamples must be a positive integer');
+    }
+
+    const history = await loadApplicationOutcomes(this.dataDir, noResponseDays);
+
+    // A CV revision is usually sent to several jobs; analyze it once
+    const cvMatrices = new Map<string, CVMatrix>();
+    const samples: CalibrationSample[] = [];
+    for (const record of history.records) {
+      const cvKey = `${record.cvFilename}@${record.cvVersion ?? 'current'}`;
+      if (!cvMatrices.has(cvKey)) {
+        cvMatrices.set(cvKey, await this.matrixGenerator.generateCVMatrix(record.cvContent, record.cvFilename));
+      }
+      const cvMatrix = cvMatrices.get(cvKey)!;
+      const jobMatrix = await this.matrixGenerator.generateJobMatrix([record.jobData]);
+      const matches = this.matrixGenerator.scoreParameters(jobMatrix, 0, cvMatrix, matchMode);
+
+      samples.push({
+        id: record.applicationId,
+        success: record.outcome === 'interview',
+        matches,
+        requirementKnockout: this.matrixGenerator.checkJobRequirements(jobMatrix.jobs[0], matches, cvMatrix).requirementKnockout,
+      });
+    }
+
+    const result = this.weightCalibrator.calibrate(samples, minParameterSamples);
+    const outcomes = { interview: 0, rejection: 0, no_response: 0 };
+    history.records.forEach(record => outcomes[record.outcome]++);
+
+    const calibration = {
+      calibratedAt: new Date().toISOString(),
+      noResponseDays,
+      minParameterSamples,
+      matchMode,
+      outcomes,
+      before: result.before,
+      after: result.after,
+      crossValidation: result.crossValidation,
+      applications: result.scores.map(score => ({
+        applicationId: score.id,
+        outcome: history.records.find(r => r.applicationId === score.id)!.outcome,
+        scoreBefore: score.before,
+        scoreAfter: score.after,
+      })),
+      skipped: history.skipped,
+    };
+    const profile = dryRun ? null : await this.weightProfiles.save(profileId, result.multipliers, calibration);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            profileId,
+            version: profile?.version ?? null,
+            dryRun,
+            multipliers: result.multipliers,
+            ...calibration,
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async listWeightProfiles() {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ profiles: await this.weightProfiles.list() }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async savePreferenceProfile(profile: unknown) {
+    assertPreferenceProfile(profile, this.taxonomy.skills('domain').map(skill => skill.id));
+    const saved = await this.preferenceProfiles.save(profile);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ profile: saved }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async listPreferenceProfiles() {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ profiles: await this.preferenceProfiles.list() }, null, 2)
+        }
+      ]
+    };
+  }
+
+  // The defaults, overridden by the fields given
+  private recencyDecay(recencyDecay?: Partial<RecencyDecay>): RecencyDecay {
+    if (recencyDecay === undefined) return DEFAULT_RECENCY_DECAY;
+    assertRecencyDecay(recencyDecay);
+    return { ...DEFAULT_RECENCY_DECAY, ...recencyDecay };
+  }
+
+  private async loadPreferenceProfile(profileId?: string): Promise<PreferenceProfile | undefined> {
+    return profileId !== undefined ? await this.preferenceProfiles.load(profileId) : undefined;
+  }
+
+  /**
+   * Batch analyze stored jobs with real-time progress reporting.
+   *
+   * Jobs are read from data/jobs/ and analyzed by up to `concurrency` workers.
+   * A job that cannot be loaded or analyzed is reported in `errors` and the
+   * rest of the batch carries on. With `persist`, each analyzed job's row of
+   * the comparison matrix is stored as a Job matrix record in data/matrices/.
+   */
+  async analyzeJobsBatchWithProgress(
+    jobIds: string[],
+    concurrency: number = DEFAULT_BATCH_CONCURRENCY,
+    persist: boolean = false,
+    preferenceProfileId?: string
+  ): Promise<any> {
+    if (!Array.isArray(jobIds)) {
+      throw new Error('jobIds must be an array of job identifiers');
+    }
+    if (!(Number.isInteger(concurrency) && concurrency >= 1 && concurrency <= MAX_BATCH_CONCURRENCY)) {
+      throw new Error(`concurrency must be an integer between 1 and ${MAX_BATCH_CONCURRENCY}`);
+    }
+    this.projectData.assertFsBackend();
+
+    const preferenceProfile = await this.loadPreferenceProfile(preferenceProfileId);
+
     const operation = 'batch_job_analysis';
     const totalJobs = jobIds.length;
     
     sseReporter.startProgress(operation, totalJobs);
-    sseReporter.status(`Starting batch analysis of ${totalJobs} jobs`);
+    sseReporter.status(`Starting batch analysis of ${totalJobs} jobs`, { concurrency });
 
-    const results: any[] = [];
+    const errors: Array<{ id: string; error: string }> = [];
+    let completed = 0;
     
     try {
-      for (let i = 0; i < jobIds.length; i++) {
-        const jobId = jobIds[i];
-        const currentStep = i + 1;
-        
-        sseReporter.updateProgress(operation, currentStep, totalJobs, `Analyzing job ${jobId}`);
-        
-        // Simulate loading job from filesystem-mcp
-        // In real implementation, this would call filesystem-mcp.load_job
-        sseReporter.status(`Loading job data for ${jobId}`);
-        
-        // Simulate job analysis
-        await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate processing time
-        
-        const mockJobData = {
-          title: `Job ${currentStep}`,
-          company: `Company ${currentStep}`,
-          description: `Mock job description for ${jobId}`,
-          requirements: [`Requirement 1 for ${jobId}`, `Requirement 2 for ${jobId}`]
-        };
-        
-        sseReporter.status(`Analyzing parameters for ${jobId}`);
-        const analysisResult = await this.jobAnalyzer.analyzeJob(mockJobData);
-        
-        results.push({
-          jobId,
-          analysis: analysisResult
-        });
-        
-        sseReporter.updateProgress(operation, currentStep, totalJobs, `Completed analysis for ${jobId}`);
-      }
+      const analyses = await mapWithConcurrency(jobIds, concurrency, async jobId => {
+        try {
+          sseReporter.status(`Loading job data for ${jobId}`);
+          const jobData = await this.projectData.readJob(jobId);
+
+          sseReporter.status(`Analyzing parameters for ${jobId}`);
+          return await this.jobAnalyzer.analyzeJob({ ...jobData, jobId }, preferenceProfile);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          errors.push({ id: jobId, error: message });
+          sseReporter.status(`Failed to analyze ${jobId}: ${message}`);
+          return null;
+        } finally {
+          completed++;
+          sseReporter.updateProgress(operation, completed, totalJobs, `Processed ${jobId}`);
+        }
+      });
+      const results = analyses
+        .filter((analysis): analysis is JobAnalysis => analysis !== null)
+        .map(analysis => ({ jobId: analysis.jobId!, analysis }));
       
       // Generate comparison matrix
       sseReporter.status('Generating comparison matrix');
-      const matrix = await this.matrixGenerator.generateJobMatrix(results.map(r => r.analysis));
+      const matrix = results.length > 0 ? this.matrixGenerator.buildJobMatrix(results.map(r => r.analysis)) : null;
+
+      const persisted: Array<{ jobId: string; matrixId: string }> = [];
+      if (persist && matrix) {
+        sseReporter.status(`Storing ${results.length} job matrices in data/matrices/`);
+        for (const [index, { jobId, analysis }] of results.entries()) {
+          const matrixId = `matrix-${jobId}`;
+          try {
+            await this.projectData.writeMatrix(matrixId, this.toJobMatrixRecord(matrixId, analysis, matrix, index));
+            persisted.push({ jobId, matrixId });
+          } catch (error) {
+            errors.push({ id: matrixId, error: error instanceof Error ? error.message : String(error) });
+          }
+        }
+      }
       
       const finalResult = {
         batchAnalysis: results,
         comparisonMatrix: matrix,
+        errors,
+        ...(persist ? { persisted } : {}),
         summary: {
           totalJobs: totalJobs,
+          analyzedJobs: results.length,
+          failedJobs: totalJobs - results.length,
+          concurrency,
           processedAt: new Date().toISOString()
         }
       };
       
-      sseReporter.completeProgress(operation, { processedJobs: totalJobs });
+      sseReporter.completeProgress(operation, { processedJobs: results.length, failedJobs: totalJobs - results.length });
       
       return {
         content: [
@@ -325,11 +703,63 @@ class MatrixAnalysisServer {
     }
   }
 
+  /**
+   * One job's row of a comparison matrix in the Matrix entity format that
+   * filesystem-mcp validates (type, entityId, parameter weights in 0-1).
+   */
+  private toJobMatrixRecord(matrixId: string, analysis: JobAnalysis, matrix: JobMatrix, row: number) {
+    const parameters: Record<string, number> = {};
+    matrix.parameters.forEach((parameter, column) => {
+      const weight = matrix.weightMatrix[row][column];
+      if (weight > 0) parameters[parameter] = weight;
+    });
+
+    return {
+      type: 'Job',
+      entityId: analysis.jobId,
+      parameters,
+      title: analysis.title,
+      company: analysis.company,
+      seniorityLevel: analysis.seniorityLevel,
+      keyRequirements: analysis.keyRequirements,
+      comparisonMatrixId: matrix.matrixId,
+      analyzedAt: analysis.analysisMetadata.analyzedAt,
+      matrixId,
+      storedAt: new Date().toISOString(),
+      schemaVersion: MATRIX_SCHEMA_VERSION,
+    };
+  }
+
+  private reloadTaxonomy() {
+    let result;
+    try {
+      this.taxonomy.reload();
+      result = { reloaded: true, taxonomy: this.taxonomy.summary() };
+    } catch (error) {
+      if (!(error instanceof TaxonomyValidationError)) throw error;
+      result = { reloaded: false, problems: error.problems, taxonomy: this.taxonomy.summary() };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+
   async start() {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
   }
 }
 
-const server = new MatrixAnalysisServer();
-server.start().catch(console.error);
\ No newline at end of file
+try {
+  const server = new MatrixAnalysisServer();
+  server.start().catch(console.error);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
\ No newline at end of file
@@ -1,81 +1,118 @@
+import { SkillTaxonomy } from './skill-taxonomy.js';
+import { ParameterSource, PostingSection, RequirementLevel, TermLocation, locateTerms, multiplier, segmentPosting } from './job-sections.js';
+import { Language, detectLanguage } from './language.js';
+import { RequirementExtractor, StructuredRequirements } from './requirements.js';
+import { EmploymentTerms, extractTerms } from './employment-terms.js';
+import { CompanySize, NEUTRAL_PREFERENCE_WEIGHT, PreferenceFit, PreferenceProfile, companySizeOf, evaluatePreferences } from './preference-profile.js';
+
 export interface JobParameter {
   name: string;
   category: 'technical' | 'leadership' | 'domain' | 'soft' | 'location' | 'company';
   weight: number; // 0-1, where 1 is most important
   value: string;
   confidence: number; // 0-1, how confident we are about this parameter
+  source?: ParameterSource; // Section and position of the mention that set the weight
+  requirementLevel?: RequirementLevel; // From phrasing ("must", "a plus") or section; unset for location and company
 }
 
 export interface JobAnalysis {
   jobId?: string;
   title: string;
   company: string;
+  location?: string;
+  companySize?: CompanySize; // From the employee count or wording of the posting
   parameters: JobParameter[];
   keyRequirements: string[];
+  requirements: StructuredRequirements; // Typed: years overall and per skill, degree, certifications, languages
+  terms: EmploymentTerms; // Salary, contract type, work mode, relocation/visa support, travel; what the posting states
   seniorityLevel: 'junior' | 'mid' | 'senior' | 'lead' | 'director' | 'executive';
   analysisMetadata: {
     analyzedAt: string;
     parameterCount: number;
     primaryCategory: string;
+    language: Language; // Detected language of the posting
+    preferenceProfile?: string; // Profile the location and company_size weights were taken from
   };
 }
 
 export class JobAnalyzer {
-  // Technical skills with relative importance weights
-  private readonly technicalSkills = {
-    // Programming Languages
-    'javascript': 0.8, 'typescript': 0.85, 'python': 0.8, 'java': 0.7, 'golang': 0.75,
-    'c#': 0.7, 'c++': 0.7, 'php': 0.6, 'ruby': 0.6, 'scala': 0.6, 'kotlin': 0.6,
-    
-    // Cloud & Infrastructure
-    'aws': 0.9, 'azure': 0.9, 'gcp': 0.85, 'kubernetes': 0.9, 'docker': 0.85,
-    'terraform': 0.8, 'helm': 0.7, 'ansible': 0.7,
-    
-    // Databases
-    'mongodb': 0.7, 'postgresql': 0.75, 'mysql': 0.7, 'redis': 0.6, 'elasticsearch': 0.7,
-    
-    // Frameworks & Tools
-    'react': 0.8, 'angular': 0.7, 'vue': 0.7, 'node.js': 0.8, 'express': 0.6,
-    'gitlab': 0.7, 'jenkins': 0.7, 'grafana': 0.6, 'prometheus': 0.6,
-    
-    // Architectures
-    'microservices': 0.85, 'api': 0.8, 'rest': 0.7, 'graphql': 0.6, 'oauth2': 0.6,
-    'ci/cd': 0.85, 'devops': 0.8
+  // Title keywords per seniority level, checked in order. German titles mix
+  // in English ones, and "Teamleiter" must be checked before "Leiter"
+  private readonly seniorityKeywords: Record<Language, Record<JobAnalysis['seniorityLevel'], string[]>> = {
+    en: {
+      'executive': ['cto', 'ceo', 'vp', 'vice president'],
+      'director': ['director', 'head of'],
+      'lead': ['lead', 'principal', 'staff', 'architect'],
+      'senior': ['senior', 'sr.', 'expert'],
+      'mid': ['mid', 'intermediate'],
+      'junior': ['junior', 'jr.', 'entry', 'graduate']
+    },
+    de: {
+      'executive': ['cto', 'ceo', 'vp', 'vice president', 'geschäftsführer', 'vorstand'],
+      'lead': ['teamleiter', 'teamleitung', 'lead', 'principal', 'staff', 'architect', 'architekt'],
+      'director': ['director', 'head of', 'bereichsleiter', 'abteilungsleiter', 'leiter', 'leitung'],
+      'senior': ['senior', 'sr.', 'expert', 'experte', 'erfahren'],
+      'mid': ['mid', 'intermediate'],
+      'junior': ['junior', 'jr.', 'entry', 'graduate', 'einsteiger', 'absolvent', 'trainee', 'werkstudent']
+    }
   };
 
-  private readonly leadershipTerms = {
-    'lead': 0.9, 'manage': 0.85, 'mentor': 0.8, 'coach': 0.7, 'supervise': 0.75,
-    'team building': 0.8, 'hiring': 0.7, 'performance management': 0.75,
-    'strategic': 0.85, 'vision': 0.8, 'roadmap': 0.75
+  private readonly teamSizePatterns: Record<Language, RegExp> = {
+    en: /(\d+)\+?\s*(?:member|people|developer|engineer)/i,
+    de: /(\d+)\+?\s*(?:mitarbeiter|personen|entwickler|ingenieur|teammitglieder)/iu
   };
 
-  private readonly domainTerms = {
-    'adtech': 0.8, 'medtech': 0.8, 'fintech': 0.8, 'e-commerce': 0.7,
-    'healthcare': 0.8, 'education': 0.7, 'automotive': 0.7, 'gaming': 0.6
+  private readonly mustHavePatterns: Record<Language, RegExp> = {
+    en: /(?:must have|required|essential)[:\s]*([^]*?)(?:\n\n|\n[A-Z]|$)/i,
+    de: /(?:anforderungen|voraussetzungen|dein profil|ihr profil|das bringst du mit)[:\s]*([^]*?)(?:\n\n|$)/i
   };
 
-  async analyzeJob(jobData: any): Promise<JobAnalysis> {
+  private readonly requirementExtractor: RequirementExtractor;
+
+  constructor(private readonly taxonomy: SkillTaxonomy) {
+    this.requirementExtractor = new RequirementExtractor(taxonomy);
+  }
+
+  /**
+   * With a preference profile, the location and company_size parameters are
+   * weighted by how well the job fits the user's location and company size
+   * preferences; otherwise, and where the posting does not say, they get
+   * NEUTRAL_PREFERENCE_WEIGHT.
+   */
+  async analyzeJob(jobData: any, preferenceProfile?: PreferenceProfile): Promise<JobAnalysis> {
     const text = `${jobData.title} ${jobData.description}`.toLowerCase();
+    const language = detectLanguage(text);
+    const sections = segmentPosting(jobData.title, jobData.description, language);
     const parameters: JobParameter[] = [];
 
     // Extract technical parameters
-    parameters.push(...this.extractTechnicalParameters(text));
+    parameters.push(...this.extractTechnicalParameters(sections, language));
     
     // Extract leadership parameters
-    parameters.push(...this.extractLeadershipParameters(text));
+    parameters.push(...this.extractLeadershipParameters(sections, text, language));
     
     // Extract domain parameters
-    parameters.push(...this.extractDomainParameters(text));
+    parameters.push(...this.extractDomainParameters(sections, language));
     
     // Extract soft skills
-    parameters.push(...this.extractSoftSkills(text));
+    parameters.push(...this.extractSoftSkills(sections, language));
+
+    const terms = extractTerms(jobData.title, jobData.description, jobData.location);
+    const companySize = companySizeOf(`${jobData.company ?? ''}\n${jobData.description}`);
+    const preferenceFit = preferenceProfile && evaluatePreferences({
+      company: jobData.company,
+      location: jobData.location,
+      companySize,
+      industries: parameters.filter(p => p.category === 'domain').map(p => p.name),
+      terms
+    }, preferenceProfile);
     
     // Add location and company parameters
     if (jobData.location) {
       parameters.push({
         name: 'location',
         category: 'location',
-        weight: this.calculateLocationWeight(jobData.location),
+        weight: this.preferenceWeight(preferenceFit, 'location'),
         value: jobData.location,
         confidence: 1.0
       });
@@ -84,16 +121,17 @@ export class JobAnalyzer {
     parameters.push({
       name: 'company_size',
       category: 'company',
-      weight: this.estimateCompanyWeight(jobData.company),
+      weight: this.preferenceWeight(preferenceFit, 'companySize'),
       value: jobData.company,
-      confidence: 0.7
+      confidence: companySize ? 0.7 : 0.3
     });
 
+    // Extract key requirements, as text and typed
+    const keyRequirements = this.extractKeyRequirements(jobData.description, language);
+    const requirements = this.requirementExtractor.fromPosting(sections, language);
+
     // Determine seniority level
-    const seniorityLevel = this.determineSeniorityLevel(text, jobData.title);
-    
-    // Extract key requirements
-    const keyRequirements = this.extractKeyRequirements(jobData.description);
+    const seniorityLevel = this.determineSeniorityLevel(jobData.title, requirements, language);
 
     // Apply seniority-based weight adjustments
     this.adjustWeightsForSeniority(parameters, seniorityLevel);
@@ -102,35 +140,41 @@ export class JobAnalyzer {
       jobId: jobData.jobId,
       title: jobData.title,
       company: jobData.company,
+      ...(jobData.location ? { location: jobData.location } : {}),
+      ...(companySize ? { companySize } : {}),
       parameters: parameters.sort((a, b) => b.weight - a.weight), // Sort by weight descending
       keyRequirements,
+      requirements,
+      terms,
       seniorityLevel,
       analysisMetadata: {
         analyzedAt: new Date().toISOString(),
         parameterCount: parameters.length,
-        primaryCategory: this.determinePrimaryCategory(parameters)
+        primaryCategory: this.determinePrimaryCategory(parameters),
+        language,
+        ...(preferenceProfile ? { preferenceProfile: preferenceProfile.profileId } : {})
       }
     };
   }
 
-  private extractTechnicalParameters(text: string): JobParameter[] {
+  private extractTechnicalParameters(sections: PostingSection[], language: Language): JobParameter[] {
     const parameters: JobParameter[] = [];
     
-    for (const [skill, baseWeight] of Object.entries(this.technicalSkills)) {
-      const escapedSkill = skill.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-      const regex = new RegExp(`\\b${escapedSkill}\\b`, 'gi');
-      const matches = text.match(regex);
+    for (const skill of this.taxonomy.skills('technical')) {
+      const location = this.locateSkill(sections, skill.id, language);
       
-      if (matches) {
-        const frequency = matches.length;
+      if (location) {
+        const frequency = location.mentions;
         const confidence = Math.min(0.9, 0.6 + (frequency * 0.1));
         
         parameters.push({
-          name: skill,
+          name: skill.id,
           category: 'technical',
-          weight: baseWeight * this.calculateFrequencyMultiplier(frequency),
-          value: skill,
-          confidence
+          weight: skill.weight * this.calculateFrequencyMultiplier(frequency) * multiplier(location.source),
+          value: skill.id,
+          confidence,
+          source: location.source,
+          requirementLevel: location.requirementLevel
         });
       }
     }
@@ -138,26 +182,11 @@ export class JobAnalyzer {
     return parameters;
   }
 
-  private extractLeadershipParameters(text: string): JobParameter[] {
-    const parameters: JobParameter[] = [];
-    
-    for (const [term, baseWeight] of Object.entries(this.leadershipTerms)) {
-      const regex = new RegExp(`\\b${term}\\b`, 'gi');
-      const matches = text.match(regex);
-      
-      if (matches) {
-        parameters.push({
-          name: term.replace(' ', '_'),
-          category: 'leadership',
-          weight: baseWeight,
-          value: term,
-          confidence: 0.8
-        });
-      }
-    }
+  private extractLeadershipParameters(sections: PostingSection[], text: string, language: Language): JobParameter[] {
+    const parameters: JobParameter[] = this.extractTaxonomyTerms(sections, 'leadership', 0.8, language);
 
     // Special patterns for team size
-    const teamSizeMatch = text.match(/(\d+)\+?\s*(?:member|people|developer|engineer)/i);
+    const teamSizeMatch = text.match(this.teamSizePatterns[language]) ?? text.match(this.teamSizePatterns.en);
     if (teamSizeMatch) {
       const teamSize = parseInt(teamSizeMatch[1]);
       parameters.push({
@@ -172,40 +201,34 @@ export class JobAnalyzer {
     return parameters;
   }
 
-  private extractDomainParameters(text: string): JobParameter[] {
-    const parameters: JobParameter[] = [];
-    
-    for (const [domain, weight] of Object.entries(this.domainTerms)) {
-      if (text.includes(domain)) {
-        parameters.push({
-          name: domain,
-          category: 'domain',
-          weight,
-          value: domain,
-          confidence: 0.8
-        });
-      }
-    }
-    
-    return parameters;
+  private extractDomainParameters(sections: PostingSection[], language: Language): JobParameter[] {
+    return this.extractTaxonomyTerms(sections, 'domain', 0.8, language);
   }
 
-  private extractSoftSkills(text: string): JobParameter[] {
-    const softSkills = {
-      'communication': 0.7, 'collaboration': 0.6, 'problem solving': 0.7,
-      'analytical': 0.7, 'creative': 0.5, 'agile': 0.8, 'scrum': 0.7
-    };
+  private extractSoftSkills(sections: PostingSection[], language: Language): JobParameter[] {
+    return this.extractTaxonomyTerms(sections, 'soft', 0.6, language);
+  }
 
+  private extractTaxonomyTerms(
+    sections: PostingSection[],
+    category: 'leadership' | 'domain' | 'soft',
+    confidence: number,
+    language: Language
+  ): JobParameter[] {
     const parameters: JobParameter[] = [];
     
-    for (const [skill, weight] of Object.entries(softSkills)) {
-      if (text.includes(skill)) {
+    for (const skill of this.taxonomy.skills(category)) {
+      const location = this.locateSkill(sections, skill.id, language);
+      
+      if (location) {
         parameters.push({
-          name: skill.replace(' ', '_'),
-          category: 'soft',
-          weight,
-          value: skill,
-          confidence: 0.6
+          name: skill.id,
+          category,
+          weight: skill.weight * multiplier(location.source),
+          value: skill.id.replace(/_/g, ' '),
+          confidence,
+          source: location.source,
+          requirementLevel: location.requirementLevel
         });
       }
     }
@@ -213,28 +236,23 @@ export class JobAnalyzer {
     return parameters;
   }
 
-  private determineSeniorityLevel(text: string, title: string): JobAnalysis['seniorityLevel'] {
-    const seniorityKeywords = {
-      'executive': ['cto', 'ceo', 'vp', 'vice president'],
-      'director': ['director', 'head of'],
-      'lead': ['lead', 'principal', 'staff', 'architect'],
-      'senior': ['senior', 'sr.', 'expert'],
-      'mid': ['mid', 'intermediate'],
-      'junior': ['junior', 'jr.', 'entry', 'graduate']
-    };
+  // Mentions of the skill under any of its taxonomy terms for the language
+  private locateSkill(sections: PostingSection[], skillId: string, language: Language): TermLocation | null {
+    return locateTerms(sections, this.taxonomy.patterns(skillId, language), language);
+  }
 
+  private determineSeniorityLevel(title: string, requirements: StructuredRequirements, language: Language): JobAnalysis['seniorityLevel'] {
     const titleLower = title.toLowerCase();
     
-    for (const [level, keywords] of Object.entries(seniorityKeywords)) {
+    for (const [level, keywords] of Object.entries(this.seniorityKeywords[language])) {
       if (keywords.some(keyword => titleLower.includes(keyword))) {
         return level as JobAnalysis['seniorityLevel'];
       }
     }
 
-    // Default based on years of experience mentioned
-    const yearsMatch = text.match(/(\d+)\+?\s*years?\s*(?:of\s*)?experience/i);
-    if (yearsMatch) {
-      const years = parseInt(yearsMatch[1]);
+    // Default based on the years of experience required overall, else for the most demanding skill
+    const years = requirements.experience?.minYears ?? requirements.skillYears[0]?.minYears;
+    if (years !== undefined) {
       if (years >= 10) return 'director';
       if (years >= 7) return 'lead';
       if (years >= 4) return 'senior';
@@ -245,12 +263,12 @@ export class JobAnalyzer {
     return 'mid'; // Default
   }
 
-  private extractKeyRequirements(description: string): string[] {
+  private extractKeyRequirements(description: string, language: Language): string[] {
     const requirements: string[] = [];
     
     // Look for bulleted lists and "must have" sections
     const bulletPattern = /[•·▪▫-]\s*([^\n•·▪▫-]+)/g;
-    const mustHavePattern = /(?:must have|required|essential)[:\s]*([^]*?)(?:\n\n|\n[A-Z]|$)/i;
+    const mustHavePattern = this.mustHavePatterns[language];
     
     let match;
     while ((match = bulletPattern.exec(description)) !== null) {
@@ -269,27 +287,8 @@ export class JobAnalyzer {
     return requirements.slice(0, 10); // Limit to top 10
   }
 
-  private calculateLocationWeight(location: string): number {
-    const remote = location.toLowerCase().includes('remote');
-    const berlin = location.toLowerCase().includes('berlin');
-    const germany = location.toLowerCase().includes('germany');
-    
-    if (remote) return 0.9; // High preference for remote
-    if (berlin) return 0.8;  // High preference for Berlin
-    if (germany) return 0.7; // Good for Germany
-    return 0.5; // Other locations
-  }
-
-  private estimateCompanyWeight(company: string): number {
-    // This could be enhanced with a company database
-    // For now, use simple heuristics
-    const companyLower = company.toLowerCase();
-    
-    if (companyLower.includes('startup')) return 0.6;
-    if (companyLower.includes('gmbh')) return 0.7; // German companies
-    if (companyLower.length > 20) return 0.5; // Very long names might be less established
-    
-    return 0.6; // Default company weight
+  private preferenceWeight(fit: PreferenceFit | undefined, preference: 'location' | 'companySize'): number {
+    return fit?.scores[preference] ?? NEUTRAL_PREFERENCE_WEIGHT;
   }
 
   private calculateFrequencyMultiplier(frequency: number): number {
@@ -321,8 +320,9 @@ export class JobAnalyzer {
     });
   }
 
+  // Location and company are the user's preferences, not what the job is about
   private determinePrimaryCategory(parameters: JobParameter[]): string {
-    const categoryWeights = parameters.reduce((acc, param) => {
+    const categoryWeights = parameters.filter(param => param.category !== 'location' && param.category !== 'company').reduce((acc, param) => {
       acc[param.category] = (acc[param.category] || 0) + param.weight;
       return acc;
     }, {} as Record<string, number>);
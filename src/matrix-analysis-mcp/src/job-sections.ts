@@ -0,0 +1,237 @@
+/**
+ * Splits a job posting into sections and locates terms in them, so the job
+ * analyzer can weight a requirement by where it is stated: a skill in the
+ * title or the must-have list matters more than one in the nice-to-have list,
+ * and much more than one mentioned in passing under "About us" or "Benefits".
+ * Within a section, earlier mentions count a little more, since postings
+ * tend to list the important items first.
+ *
+ * Sections start at heading lines ("## Requirements", "Your profile:",
+ * "**Nice to have**") or inline labels ("Requirements: Python, SQL").
+ * Text before the first recognized heading, and under headings that are not
+ * recognized, is 'general' and weighted neutrally, so unstructured postings
+ * are weighted as before.
+ *
+ * Each mention also gets a requirement level: from phrasing in its clause
+ * ("must", "5+ years", "a plus") or else from its section. A skill takes the
+ * strictest level of its mentions.
+ *
+ * Headings and phrasing are recognized in English and, for German postings,
+ * in German too: German postings often use English headings or phrases.
+ */
+
+import { DEFAULT_LANGUAGE, Language } from './language.js';
+
+export const JOB_SECTIONS = ['title', 'must_have', 'responsibilities', 'general', 'nice_to_have', 'about_us', 'benefits'] as const;
+export type JobSection = typeof JOB_SECTIONS[number];
+
+export const SECTION_MULTIPLIERS: Record<JobSection, number> = {
+  title: 1.15,
+  must_have: 1.1,
+  responsibilities: 1.0,
+  general: 1.0,
+  nice_to_have: 0.6,
+  about_us: 0.4,
+  benefits: 0.3,
+};
+
+export const REQUIREMENT_LEVELS = ['required', 'preferred', 'bonus'] as const; // Strictest first
+export type RequirementLevel = typeof REQUIREMENT_LEVELS[number];
+
+const SECTION_REQUIREMENT_LEVELS: Record<JobSection, RequirementLevel> = {
+  title: 'required',
+  must_have: 'required',
+  responsibilities: 'preferred',
+  general: 'preferred',
+  nice_to_have: 'bonus',
+  about_us: 'bonus',
+  benefits: 'bonus',
+};
+
+// First match wins: "not required" is a bonus, "required" alone is not
+const REQUIREMENT_CUES: Array<[RequirementLevel, Record<Language, RegExp>]> = [
+  ['bonus', {
+    en: /a plus|nice[- ]to[- ]have|bonus|not required|optional/,
+    de: /ein plus|pluspunkt|keine voraussetzung|kein muss/,
+  }],
+  ['preferred', {
+    en: /preferred|preferably|ideally|desirable|advantage|would be great|familiarity/,
+    de: /wünschenswert|idealerweise|bevorzugt|von vorteil|gerne|erste erfahrung|grundkenntnisse/,
+  }],
+  ['required', {
+    en: /\bmust\b|required|requirement|mandatory|essential|\bneeds?\b|\d+\+?\s*years/,
+    de: /\bmuss\b|\bmüssen\b|zwingend|erforderlich|vorausgesetzt|voraussetzung|mindestens|fundierte|sehr gute|\d+\+?\s*jahre/,
+  }],
+];
+
+// Clauses end at line breaks and at sentence punctuation followed by a space ("node.js" is not an end)
+const CLAUSE_BOUNDARY = /\n|[.;!?](?=\s|$)/g;
+
+// Multiplier at the start of a section; it falls linearly to 2 - this at the end
+const MAX_POSITION_MULTIPLIER = 1.1;
+const MAX_HEADING_LENGTH = 60;
+const MAX_PLAIN_HEADING_WORDS = 5; // Without markup or a colon, longer lines are content
+
+// First match wins: "preferred qualifications" is nice-to-have, "about the role" responsibilities
+const HEADING_PATTERNS: Array<[Exclude<JobSection, 'title'>, Record<Language, RegExp>]> = [
+  ['nice_to_have', {
+    en: /nice[- ]to[- ]have|preferred|bonus|\bplus\b|desirable|ideally|optional/,
+    de: /wünschenswert|von vorteil|pluspunkt|idealerweise|kein muss/,
+  }],
+  ['benefits', {
+    en: /benefit|we offer|perks|why join|why us|compensation/,
+    de: /wir bieten|bieten wir|unser angebot|deine vorteile|ihre vorteile|vergütung/,
+  }],
+  ['responsibilities', {
+    en: /responsibilit|what you('ll| will) do|the role|your role|tasks|duties|your mission|day[- ]to[- ]day/,
+    de: /aufgaben|tätigkeit|verantwortlichkeit|deine rolle|ihre rolle|die rolle|dein job/,
+  }],
+  ['must_have', {
+    en: /requirement|must[- ]have|qualification|what you bring|your profile|who you are|looking for|skills|experience|we expect|essential/,
+    de: /anforderung|profil|qualifikation|voraussetzung|mitbringst|mitbringen|bringst du mit|bringen sie mit|kenntnisse|erfahrung|kompetenzen/,
+  }],
+  ['general', { // Neither required nor incidental
+    en: /tech stack|our stack|technolog/,
+    de: /tech[- ]?stack|technologien/,
+  }],
+  ['about_us', {
+    en: /about|who we are|our company|our story|the company/,
+    de: /über uns|wer wir sind|das unternehmen|unternehmen/,
+  }],
+];
+
+export interface PostingSection {
+  section: JobSection;
+  text: string; // Lower-case
+}
+
+// Where a parameter's strongest mention is, and what that did to its weight
+export interface ParameterSource {
+  section: JobSection;
+  position: number; // 0-1, offset of the mention within its section (0 = start)
+  sectionMultiplier: number;
+  positionMultiplier: number;
+}
+
+export interface TermLocation {
+  mentions: number; // Across all sections
+  source: ParameterSource; // The mention with the highest multiplier
+  requirementLevel: RequirementLevel; // The strictest of all mentions
+}
+
+export function segmentPosting(title: string, description: string, language: Language = DEFAULT_LANGUAGE): PostingSection[] {
+  const sections: PostingSection[] = [{ section: 'title', text: (title ?? '').toLowerCase() }];
+  let current: PostingSection = { section: 'general', text: '' };
+  sections.push(current);
+
+  for (const line of (description ?? '').toLowerCase().split('\n')) {
+    const heading = parseHeading(line, language);
+    if (heading) {
+      current = { section: heading.section, text: heading.text };
+      sections.push(current);
+    } else {
+      current.text += `${line}\n`;
+    }
+  }
+
+  return sections.filter(section => section.text.trim().length > 0);
+}
+
+/**
+ * Finds the mentions of any of `patterns` (regex sources, matched
+ * case-insensitively in Unicode mode) in the sections. Returns null if there
+ * are none.
+ */
+export function locateTerms(sections: PostingSection[], patterns: string[], language: Language = DEFAULT_LANGUAGE): TermLocation | null {
+  let mentions = 0;
+  let best: ParameterSource | null = null;
+  let level: RequirementLevel = 'bonus';
+
+  for (const { section, text } of sections) {
+    for (const pattern of patterns) {
+      const regex = new RegExp(pattern, 'giu');
+      let match;
+      while ((match = regex.exec(text)) !== null) {
+        mentions++;
+        const position = text.length > 1 ? match.index / (text.length - 1) : 0;
+        const source: ParameterSource = {
+          section,
+          position: Math.round(position * 100) / 100,
+          sectionMultiplier: SECTION_MULTIPLIERS[section],
+          positionMultiplier: Math.round((MAX_POSITION_MULTIPLIER - 2 * (MAX_POSITION_MULTIPLIER - 1) * position) * 100) / 100,
+        };
+        if (!best || multiplier(source) > multiplier(best)) {
+          best = source;
+        }
+
+        const mentionLevel = requirementLevel(section, clauseAround(text, match.index), language);
+        if (REQUIREMENT_LEVELS.indexOf(mentionLevel) < REQUIREMENT_LEVELS.indexOf(level)) {
+          level = mentionLevel;
+        }
+      }
+    }
+  }
+
+  return best ? { mentions, source: best, requirementLevel: level } : null;
+}
+
+/**
+ * The requirement level of a clause in `section`: from its phrasing, or else
+ * from the section.
+ */
+export function requirementLevel(section: JobSection, clause: string, language: Language = DEFAULT_LANGUAGE): RequirementLevel {
+  return REQUIREMENT_CUES.find(([, cues]) => matches(cues, clause, language))?.[0] ?? SECTION_REQUIREMENT_LEVELS[section];
+}
+
+// English patterns apply to every language, others only to their own
+function matches(patterns: Record<Language, RegExp>, text: string, language: Language): boolean {
+  return patterns.en.test(text) || (language !== 'en' && patterns[language].test(text));
+}
+
+// The clauses of a text: its lines and sentences, without blank ones
+export function splitClauses(text: string): string[] {
+  return text.split(CLAUSE_BOUNDARY).map(clause => clause.trim()).filter(clause => clause.length > 0);
+}
+
+function clauseAround(text: string, index: number): string {
+  let start = 0;
+  let end = text.length;
+  for (const boundary of text.matchAll(CLAUSE_BOUNDARY)) {
+    if (boundary.index! < index) {
+      start = boundary.index! + 1;
+    } else {
+      end = boundary.index!;
+      break;
+    }
+  }
+  return text.slice(start, end);
+}
+
+export function multiplier(source: ParameterSource): number {
+  return source.sectionMultiplier * source.positionMultiplier;
+}
+
+/**
+ * A recognized section heading on its own line, or an inline label followed
+ * by content ("requirements: python, sql"). Unrecognized markdown headings
+ * start a 'general' section; other lines are content. The heading line stays
+ * part of the section text, so a line mistaken for a heading loses no terms.
+ */
+function parseHeading(line: string, language: Language): { section: JobSection; text: string } | null {
+  const trimmed = line.trim();
+  if (trimmed.length === 0 || /^[•·▪▫*-]\s/.test(trimmed)) return null;
+
+  const markdownHeading = /^#{1,6}\s/.test(trimmed);
+  const emphasized = /^[*_]{1,2}[^*_]+[*_]{1,2}:?$/.test(trimmed);
+  const labelled = /^(?:#{1,6}\s*)?[*_]*([^:*_]{2,60}?)[*_]*\s*:/.exec(trimmed);
+  const label = (labelled ? labelled[1] : trimmed.replace(/^#{1,6}\s*/, '').replace(/^[*_]+|[*_]+$/g, '')).trim();
+
+  if (label.length > MAX_HEADING_LENGTH || (!labelled && /[.!?]$/.test(label))) return null;
+  if (!markdownHeading && !emphasized && !labelled && label.split(/\s+/).length > MAX_PLAIN_HEADING_WORDS) return null;
+
+  const section = HEADING_PATTERNS.find(([, patterns]) => matches(patterns, label, language))?.[0];
+  if (section) {
+    return { section, text: `${trimmed}\n` };
+  }
+  return markdownHeading ? { section: 'general', text: `${trimmed}\n` } : null;
+}
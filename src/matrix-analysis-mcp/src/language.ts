@@ -0,0 +1,34 @@
+/**
+ * Language detection for job postings and CVs. The analyzers support English
+ * and German; anything else is analyzed as English.
+ *
+ * Detection counts common function words of each language. It needs no
+ * dictionary and is reliable on a paragraph of text, which every posting
+ * has; German postings that are mostly English tech terms still have enough
+ * German articles and pronouns to be recognized.
+ */
+
+export const LANGUAGES = ['en', 'de'] as const;
+export type Language = typeof LANGUAGES[number];
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+const STOPWORDS: Record<Language, Set<string>> = {
+  en: new Set(['the', 'and', 'with', 'for', 'you', 'we', 'our', 'your', 'are', 'is', 'of', 'to', 'in', 'on', 'will', 'have', 'be', 'as', 'an', 'a', 'this', 'that']),
+  de: new Set(['der', 'die', 'das', 'und', 'mit', 'für', 'wir', 'sie', 'du', 'dich', 'dein', 'deine', 'ihre', 'unser', 'unsere', 'ist', 'sind', 'ein', 'eine', 'einen', 'von', 'zu', 'im', 'auf', 'bei', 'oder', 'nicht', 'als', 'auch', 'den', 'dem', 'des', 'sowie']),
+};
+
+// A language must have at least this many more stopword hits than English to win
+const MIN_MARGIN = 2;
+
+export function detectLanguage(text: string): Language {
+  const words = (text ?? '').toLowerCase().match(/[\p{L}]+/gu) ?? [];
+  const hits = { en: 0, de: 0 };
+
+  for (const word of words) {
+    for (const language of LANGUAGES) {
+      if (STOPWORDS[language].has(word)) hits[language]++;
+    }
+  }
+
+  return hits.de >= hits.en + MIN_MARGIN ? 'de' : DEFAULT_LANGUAGE;
+}
@@ -1,5 +1,15 @@
 import { JobAnalyzer, JobAnalysis } from './job-analyzer.js';
 import { CVAnalyzer, CVAnalysis } from './cv-analyzer.js';
+import { SkillTaxonomy } from './skill-taxonomy.js';
+import { DEFAULT_MATCH_MODE, MatchMode, PartialCredit, SkillGraph } from './skill-graph.js';
+import { GAP_THRESHOLD, KNOCKOUT_FACTOR, ParameterMatch, WeightProfile, isHardGap, knockoutFactor, weightedMatchScore } from './weight-profile.js';
+import { RequirementCheck, checkRequirements } from './requirements.js';
+import { TermPreferences, TermsFit, evaluateTerms } from './employment-terms.js';
+import { JobFacts, PreferenceFit, PreferenceProfile, evaluatePreferences } from './preference-profile.js';
+import { RecencyDecay } from './skill-recency.js';
+
+// Parameters describing the job rather than the candidate: scored by the preference fit, not the skills score
+const PREFERENCE_CATEGORIES = ['location', 'company'];
 
 export interface JobMatrix {
   matrixId: string;
@@ -38,22 +48,24 @@ export interface MatchResult {
     soft: number;
   };
   strengths: string[]; // Areas where CV strongly matches job
-  gaps: string[]; // Areas where CV lacks job requirements
+  gaps: string[]; // Areas where CV lacks job requirements: hard gaps first, then soft ones
+  hardGaps: string[]; // Required parameters and typed requirements the CV lacks; each costs a knockout penalty
+  softGaps: string[]; // Important preferred or bonus parameters the CV lacks
+  knockoutPenalty: number; // Factor the overall score was multiplied by for hard gaps (1 = none)
+  requirementChecks: RequirementCheck[]; // Typed job requirements (years, degree, certifications, languages) against the CV
   recommendations: string[]; // Suggestions for CV optimization
+  termsFit?: TermsFit; // Employment terms against the term preferences, if any were given
+  preferenceFit?: PreferenceFit; // Location, industry and company size against the preference profile, if one was given
   details: {
-    parameterMatches: Array<{
-      parameter: string;
-      jobWeight: number;
-      cvStrength: number;
-      matchScore: number;
-    }>;
+    parameterMatches: ParameterMatch[];
   };
 }
 
 export interface ComprehensiveMatch {
   cvId: string;
   totalJobs: number;
-  matches: MatchResult[];
+  matches: MatchResult[]; // Jobs that pass the term and preference filters
+  filteredOut: Array<{ jobId: string; jobTitle: string; company: string; failedFilters: string[] }>;
   summary: {
     averageScore: number;
     bestMatch: MatchResult;
@@ -61,26 +73,39 @@ export interface ComprehensiveMatch {
     commonGaps: string[];
     recommendations: string[];
   };
+  weightProfile?: { profileId: string; version: number }; // Profile applied to the overall scores
+  matchMode: MatchMode;
+  termPreferences?: TermPreferences;
+  preferenceProfile?: string; // Profile the preference fits were evaluated against
   generatedAt: string;
 }
 
 export class MatrixGenerator {
   private jobAnalyzer: JobAnalyzer;
   private cvAnalyzer: CVAnalyzer;
+  private skillGraph: SkillGraph;
 
-  constructor() {
-    this.jobAnalyzer = new JobAnalyzer();
-    this.cvAnalyzer = new CVAnalyzer();
+  constructor(taxonomy: SkillTaxonomy) {
+    this.jobAnalyzer = new JobAnalyzer(taxonomy);
+    this.cvAnalyzer = new CVAnalyzer(taxonomy);
+    this.skillGraph = new SkillGraph(taxonomy);
   }
 
-  async generateJobMatrix(jobs: any[]): Promise<JobMatrix> {
+  async generateJobMatrix(jobs: any[], preferenceProfile?: PreferenceProfile): Promise<JobMatrix> {
     // Analyze all jobs
     const jobAnalyses: JobAnalysis[] = [];
     for (const job of jobs) {
-      const analysis = await this.jobAnalyzer.analyzeJob(job);
+      const analysis = await this.jobAnalyzer.analyzeJob(job, preferenceProfile);
       jobAnalyses.push(analysis);
     }
 
+    return this.buildJobMatrix(jobAnalyses);
+  }
+
+  /**
+   * Builds the jobs x parameters matrix from jobs that are already analyzed.
+   */
+  buildJobMatrix(jobAnalyses: JobAnalysis[]): JobMatrix {
     // Extract all unique parameters
     const allParameters = new Set<string>();
     jobAnalyses.forEach(job => {
@@ -125,8 +150,8 @@ export class MatrixGenerator {
     };
   }
 
-  async generateCVMatrix(cvContent: string, cvId: string): Promise<CVMatrix> {
-    const cvAnalysis = await this.cvAnalyzer.analyzeCV(cvContent);
+  async generateCVMatrix(cvContent: string, cvId: string, recencyDecay?: RecencyDecay): Promise<CVMatrix> {
+    const cvAnalysis = await this.cvAnalyzer.analyzeCV(cvContent, recencyDecay);
     cvAnalysis.cvId = cvId;
     
     // Extract parameters and their strengths
@@ -152,26 +177,75 @@ export class MatrixGenerator {
    * Methodology:
    * 1. For each job, computes parameter-by-parameter match scores
    * 2. Aggregates scores by category (technical, leadership, domain, soft skills)
-   * 3. Identifies strengths (CV overqualified) and gaps (CV underqualified)
-   * 4. Generates targeted recommendations for improvement
+   * 3. Identifies strengths (CV overqualified) and gaps (CV underqualified);
+   *    missing required parameters are hard gaps and knock the overall score
+   *    down (see knockoutFactor), missing preferred and bonus ones soft gaps
+   * 4. Compares the job's typed requirements (years overall and per skill,
+   *    degree, certifications, languages) with the CV's qualifications; unmet
+   *    required ones are hard gaps too
+   * 5. Generates targeted recommendations for improvement
    * 
+   * With a weight profile, step 1's job weights are scaled by the profile's
+   * category and parameter multipliers before they are aggregated. In the
+   * 'graph' match mode, step 1 also credits related CV skills (see
+   * scoreParameters).
+   *
+   * With term preferences, jobs whose employment terms fail a hard filter are
+   * listed in `filteredOut` instead of `matches`, and the others get a
+   * `termsFit`; its score takes the preferences' `weight` share of the
+   * overall score.
+   *
+   * With a preference profile, jobs failing a hard preference (excluded
+   * company or industry, remote tolerance, salary floor) are filtered out
+   * too, and the others get a `preferenceFit`. It is reported next to the
+   * skills fit and does not change the overall score; location and company
+   * parameters never enter it (see scoreParameters).
+   *
    * @param jobMatrix - Matrix containing analyzed job requirements and weights
    * @param cvMatrix - Matrix containing CV skills and strength levels
+   * @param weightProfile - Calibrated weight profile to apply (optional)
+   * @param matchMode - 'exact' name matching or 'graph' partial credit
+   * @param termPreferences - Hard filters and preference curves for employment terms (optional)
+   * @param preferenceProfile - The user's location, industry, company and salary preferences (optional)
    * @returns Comprehensive match analysis with scores, recommendations, and insights
    */
-  async calculateMatch(jobMatrix: JobMatrix, cvMatrix: CVMatrix): Promise<ComprehensiveMatch> {
+  async calculateMatch(
+    jobMatrix: JobMatrix,
+    cvMatrix: CVMatrix,
+    weightProfile?: WeightProfile,
+    matchMode: MatchMode = DEFAULT_MATCH_MODE,
+    termPreferences?: TermPreferences,
+    preferenceProfile?: PreferenceProfile
+  ): Promise<ComprehensiveMatch> {
     const matches: MatchResult[] = [];
+    const filteredOut: ComprehensiveMatch['filteredOut'] = [];
 
     for (let jobIndex = 0; jobIndex < jobMatrix.jobs.length; jobIndex++) {
       const job = jobMatrix.jobs[jobIndex];
-      const jobWeights = jobMatrix.weightMatrix[jobIndex];
+
+      // Matrices generated before employment terms were extracted have none: every term is unknown
+      const termsFit = termPreferences ? evaluateTerms(job.terms ?? {}, termPreferences) : undefined;
+      const preferenceFit = preferenceProfile ? evaluatePreferences(this.jobFacts(job), preferenceProfile) : undefined;
+      const failedFilters = [...termsFit?.failedFilters ?? [], ...preferenceFit?.failedFilters ?? []];
+      if (failedFilters.length > 0) {
+        filteredOut.push({ jobId: job.jobId || job.title, jobTitle: job.title, company: job.company, failedFilters });
+        continue;
+      }
       
       const matchResult = this.calculateJobCVMatch(
         job,
-        jobWeights,
-        jobMatrix.parameters,
-        cvMatrix
+        this.scoreParameters(jobMatrix, jobIndex, cvMatrix, matchMode),
+        cvMatrix,
+        weightProfile
       );
+
+      if (termsFit) {
+        matchResult.termsFit = termsFit;
+        if (termsFit.score !== null) {
+          matchResult.overallScore = (1 - termsFit.weight) * matchResult.overallScore + termsFit.weight * termsFit.score;
+        }
+      }
+      if (preferenceFit) matchResult.preferenceFit = preferenceFit;
       
       matches.push(matchResult);
     }
@@ -180,7 +254,7 @@ export class MatrixGenerator {
     matches.sort((a, b) => b.overallScore - a.overallScore);
 
     // Calculate summary statistics
-    const averageScore = matches.reduce((sum, match) => sum + match.overallScore, 0) / matches.length;
+    const averageScore = matches.length > 0 ? matches.reduce((sum, match) => sum + match.overallScore, 0) / matches.length : 0;
     const bestMatch = matches[0];
     
     // Identify top skills (skills that consistently score well)
@@ -196,6 +270,7 @@ export class MatrixGenerator {
       cvId: cvMatrix.cvAnalysis.cvId,
       totalJobs: jobMatrix.jobs.length,
       matches,
+      filteredOut,
       summary: {
         averageScore,
         bestMatch,
@@ -203,26 +278,116 @@ export class MatrixGenerator {
         commonGaps,
         recommendations
       },
+      ...(weightProfile ? { weightProfile: { profileId: weightProfile.profileId, version: weightProfile.version } } : {}),
+      matchMode,
+      ...(termPreferences ? { termPreferences } : {}),
+      ...(preferenceProfile ? { preferenceProfile: preferenceProfile.profileId } : {}),
       generatedAt: new Date().toISOString()
     };
   }
 
+  /**
+   * Scores every parameter the job at `jobIndex` asks for against the CV.
+   * Used for matching and as the features of weight calibration.
+   *
+   * In the 'exact' mode a parameter is matched by name only. In the 'graph'
+   * mode, a related CV skill stands in when it gives more than the exact
+   * match: its strength times the similarity along the skill graph, with the
+   * path recorded in `partialCredit`.
+   *
+   * Location and company parameters are left out: they say nothing about
+   * the CV, and the preference fit scores them instead. Where the CV analysis
+   * knows when the matched skill was used, `cvUsage` tells current from
+   * historic expertise.
+   */
+  scoreParameters(jobMatrix: JobMatrix, jobIndex: number, cvMatrix: CVMatrix, matchMode: MatchMode = DEFAULT_MATCH_MODE): ParameterMatch[] {
+    const job = jobMatrix.jobs[jobIndex];
+    const jobWeights = jobMatrix.weightMatrix[jobIndex];
+    const parameterMatches: ParameterMatch[] = [];
+    const cvStrengths = new Map(cvMatrix.parameters.map((name, i) => [name, cvMatrix.strengthVector[i]]));
+    const cvUsages = new Map(cvMatrix.cvAnalysis.parameters.map(p => [p.name, p.usage]));
+
+    for (let i = 0; i < jobMatrix.parameters.length; i++) {
+      const parameter = jobMatrix.parameters[i];
+      const jobWeight = jobWeights[i];
+      
+      if (jobWeight === 0) continue; // Skip parameters not relevant to this job
+
+      const jobParam = job.parameters.find(p => p.name === parameter);
+      if (jobParam && PREFERENCE_CATEGORIES.includes(jobParam.category)) continue;
+      
+      // Find corresponding CV strength
+      const cvParamIndex = cvMatrix.parameters.indexOf(parameter);
+      let cvStrength = cvParamIndex >= 0 ? cvMatrix.strengthVector[cvParamIndex] : 0;
+      
+      let partialCredit: PartialCredit | undefined;
+      if (matchMode === 'graph') {
+        const credit = this.skillGraph.bestCredit(parameter, cvStrengths);
+        if (credit && credit.cvStrength * credit.similarity > cvStrength) {
+          partialCredit = credit;
+          cvStrength = credit.cvStrength * credit.similarity;
+        }
+      }
+      
+      const cvUsage = cvStrength > 0 ? cvUsages.get(partialCredit?.cvParameter ?? parameter) : undefined;
+      parameterMatches.push({
+        parameter,
+        category: jobParam?.category ?? 'unknown',
+        jobWeight,
+        cvStrength,
+        // Calculate match score (considering both job weight and CV strength)
+        matchScore: this.calculateParameterMatch(jobWeight, cvStrength),
+        ...(partialCredit ? { partialCredit } : {}),
+        ...(jobParam?.requirementLevel ? { requirementLevel: jobParam.requirementLevel } : {}),
+        ...(cvUsage ? { cvUsage } : {})
+      });
+    }
+
+    return parameterMatches;
+  }
+
+  /**
+   * Compares the job's typed requirements with the CV's qualifications. Each
+   * unmet required one multiplies the overall score by KNOCKOUT_FACTOR, except
+   * years of a skill that is missing altogether, which is already a hard gap.
+   * Used for matching and by weight calibration, so a profile is fitted to
+   * the scores it is applied to.
+   */
+  checkJobRequirements(job: JobAnalysis, parameterMatches: ParameterMatch[], cvMatrix: CVMatrix): {
+    requirementChecks: RequirementCheck[];
+    unmetRequirements: RequirementCheck[];
+    requirementKnockout: number;
+  } {
+    // Matrices generated before typed requirements existed have none
+    const cv = cvMatrix.cvAnalysis;
+    const requirementChecks = job.requirements && cv.qualifications
+      ? checkRequirements(job.requirements, cv.qualifications, cv.totalExperience)
+      : [];
+    const missingSkills = new Set(parameterMatches.filter(pm => isHardGap(pm)).map(pm => pm.parameter));
+    const unmetRequirements = requirementChecks.filter(check =>
+      check.status === 'unmet' && check.requirementLevel === 'required'
+      && !(check.kind === 'skill_years' && missingSkills.has(check.subject)));
+
+    return { requirementChecks, unmetRequirements, requirementKnockout: KNOCKOUT_FACTOR ** unmetRequirements.length };
+  }
+
+  // Matrices generated before location and company size were kept have them as parameters only
+  private jobFacts(job: JobAnalysis): JobFacts {
+    return {
+      company: job.company,
+      location: job.location ?? job.parameters.find(p => p.category === 'location')?.value,
+      companySize: job.companySize,
+      industries: job.parameters.filter(p => p.category === 'domain').map(p => p.name),
+      terms: job.terms ?? {}
+    };
+  }
+
   private calculateJobCVMatch(
     job: JobAnalysis,
-    jobWeights: number[],
-    jobParameters: string[],
-    cvMatrix: CVMatrix
+    parameterMatches: ParameterMatch[],
+    cvMatrix: CVMatrix,
+    weightProfile?: WeightProfile
   ): MatchResult {
-    const parameterMatches: Array<{
-      parameter: string;
-      jobWeight: number;
-      cvStrength: number;
-      matchScore: number;
-    }> = [];
-
-    let totalWeightedScore = 0;
-    let totalWeight = 0;
-    
     const categoryScores = {
       technical: 0,
       leadership: 0,
@@ -237,44 +402,19 @@ export class MatrixGenerator {
       soft: 0
     };
 
-    // Calculate match for each parameter
-    for (let i = 0; i < jobParameters.length; i++) {
-      const parameter = jobParameters[i];
-      const jobWeight = jobWeights[i];
-      
-      if (jobWeight === 0) continue; // Skip parameters not relevant to this job
-      
-      // Find corresponding CV strength
-      const cvParamIndex = cvMatrix.parameters.indexOf(parameter);
-      const cvStrength = cvParamIndex >= 0 ? cvMatrix.strengthVector[cvParamIndex] : 0;
-      
-      // Calculate match score (considering both job weight and CV strength)
-      const matchScore = this.calculateParameterMatch(jobWeight, cvStrength);
-      
-      parameterMatches.push({
-        parameter,
-        jobWeight,
-        cvStrength,
-        matchScore
-      });
-      
-      // Accumulate weighted score
-      totalWeightedScore += matchScore * jobWeight;
-      totalWeight += jobWeight;
-      
-      // Accumulate category scores
-      const jobParam = job.parameters.find(p => p.name === parameter);
-      if (jobParam) {
-        const category = jobParam.category as keyof typeof categoryScores;
-        if (categoryScores.hasOwnProperty(category)) {
-          categoryScores[category] += matchScore;
-          categoryCounts[category]++;
-        }
+    // Accumulate category scores
+    for (const { category, matchScore } of parameterMatches) {
+      const key = category as keyof typeof categoryScores;
+      if (categoryScores.hasOwnProperty(key)) {
+        categoryScores[key] += matchScore;
+        categoryCounts[key]++;
       }
     }
 
-    // Calculate overall score
-    const overallScore = totalWeight > 0 ? totalWeightedScore / totalWeight : 0;
+    const { requirementChecks, unmetRequirements, requirementKnockout } = this.checkJobRequirements(job, parameterMatches, cvMatrix);
+
+    // Calculate overall score, weighted by the profile's multipliers if one is selected
+    const overallScore = weightedMatchScore(parameterMatches, weightProfile?.multipliers) * requirementKnockout;
     
     // Calculate average category scores
     Object.keys(categoryScores).forEach(category => {
@@ -289,14 +429,23 @@ export class MatrixGenerator {
       .map(pm => pm.parameter)
       .slice(0, 5);
 
-    const gaps = parameterMatches
-      .filter(pm => pm.matchScore < 0.3 && pm.jobWeight > 0.6)
+    const byWeight = [...parameterMatches].sort((a, b) => b.jobWeight - a.jobWeight);
+    const hardGaps = [
+      ...byWeight.filter(pm => isHardGap(pm)).map(pm => pm.parameter),
+      ...unmetRequirements.map(check => this.describeRequirement(check))
+    ];
+
+    const softGaps = byWeight
+      .filter(pm => !isHardGap(pm) && pm.matchScore < GAP_THRESHOLD && pm.jobWeight > 0.6)
       .map(pm => pm.parameter)
       .slice(0, 5);
 
+    const gaps = [...hardGaps, ...softGaps].slice(0, 5);
+
     // Generate recommendations for this specific job
     const recommendations = this.generateJobSpecificRecommendations(
       parameterMatches,
+      requirementChecks,
       job,
       cvMatrix.cvAnalysis
     );
@@ -309,6 +458,10 @@ export class MatrixGenerator {
       categoryScores,
       strengths,
       gaps,
+      hardGaps,
+      softGaps,
+      knockoutPenalty: knockoutFactor(parameterMatches) * requirementKnockout,
+      requirementChecks,
       recommendations,
       details: {
         parameterMatches: parameterMatches
@@ -434,6 +587,14 @@ export class MatrixGenerator {
       );
     }
     
+    // Gaps in the employment timeline; matrices generated before it was kept have none
+    const gaps = cvMatrix.cvAnalysis.timeline?.gaps ?? [];
+    if (gaps.length > 0) {
+      recommendations.push(
+        `Explain the gaps in your employment history: ${gaps.map(gap => `${gap.start} to ${gap.ongoing ? 'now' : gap.end} (${gap.months} months)`).join(', ')}`
+      );
+    }
+    
     // Score-based recommendations
     const avgScore = matches.reduce((sum, match) => sum + match.overallScore, 0) / matches.length;
     if (avgScore < 0.6) {
@@ -446,15 +607,49 @@ export class MatrixGenerator {
   }
 
   private generateJobSpecificRecommendations(
-    parameterMatches: Array<{parameter: string, jobWeight: number, cvStrength: number, matchScore: number}>,
+    parameterMatches: ParameterMatch[],
+    requirementChecks: RequirementCheck[],
     job: JobAnalysis,
     cvAnalysis: CVAnalysis
   ): string[] {
     const recommendations: string[] = [];
     
+    // Missing required skills can rule the CV out regardless of the rest
+    const hardGaps = parameterMatches.filter(pm => isHardGap(pm));
+    if (hardGaps.length > 0) {
+      recommendations.push(
+        `Required for this role but missing from the CV: ${hardGaps.map(g => g.parameter).join(', ')}`
+      );
+    }
+
+    // Required years, degrees, certifications or languages the CV falls short of or does not state
+    const unmet = requirementChecks.filter(c => c.requirementLevel === 'required' && c.status === 'unmet');
+    if (unmet.length > 0) {
+      recommendations.push(
+        `Below the stated requirements: ${unmet.map(c => `${this.describeRequirement(c)} (CV: ${c.demonstrated ?? 'none'})`).join(', ')}`
+      );
+    }
+    const unstated = requirementChecks.filter(c => c.requirementLevel === 'required' && c.status === 'unknown'
+      && !hardGaps.some(g => g.parameter === c.subject));
+    if (unstated.length > 0) {
+      recommendations.push(
+        `State explicitly in the CV if you meet: ${unstated.map(c => this.describeRequirement(c)).join(', ')}`
+      );
+    }
+    
+    // Matches resting on skills the CV shows only in past roles
+    const historic = parameterMatches
+      .filter(pm => pm.cvUsage?.recency === 'historic' && pm.jobWeight > 0.5 && pm.matchScore >= GAP_THRESHOLD)
+      .sort((a, b) => b.jobWeight - a.jobWeight);
+    if (historic.length > 0) {
+      recommendations.push(
+        `Historic expertise only, not used recently: ${historic.map(pm => `${pm.parameter} (last used ${pm.cvUsage!.lastUsed})`).join(', ')} - show recent use if you have it`
+      );
+    }
+    
     // Find high-value gaps (high job weight, low CV strength)
     const highValueGaps = parameterMatches
-      .filter(pm => pm.jobWeight > 0.7 && pm.cvStrength < 0.3)
+      .filter(pm => pm.jobWeight > 0.7 && pm.cvStrength < 0.3 && !isHardGap(pm))
       .sort((a, b) => b.jobWeight - a.jobWeight)
       .slice(0, 3);
     
@@ -477,6 +672,16 @@ export class MatrixGenerator {
     return recommendations.slice(0, 3);
   }
 
+  // e.g. "kubernetes: 5+ years", "degree: master in computer_science", "german: C1"
+  private describeRequirement(check: RequirementCheck): string {
+    switch (check.kind) {
+      case 'experience': return `experience: ${check.required}`;
+      case 'degree': return `degree: ${check.required}`;
+      case 'certification': return `certification: ${check.subject}`;
+      default: return `${check.subject}: ${check.required}`;
+    }
+  }
+
   private calculateAverageJobSeniority(matches: MatchResult[]): string {
     // This would need to access job data - simplified for now
     return 'senior';
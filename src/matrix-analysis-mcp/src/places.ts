@@ -0,0 +1,102 @@
+/**
+ * A small gazetteer for location preferences: cities with coordinates, so a
+ * job's location can be compared with a preferred place and radius, and
+ * countries, which match any of their cities. Names are matched
+ * case-insensitively as whole words, in English and the local language.
+ *
+ * Places missing here can be given with coordinates in a preference profile;
+ * a job location naming no place here counts as unknown.
+ */
+
+export interface Place {
+  name: string;
+  country: string; // Country name as listed in COUNTRIES
+  latitude?: number; // Unset for countries
+  longitude?: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const COUNTRIES: Record<string, string[]> = {
+  'Germany': ['germany', 'deutschland', 'de'],
+  'Austria': ['austria', 'österreich'],
+  'Switzerland': ['switzerland', 'schweiz', 'suisse'],
+  'Netherlands': ['netherlands', 'niederlande', 'holland'],
+  'United Kingdom': ['united kingdom', 'uk', 'england', 'großbritannien'],
+  'France': ['france', 'frankreich'],
+  'Spain': ['spain', 'spanien', 'españa'],
+  'Portugal': ['portugal'],
+  'Poland': ['poland', 'polen'],
+  'Czechia': ['czechia', 'czech republic', 'tschechien'],
+  'Denmark': ['denmark', 'dänemark'],
+  'Sweden': ['sweden', 'schweden'],
+  'Ireland': ['ireland', 'irland'],
+};
+
+// [name, aliases, country, latitude, longitude]
+const CITIES: Array<[string, string[], string, number, number]> = [
+  ['Berlin', [], 'Germany', 52.52, 13.405],
+  ['Potsdam', [], 'Germany', 52.391, 13.064],
+  ['Hamburg', [], 'Germany', 53.551, 9.993],
+  ['Munich', ['münchen', 'muenchen'], 'Germany', 48.137, 11.575],
+  ['Cologne', ['köln', 'koeln'], 'Germany', 50.938, 6.96],
+  ['Frankfurt', ['frankfurt am main'], 'Germany', 50.11, 8.682],
+  ['Stuttgart', [], 'Germany', 48.776, 9.183],
+  ['Düsseldorf', ['dusseldorf', 'duesseldorf'], 'Germany', 51.228, 6.773],
+  ['Dortmund', [], 'Germany', 51.514, 7.468],
+  ['Essen', [], 'Germany', 51.456, 7.012],
+  ['Bonn', [], 'Germany', 50.737, 7.098],
+  ['Leipzig', [], 'Germany', 51.34, 12.375],
+  ['Dresden', [], 'Germany', 51.05, 13.738],
+  ['Hanover', ['hannover'], 'Germany', 52.375, 9.732],
+  ['Nuremberg', ['nürnberg', 'nuernberg'], 'Germany', 49.452, 11.077],
+  ['Bremen', [], 'Germany', 53.079, 8.802],
+  ['Karlsruhe', [], 'Germany', 49.007, 8.404],
+  ['Mannheim', [], 'Germany', 49.488, 8.466],
+  ['Vienna', ['wien'], 'Austria', 48.208, 16.373],
+  ['Zurich', ['zürich'], 'Switzerland', 47.377, 8.541],
+  ['Amsterdam', [], 'Netherlands', 52.368, 4.904],
+  ['London', [], 'United Kingdom', 51.507, -0.128],
+  ['Paris', [], 'France', 48.857, 2.352],
+  ['Barcelona', [], 'Spain', 41.385, 2.173],
+  ['Madrid', [], 'Spain', 40.417, -3.704],
+  ['Lisbon', ['lissabon', 'lisboa'], 'Portugal', 38.722, -9.139],
+  ['Warsaw', ['warschau', 'warszawa'], 'Poland', 52.23, 21.012],
+  ['Prague', ['prag', 'praha'], 'Czechia', 50.076, 14.438],
+  ['Copenhagen', ['kopenhagen', 'københavn'], 'Denmark', 55.676, 12.568],
+  ['Stockholm', [], 'Sweden', 59.329, 18.069],
+  ['Dublin', [], 'Ireland', 53.35, -6.26],
+];
+
+/**
+ * The first city named in `text`, else the first country, or null.
+ */
+export function findPlace(text: string): Place | null {
+  const lower = (text ?? '').toLowerCase();
+
+  for (const [name, aliases, country, latitude, longitude] of CITIES) {
+    if ([name.toLowerCase(), ...aliases].some(term => names(lower, term))) {
+      return { name, country, latitude, longitude };
+    }
+  }
+  for (const [country, aliases] of Object.entries(COUNTRIES)) {
+    if (aliases.some(term => names(lower, term))) {
+      return { name: country, country };
+    }
+  }
+  return null;
+}
+
+// Great-circle distance
+export function distanceKm(from: Pick<Place, 'latitude' | 'longitude'>, to: Pick<Place, 'latitude' | 'longitude'>): number {
+  const radians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = radians(to.latitude! - from.latitude!);
+  const dLon = radians(to.longitude! - from.longitude!);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(radians(from.latitude!)) * Math.cos(radians(to.latitude!)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+function names(text: string, term: string): boolean {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\p{L}\\p{N}])`, 'u').test(text);
+}
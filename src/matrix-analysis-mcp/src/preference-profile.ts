@@ -0,0 +1,366 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CURRENCIES, Currency, EmploymentTerms } from './employment-terms.js';
+import { PROFILE_ID_PATTERN } from './weight-profile.js';
+import { Place, distanceKm, findPlace } from './places.js';
+
+/**
+ * Per-user preference profiles: where a user wants to work, how much remote
+ * work they need, which industries and company sizes they prefer, their
+ * salary floor and companies they will not apply to.
+ *
+ * Preferences describe the user, not the candidate, so they do not enter the
+ * skills score. JobAnalyzer weights a job's location and company_size
+ * parameters by them, and MatrixGenerator reports a separate preference fit
+ * next to the skills fit and filters out jobs failing a hard preference
+ * (see evaluatePreferences).
+ *
+ * Profiles are stored as data/preference-profiles/<profileId>.json; saving a
+ * profile replaces it.
+ */
+
+export const PREFERENCE_PROFILES_DIR_NAME = 'preference-profiles';
+
+// Weight of the location and company_size parameters when no profile says otherwise
+export const NEUTRAL_PREFERENCE_WEIGHT = 0.5;
+
+export const DEFAULT_RADIUS_KM = 50;
+
+export const REMOTE_TOLERANCES = ['remote_only', 'hybrid', 'any'] as const;
+export type RemoteTolerance = typeof REMOTE_TOLERANCES[number];
+
+// Ordered by size: a neighbouring size gets half the utility of a preferred one
+export const COMPANY_SIZES = ['startup', 'small', 'medium', 'large', 'enterprise'] as const;
+export type CompanySize = typeof COMPANY_SIZES[number];
+
+// Upper bound of the employee count per size; enterprise is anything above
+const COMPANY_SIZE_LIMITS: Array<[CompanySize, number]> = [
+  ['startup', 50],
+  ['small', 250],
+  ['medium', 1000],
+  ['large', 10000],
+];
+
+const EMPLOYEE_COUNT = /(\d{1,3}(?:[.,]\d{3})+|\d+)\s*\+?\s*(?:employees|staff|mitarbeiter(?:innen|\*innen|:innen)?|mitarbeitende|beschäftigte|colleagues|kolleg(?:en|innen|\*innen))/iu;
+
+// Checked in order when no employee count is stated
+const COMPANY_SIZE_CUES: Array<[CompanySize, RegExp]> = [
+  ['enterprise', /konzern|fortune 500|\bdax\b|multinational|global corporation|weltweit führend/iu],
+  ['startup', /start-?up|early[- ]stage|seed[- ]stage|series a\b|gründerteam|founding team/iu],
+  ['small', /scale-?up|series [bc]\b/iu],
+  ['medium', /mittelstand|mittelständisch|mid-?sized|medium-sized/iu],
+];
+
+// Fields of a profile and its nested objects; others are rejected rather than stored
+const PROFILE_KEYS = ['profileId', 'updatedAt', 'locations', 'remoteTolerance', 'maxOfficeDaysPerWeek', 'industries', 'companySizes', 'salaryFloor', 'excludedCompanies'];
+const LOCATION_KEYS = ['place', 'radiusKm', 'latitude', 'longitude'];
+const INDUSTRIES_KEYS = ['preferred', 'excluded'];
+const SALARY_FLOOR_KEYS = ['annual', 'currency'];
+
+export interface PreferredLocation {
+  place: string; // City or country; see places.ts
+  radiusKm?: number; // Around a city (default DEFAULT_RADIUS_KM); a country covers all of it
+  latitude?: number; // For places missing from places.ts
+  longitude?: number;
+}
+
+export interface PreferenceProfile {
+  profileId: string;
+  updatedAt?: string; // Set on save
+  locations?: PreferredLocation[];
+  remoteTolerance?: RemoteTolerance; // Least remote work mode accepted (default any)
+  maxOfficeDaysPerWeek?: number;
+  industries?: {
+    preferred?: string[]; // Domain skill IDs from the taxonomy
+    excluded?: string[];
+  };
+  companySizes?: CompanySize[]; // Preferred sizes; any if empty
+  salaryFloor?: { annual: number; currency: Currency };
+  excludedCompanies?: string[]; // Matched case-insensitively within the company name
+}
+
+// What a posting states that preferences apply to
+export interface JobFacts {
+  company: string;
+  location?: string;
+  companySize?: CompanySize;
+  industries: string[]; // Domain skill IDs the posting mentions
+  terms: EmploymentTerms;
+}
+
+export interface PreferenceFit {
+  profileId: string;
+  passesFilters: boolean;
+  failedFilters: string[]; // e.g. "company: Acme GmbH is excluded"
+  unknown: string[]; // Preferences the posting states nothing about
+  scores: Partial<Record<'location' | 'industry' | 'companySize', number>>; // Utility 0-1 per scored preference
+  score: number | null; // Mean of scores; null if nothing preferred is stated
+}
+
+export class PreferenceProfileStore {
+  private readonly profilesDir: string;
+
+  constructor(dataDir: string) {
+    this.profilesDir = path.join(dataDir, PREFERENCE_PROFILES_DIR_NAME);
+  }
+
+  async list(): Promise<PreferenceProfile[]> {
+    const profiles: PreferenceProfile[] = [];
+
+    for (const name of (await this.readDir(this.profilesDir)).sort()) {
+      const profileId = /^(.+)\.json$/.exec(name)?.[1];
+      if (!profileId || !PROFILE_ID_PATTERN.test(profileId)) continue;
+
+      profiles.push(await this.load(profileId));
+    }
+
+    return profiles;
+  }
+
+  /**
+   * @throws Error if the profile does not exist
+   */
+  async load(profileId: string): Promise<PreferenceProfile> {
+    assertPreferenceProfileId(profileId);
+
+    try {
+      return JSON.parse(await fs.readFile(this.profilePath(profileId), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`Preference profile not found: ${profileId}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces the stored profile. The file is written next to its target and
+   * renamed into place, so a concurrent load never reads half a profile.
+   */
+  async save(profile: PreferenceProfile): Promise<PreferenceProfile> {
+    assertPreferenceProfileId(profile.profileId);
+    await fs.mkdir(this.profilesDir, { recursive: true });
+
+    const saved: PreferenceProfile = { ...profile, updatedAt: new Date().toISOString() };
+    const target = this.profilePath(profile.profileId);
+    const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(saved, null, 2), 'utf-8');
+    await fs.rename(temp, target);
+    return saved;
+  }
+
+  private profilePath(profileId: string): string {
+    return path.join(this.profilesDir, `${profileId}.json`);
+  }
+
+  private async readDir(dir: string): Promise<string[]> {
+    try {
+      return await fs.readdir(dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+}
+
+/**
+ * The company size a posting states, by employee count ("450 Mitarbeitende")
+ * or wording ("startup", "Konzern").
+ */
+export function companySizeOf(text: string): CompanySize | undefined {
+  const count = EMPLOYEE_COUNT.exec(text);
+  if (count) {
+    const employees = Number(count[1].replace(/[.,]/g, ''));
+    return COMPANY_SIZE_LIMITS.find(([, limit]) => employees < limit)?.[0] ?? 'enterprise';
+  }
+  return COMPANY_SIZE_CUES.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+/**
+ * Applies the hard preferences of `profile` to a job (excluded companies and
+ * industries, remote tolerance, office days, salary floor) and scores its
+ * location, industry and company size.
+ *
+ * Location scores 1 for remote jobs and within a preferred radius, falling
+ * to 0 at twice the radius; industry 1 if the posting mentions a preferred
+ * one and 0.3 if it mentions others only; company size 1 for a preferred
+ * size and 0.5 for a neighbouring one. Unstated facts pass the filters and
+ * are listed in `unknown`.
+ */
+export function evaluatePreferences(job: JobFacts, profile: PreferenceProfile): PreferenceFit {
+  const failedFilters: string[] = [];
+  const unknown = new Set<string>();
+  const scores: PreferenceFit['scores'] = {};
+  const { terms } = job;
+
+  const company = (job.company ?? '').toLowerCase();
+  const excludedCompany = (profile.excludedCompanies ?? []).find(name => company.includes(name.toLowerCase()));
+  if (excludedCompany) failedFilters.push(`company: ${job.company} is excluded`);
+
+  const excludedIndustries = job.industries.filter(id => profile.industries?.excluded?.includes(id));
+  if (excludedIndustries.length > 0) failedFilters.push(`industry: ${excludedIndustries.join(', ')} excluded`);
+
+  const tolerance = profile.remoteTolerance ?? 'any';
+  if (tolerance !== 'any') {
+    const accepted = tolerance === 'remote_only' ? ['remote'] : ['remote', 'hybrid'];
+    if (!terms.workMode) unknown.add('workMode');
+    else if (!accepted.includes(terms.workMode)) {
+      failedFilters.push(`workMode: ${terms.workMode} not in ${accepted.join(', ')}`);
+    }
+  }
+  if (profile.maxOfficeDaysPerWeek !== undefined) {
+    if (terms.officeDaysPerWeek === undefined) unknown.add('officeDaysPerWeek');
+    else if (terms.officeDaysPerWeek > profile.maxOfficeDaysPerWeek) {
+      failedFilters.push(`officeDaysPerWeek: ${terms.officeDaysPerWeek} above ${profile.maxOfficeDaysPerWeek}`);
+    }
+  }
+  if (profile.salaryFloor) {
+    const { annual, currency } = profile.salaryFloor;
+    if (terms.salary?.currency !== currency) unknown.add('salary');
+    else if (terms.salary.annualMax < annual) {
+      failedFilters.push(`salary: up to ${terms.salary.annualMax} ${currency} a year, below the floor of ${annual}`);
+    }
+  }
+
+  if (profile.locations?.length) {
+    const location = locationScore(job, profile.locations);
+    if (location === undefined) unknown.add('location');
+    else scores.location = round(location);
+  }
+
+  const preferredIndustries = profile.industries?.preferred ?? [];
+  if (preferredIndustries.length > 0) {
+    if (job.industries.length === 0) unknown.add('industry');
+    else scores.industry = job.industries.some(id => preferredIndustries.includes(id)) ? 1 : 0.3;
+  }
+
+  const preferredSizes = profile.companySizes ?? [];
+  if (preferredSizes.length > 0) {
+    if (!job.companySize) unknown.add('companySize');
+    else {
+      const index = COMPANY_SIZES.indexOf(job.companySize);
+      const distance = Math.min(...preferredSizes.map(size => Math.abs(COMPANY_SIZES.indexOf(size) - index)));
+      scores.companySize = distance === 0 ? 1 : distance === 1 ? 0.5 : 0;
+    }
+  }
+
+  const values = Object.values(scores);
+  return {
+    profileId: profile.profileId,
+    passesFilters: failedFilters.length === 0,
+    failedFilters,
+    unknown: [...unknown],
+    scores,
+    score: values.length > 0 ? round(values.reduce((sum, v) => sum + v, 0) / values.length) : null,
+  };
+}
+
+export function assertPreferenceProfileId(profileId: string): void {
+  if (typeof profileId !== 'string' || !PROFILE_ID_PATTERN.test(profileId)) {
+    throw new Error(`Invalid preference profile ID "${profileId}": use 1-100 lowercase letters, digits and hyphens`);
+  }
+}
+
+/**
+ * Checks a preference profile given as a tool argument against the taxonomy's
+ * industries (domain skill IDs); throws naming every problem, including
+ * fields a profile does not have (a misspelt "remoteTolerence" would
+ * otherwise be stored and silently ignored).
+ */
+export function assertPreferenceProfile(value: unknown, industries: string[]): asserts value is PreferenceProfile {
+  const problems: string[] = [];
+  const profile = value as any;
+  const isNumber = (v: unknown, min: number, max: number) => typeof v === 'number' && v >= min && v <= max;
+  const isList = (v: unknown, valid: (item: any) => boolean) => Array.isArray(v) && v.every(valid);
+  const checkKeys = (object: unknown, known: string[], prefix: string) => {
+    if (typeof object !== 'object' || object === null || Array.isArray(object)) return;
+    for (const key of Object.keys(object).filter(key => !known.includes(key))) {
+      problems.push(`unknown field ${prefix}${key}`);
+    }
+  };
+
+  if (typeof profile !== 'object' || profile === null || Array.isArray(profile)) {
+    throw new Error('preference profile must be an object');
+  }
+  assertPreferenceProfileId(profile.profileId);
+  checkKeys(profile, PROFILE_KEYS, '');
+
+  if (profile.locations !== undefined && !Array.isArray(profile.locations)) {
+    problems.push('locations must be an array');
+  }
+  for (const [i, location] of (Array.isArray(profile.locations) ? profile.locations : []).entries()) {
+    const hasCoordinates = location?.latitude !== undefined || location?.longitude !== undefined;
+    checkKeys(location, LOCATION_KEYS, `locations[${i}].`);
+    if (typeof location?.place !== 'string') {
+      problems.push(`locations[${i}].place must be a string`);
+    } else if (hasCoordinates && !(isNumber(location.latitude, -90, 90) && isNumber(location.longitude, -180, 180))) {
+      problems.push(`locations[${i}] needs both latitude (-90 to 90) and longitude (-180 to 180)`);
+    } else if (!hasCoordinates && !findPlace(location.place)) {
+      problems.push(`locations[${i}].place "${location.place}" is not a known place; give its latitude and longitude`);
+    }
+    if (location?.radiusKm !== undefined && !isNumber(location.radiusKm, 0, Infinity)) {
+      problems.push(`locations[${i}].radiusKm must be a non-negative number`);
+    }
+  }
+
+  if (profile.remoteTolerance !== undefined && !REMOTE_TOLERANCES.includes(profile.remoteTolerance)) {
+    problems.push(`remoteTolerance must be one of ${REMOTE_TOLERANCES.join(', ')}`);
+  }
+  if (profile.maxOfficeDaysPerWeek !== undefined && !isNumber(profile.maxOfficeDaysPerWeek, 0, 7)) {
+    problems.push('maxOfficeDaysPerWeek must be a number in 0-7');
+  }
+  checkKeys(profile.industries, INDUSTRIES_KEYS, 'industries.');
+  for (const key of ['preferred', 'excluded'] as const) {
+    const ids = profile.industries?.[key];
+    if (ids !== undefined && !isList(ids, id => industries.includes(id))) {
+      problems.push(`industries.${key} must be an array of ${industries.join(', ')}`);
+    }
+  }
+  if (profile.companySizes !== undefined && !isList(profile.companySizes, size => COMPANY_SIZES.includes(size))) {
+    problems.push(`companySizes must be an array of ${COMPANY_SIZES.join(', ')}`);
+  }
+  if (profile.salaryFloor !== undefined
+    && !(isNumber(profile.salaryFloor?.annual, 0, Infinity) && CURRENCIES.includes(profile.salaryFloor?.currency))) {
+    problems.push(`salaryFloor must be { annual: non-negative number, currency: ${CURRENCIES.join(' | ')} }`);
+  }
+  checkKeys(profile.salaryFloor, SALARY_FLOOR_KEYS, 'salaryFloor.');
+  if (profile.excludedCompanies !== undefined && !isList(profile.excludedCompanies, name => typeof name === 'string' && name.trim() !== '')) {
+    problems.push('excludedCompanies must be an array of non-empty strings');
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid preference profile: ${problems.join('; ')}`);
+  }
+}
+
+// Best score over the preferred locations; undefined if the job's place cannot be compared
+function locationScore(job: JobFacts, locations: PreferredLocation[]): number | undefined {
+  if (job.terms.workMode === 'remote') return 1;
+
+  const place = findPlace(job.location ?? '');
+  if (!place) return undefined;
+
+  const scores = locations
+    .map(location => placeScore(place, location))
+    .filter((score): score is number => score !== undefined);
+  return scores.length > 0 ? Math.max(...scores) : undefined;
+}
+
+function placeScore(jobPlace: Place, preferred: PreferredLocation): number | undefined {
+  const center: Place | null = preferred.latitude !== undefined
+    ? { name: preferred.place, country: '', latitude: preferred.latitude, longitude: preferred.longitude }
+    : findPlace(preferred.place);
+  if (!center) return undefined;
+
+  if (center.latitude === undefined) return jobPlace.country === center.country ? 1 : 0;
+  if (jobPlace.latitude === undefined) return undefined; // Only the country is known
+
+  const radius = preferred.radiusKm ?? DEFAULT_RADIUS_KM;
+  const beyond = distanceKm(center, jobPlace) - radius;
+  if (beyond <= 0) return 1;
+  return radius > 0 ? Math.max(0, 1 - beyond / radius) : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,111 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { assertSafeEntityId } from './entity-id.js';
+import { EntityLocks } from './entity-locks.js';
+
+/**
+ * Read/write access to the project's data/ directory as laid out by
+ * filesystem-mcp (see doc/filesystem-mcp.md): jobs in data/jobs/<jobId>.json,
+ * analysis matrices in data/matrices/<matrixId>.json.
+ *
+ * Only filesystem-mcp's default 'fs' storage backend keeps entities in that
+ * layout, so every access is refused when CV_STORAGE_BACKEND selects another
+ * one. IDs are checked and matrices written under filesystem-mcp's entity ID
+ * rules and entity locks (shared copies of src/common/), so a matrix is never
+ * written while filesystem-mcp holds the same one.
+ */
+
+export const JOBS_SUBDIR = 'jobs';
+export const MATRICES_SUBDIR = 'matrices';
+export const FS_STORAGE_BACKEND = 'fs';
+
+export class ProjectData {
+  private locks: EntityLocks;
+
+  /**
+   * @param storageBackend - filesystem-mcp's CV_STORAGE_BACKEND for this project
+   */
+  constructor(private readonly dataDir: string, lockDir: string, private readonly storageBackend: string = FS_STORAGE_BACKEND) {
+    this.locks = new EntityLocks(lockDir);
+  }
+
+  /**
+   * @throws Error unless filesystem-mcp stores this project's entities as files in data/
+   */
+  assertFsBackend(): void {
+    if (this.storageBackend !== FS_STORAGE_BACKEND) {
+      throw new Error(`CV_STORAGE_BACKEND is "${this.storageBackend}": stored jobs and matrices can only be accessed with the "${FS_STORAGE_BACKEND}" backend`);
+    }
+  }
+
+  /**
+   * @throws Error if the backend is not 'fs', the ID is invalid, the job does not exist or is not valid JSON
+   */
+  async readJob(jobId: string): Promise<any> {
+    this.assertFsBackend();
+    assertSafeEntityId(jobId, 'jobId');
+    const jobPath = path.join(this.dataDir, JOBS_SUBDIR, `${jobId}.json`);
+
+    let content: string;
+    try {
+      content = await fs.readFile(jobPath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`Job not found: ${jobId}`);
+      }
+      throw error;
+    }
+
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Job ${jobId} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Writes a matrix record atomically (temp file + rename) while holding its
+   * 'matrix/<matrixId>' entity lock, replacing any matrix with the same ID.
+   *
+   * @throws Error if the backend is not 'fs' or the ID is invalid
+   */
+  async writeMatrix(matrixId: string, record: any): Promise<string> {
+    this.assertFsBackend();
+    assertSafeEntityId(matrixId, 'matrixId');
+    const matricesDir = path.join(this.dataDir, MATRICES_SUBDIR);
+    await fs.mkdir(matricesDir, { recursive: true });
+
+    const matrixPath = path.join(matricesDir, `${matrixId}.json`);
+    await this.locks.withLocks([`matrix/${matrixId}`], async () => {
+      const temp = `${matrixPath}.${process.pid}.${Date.now()}.tmp`;
+      try {
+        await fs.writeFile(temp, JSON.stringify(record, null, 2), 'utf-8');
+        await fs.rename(temp, matrixPath);
+      } catch (error) {
+        await fs.rm(temp, { force: true });
+        throw error;
+      }
+    });
+    return matrixPath;
+  }
+}
+
+/**
+ * Runs `fn` over `items` with at most `limit` calls in flight. Results keep
+ * the order of `items`; a rejected call rejects the whole run, so callers
+ * that want per-item failures catch inside `fn`.
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
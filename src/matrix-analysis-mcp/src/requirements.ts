@@ -0,0 +1,413 @@
+import { SkillTaxonomy } from './skill-taxonomy.js';
+import { PostingSection, REQUIREMENT_LEVELS, RequirementLevel, requirementLevel, splitClauses } from './job-sections.js';
+import { DEFAULT_LANGUAGE, Language } from './language.js';
+
+/**
+ * Typed requirements of a job posting and the matching qualifications of a
+ * CV: years of experience overall and per skill, degree, certifications and
+ * spoken languages. Both sides are read clause by clause with the same
+ * tables, so a requirement and a qualification can be compared directly
+ * ("5 years of Python required, 8 demonstrated").
+ *
+ * A clause with a number of years and skills ("5+ years of Python and Go")
+ * sets the minimum years of each skill; a clause with years and no skills
+ * ("at least 3 years of professional experience") sets the overall minimum.
+ * Posting requirements take the requirement level of their clause (see
+ * job-sections.ts); "or equivalent experience" makes a degree preferred.
+ */
+
+export const DEGREE_LEVELS = ['apprenticeship', 'bachelor', 'master', 'phd'] as const; // Lowest first
+export type DegreeLevel = typeof DEGREE_LEVELS[number];
+
+export const CEFR_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'] as const; // Lowest first
+export type CefrLevel = typeof CEFR_LEVELS[number];
+
+// A spoken language named without a level is assumed to be needed at this one
+const DEFAULT_CEFR_LEVEL: CefrLevel = 'B2';
+
+// Sections describing the company, not the candidate: "20 years on the market", "German classes"
+const INCIDENTAL_SECTIONS = ['about_us', 'benefits'];
+
+// Skills in these categories can have a minimum number of years
+const YEARS_CATEGORIES = ['technical', 'domain', 'leadership'] as const;
+
+// "5+ years", "3-5 years", "mindestens 5 Jahre"; the first number is the minimum
+const YEARS_PATTERN = /\b(\d{1,2})(?:\s*[-–]\s*\d{1,2})?\s*\+?\s*(?:years?|yrs|jahren?)\b/iu;
+const EXPERIENCE_PATTERN = /experience|erfahrung/iu;
+
+// Highest first, so a clause naming several degrees yields the lowest one last
+const DEGREE_PATTERNS: Array<[DegreeLevel, RegExp]> = [
+  ['phd', /\bph\.?\s?d\b|doctorate|doctoral|\bdoktor|promoviert/iu],
+  ['master', /(?<!scrum\s)\bmaster(?:'?s)?\b|\bm\.?\s?sc\b|\bdiplom\b/iu],
+  ['bachelor', /\bbachelor(?:'?s)?\b|\bb\.?\s?sc\b/iu],
+  ['apprenticeship', /apprenticeship|vocational training|\bausbildung\b|berufsausbildung/iu],
+];
+// A degree of unnamed level counts as a bachelor
+const GENERIC_DEGREE = /\bdegree\b|\buniversity\b|hochschulabschluss|hochschulstudium|\bstudium\b/iu;
+
+const DEGREE_FIELDS: Array<[string, RegExp]> = [
+  ['computer_science', /computer science|informatik|\bcs\b/iu],
+  ['business_informatics', /business informatics|information systems|wirtschaftsinformatik/iu],
+  ['engineering', /engineering|ingenieur|elektrotechnik/iu],
+  ['mathematics', /mathematics|\bmaths?\b|mathematik/iu],
+  ['physics', /physics|physik/iu],
+  ['business', /business administration|economics|betriebswirtschaft|\bbwl\b|wirtschaftswissenschaft/iu],
+];
+
+// "or equivalent experience", "vergleichbare Qualifikation": the degree is not a hard requirement
+const DEGREE_ALTERNATIVE = /or equivalent|or comparable|or similar|equivalent (?:practical )?experience|vergleichbare|gleichwertige/iu;
+// "CS or a related field": any field is close enough
+const RELATED_FIELD = /related field|related discipline|similar field|vergleichbare[rn]? (?:studiengang|fachrichtung)|ähnliche[rn]? (?:studiengang|fachrichtung)|\bmint\b|\bstem\b/iu;
+
+const CERTIFICATIONS: Array<[string, RegExp]> = [
+  ['aws_solutions_architect', /aws (?:certified )?solutions? architect|\baws[- ]sa\b/iu],
+  ['aws_developer', /aws (?:certified )?developer/iu],
+  ['aws_devops_engineer', /aws (?:certified )?devops engineer/iu],
+  ['azure_administrator', /azure administrator|\baz-104\b/iu],
+  ['azure_solutions_architect', /azure solutions? architect|\baz-305\b/iu],
+  ['gcp_cloud_architect', /(?:google )?professional cloud architect/iu],
+  ['cka', /\bcka\b|certified kubernetes administrator/iu],
+  ['ckad', /\bckad\b|certified kubernetes application developer/iu],
+  ['pmp', /\bpmp\b|project management professional/iu],
+  ['prince2', /\bprince\s?2\b/iu],
+  ['scrum_master', /\b(?:csm|psm\s?i{0,3})\b|certified scrum ?master|professional scrum ?master/iu],
+  ['itil', /\bitil\b/iu],
+  ['cissp', /\bcissp\b/iu],
+  ['togaf', /\btogaf\b/iu],
+];
+
+// Name in English and German, with German inflections and "Deutschkenntnisse"
+const SPOKEN_LANGUAGES: Array<[string, RegExp]> = [
+  ['english', /\benglish\b|\benglisch(?:e|en|er|es)?(?:kenntnisse)?\b/iu],
+  ['german', /\bgerman\b|\bdeutsch(?:e|en|er|es)?(?:kenntnisse)?\b/iu],
+  ['french', /\bfrench\b|\bfranzösisch(?:e|en|er|es)?(?:kenntnisse)?\b/iu],
+  ['spanish', /\bspanish\b|\bspanisch(?:e|en|er|es)?(?:kenntnisse)?\b/iu],
+  ['italian', /\bitalian\b|\bitalienisch(?:e|en|er|es)?(?:kenntnisse)?\b/iu],
+  ['dutch', /\bdutch\b|\bniederländisch(?:e|en|er|es)?(?:kenntnisse)?\b/iu],
+  ['polish', /\bpolish\b|\bpolnisch(?:e|en|er|es)?(?:kenntnisse)?\b/iu],
+];
+
+// Level words, first match wins; an explicit CEFR level ("C1") beats them all
+const LANGUAGE_LEVEL_WORDS: Array<[CefrLevel, RegExp]> = [
+  ['C2', /native|mother tongue|muttersprache|muttersprachlich|bilingual|zweisprachig/iu],
+  ['C1', /fluent|fluency|business[- ]level|proficient|excellent|very good|fließend|verhandlungssicher|sehr gut/iu],
+  ['B2', /\bgood\b|working knowledge|professional working|\bgut(?:e|en)?\b/iu],
+  ['A2', /basic|elementary|grundkenntnisse|grundlegend/iu],
+];
+
+// Without a level word, a language name must come with one of these to be a language skill ("German company" is not)
+const LANGUAGE_CONTEXT = /language|spoken|written|speak|sprache|sprachkenntnisse|kenntnisse|\b[abc][12]\b/iu;
+
+export interface YearsRequirement {
+  minYears: number;
+  requirementLevel: RequirementLevel;
+  text: string; // The clause it was read from
+}
+
+export interface SkillYearsRequirement extends YearsRequirement {
+  skill: string; // Canonical skill ID
+}
+
+export interface DegreeRequirement {
+  level: DegreeLevel; // Minimum
+  fields: string[]; // Accepted fields; empty if any field will do
+  requirementLevel: RequirementLevel;
+  text: string;
+}
+
+export interface CertificationRequirement {
+  certification: string;
+  requirementLevel: RequirementLevel;
+  text: string;
+}
+
+export interface LanguageRequirement {
+  language: string;
+  level: CefrLevel; // Minimum
+  requirementLevel: RequirementLevel;
+  text: string;
+}
+
+export interface StructuredRequirements {
+  experience?: YearsRequirement; // Overall; the highest minimum stated
+  skillYears: SkillYearsRequirement[];
+  degree?: DegreeRequirement; // The strictest degree clause
+  certifications: CertificationRequirement[];
+  languages: LanguageRequirement[];
+}
+
+export interface Qualifications {
+  skillYears: Record<string, number>; // Skill ID -> years stated in the CV
+  degrees: Array<{ level: DegreeLevel; field?: string }>;
+  certifications: string[];
+  languages: Array<{ language: string; level: CefrLevel }>;
+}
+
+export const REQUIREMENT_CHECK_KINDS = ['experience', 'skill_years', 'degree', 'certification', 'language'] as const;
+export type RequirementCheckKind = typeof REQUIREMENT_CHECK_KINDS[number];
+
+/**
+ * One typed requirement compared with the CV. 'unknown' means the CV states
+ * nothing of the kind (no years for the skill, no degree, no languages), which
+ * says more about the CV than the candidate, so it is not counted against it.
+ */
+export interface RequirementCheck {
+  kind: RequirementCheckKind;
+  subject: string; // Skill, degree level, certification or language
+  required: string; // e.g. "5+ years", "master in computer_science", "C1"
+  demonstrated: string | null; // e.g. "8 years"; null if the CV states nothing of the kind
+  status: 'met' | 'unmet' | 'unknown';
+  requirementLevel: RequirementLevel;
+}
+
+export class RequirementExtractor {
+  constructor(private readonly taxonomy: SkillTaxonomy) {}
+
+  /**
+   * The typed requirements stated in a segmented posting.
+   */
+  fromPosting(sections: PostingSection[], language: Language = DEFAULT_LANGUAGE): StructuredRequirements {
+    const requirements: StructuredRequirements = { skillYears: [], certifications: [], languages: [] };
+
+    for (const { section, text } of sections) {
+      if (INCIDENTAL_SECTIONS.includes(section)) continue;
+
+      for (const clause of splitClauses(text)) {
+        const level = requirementLevel(section, clause, language);
+
+        const years = this.yearsIn(clause, language);
+        for (const [skill, minYears] of years?.skills ?? []) {
+          const existing = requirements.skillYears.find(r => r.skill === skill);
+          if (!existing || minYears > existing.minYears) {
+            requirements.skillYears = requirements.skillYears.filter(r => r.skill !== skill);
+            requirements.skillYears.push({ skill, minYears, requirementLevel: level, text: clause });
+          }
+        }
+        if (years && years.skills.size === 0 && EXPERIENCE_PATTERN.test(clause)) {
+          const current = requirements.experience;
+          if (!current || stricter(level, years.minYears, current.requirementLevel, current.minYears)) {
+            requirements.experience = { minYears: years.minYears, requirementLevel: level, text: clause };
+          }
+        }
+
+        const degree = degreeIn(clause);
+        if (degree) {
+          const degreeLevel: RequirementLevel = level === 'required' && DEGREE_ALTERNATIVE.test(clause) ? 'preferred' : level;
+          const current = requirements.degree;
+          if (!current || stricter(degreeLevel, DEGREE_LEVELS.indexOf(degree.level), current.requirementLevel, DEGREE_LEVELS.indexOf(current.level))) {
+            requirements.degree = {
+              level: degree.level,
+              fields: RELATED_FIELD.test(clause) ? [] : degree.fields,
+              requirementLevel: degreeLevel,
+              text: clause,
+            };
+          }
+        }
+
+        for (const certification of certificationsIn(clause)) {
+          if (!requirements.certifications.some(r => r.certification === certification)) {
+            requirements.certifications.push({ certification, requirementLevel: level, text: clause });
+          }
+        }
+
+        for (const spoken of languagesIn(clause)) {
+          if (!requirements.languages.some(r => r.language === spoken.language)) {
+            requirements.languages.push({ ...spoken, requirementLevel: level, text: clause });
+          }
+        }
+      }
+    }
+
+    requirements.skillYears.sort((a, b) => b.minYears - a.minYears);
+    return requirements;
+  }
+
+  /**
+   * The qualifications stated in a CV, read line by line ("M.Sc. Computer
+   * Science" is one line but two clauses). Years per skill are the highest
+   * stated next to the skill in a sentence or given in `knownYears` (from
+   * the CV analysis, which counts the roles mentioning the skill).
+   */
+  fromCV(cvContent: string, language: Language = DEFAULT_LANGUAGE, knownYears: Record<string, number> = {}): Qualifications {
+    const qualifications: Qualifications = { skillYears: {}, degrees: [], certifications: [], languages: [] };
+
+    for (const clause of (cvContent ?? '').toLowerCase().split('\n').filter(line => line.trim().length > 0)) {
+      for (const sentence of splitClauses(clause)) {
+        for (const [skill, years] of this.yearsIn(sentence, language)?.skills ?? []) {
+          qualifications.skillYears[skill] = Math.max(qualifications.skillYears[skill] ?? 0, years);
+        }
+      }
+
+      const degree = degreeIn(clause, true);
+      if (degree) {
+        qualifications.degrees.push({ level: degree.level, ...(degree.fields.length > 0 ? { field: degree.fields[0] } : {}) });
+      }
+
+      for (const certification of certificationsIn(clause)) {
+        if (!qualifications.certifications.includes(certification)) qualifications.certifications.push(certification);
+      }
+
+      for (const spoken of languagesIn(clause)) {
+        const existing = qualifications.languages.find(l => l.language === spoken.language);
+        if (!existing) {
+          qualifications.languages.push(spoken);
+        } else if (CEFR_LEVELS.indexOf(spoken.level) > CEFR_LEVELS.indexOf(existing.level)) {
+          existing.level = spoken.level;
+        }
+      }
+    }
+
+    for (const [skill, years] of Object.entries(knownYears)) {
+      qualifications.skillYears[skill] = Math.max(qualifications.skillYears[skill] ?? 0, years);
+    }
+    return qualifications;
+  }
+
+  /**
+   * The years stated in a clause: the first one as the clause's minimum, and
+   * for each skill the clause names, the years stated closest before it (or
+   * else after it): "5+ years of Python and 3+ years of Go", "Python (8 years)".
+   */
+  private yearsIn(clause: string, language: Language): { minYears: number; skills: Map<string, number> } | null {
+    const stated = [...clause.matchAll(new RegExp(YEARS_PATTERN.source, 'giu'))]
+      .map(match => ({ index: match.index!, years: parseInt(match[1]) }));
+    if (stated.length === 0) return null;
+
+    const skills = new Map<string, number>();
+    for (const skill of YEARS_CATEGORIES.flatMap(category => this.taxonomy.skills(category))) {
+      const index = Math.min(...this.taxonomy.patterns(skill.id, language)
+        .map(pattern => clause.search(new RegExp(pattern, 'iu')))
+        .filter(i => i >= 0));
+      if (!Number.isFinite(index)) continue;
+
+      const before = stated.filter(s => s.index < index);
+      skills.set(skill.id, (before.length > 0 ? before[before.length - 1] : stated[0]).years);
+    }
+
+    return { minYears: stated[0].years, skills };
+  }
+}
+
+/**
+ * Compares a posting's typed requirements with a CV's qualifications.
+ * `totalExperience` is the CV's total years of experience (0 if unknown).
+ */
+export function checkRequirements(requirements: StructuredRequirements, qualifications: Qualifications, totalExperience: number): RequirementCheck[] {
+  const checks: RequirementCheck[] = [];
+
+  if (requirements.experience) {
+    const { minYears, requirementLevel } = requirements.experience;
+    checks.push({
+      kind: 'experience',
+      subject: 'total',
+      required: `${minYears}+ years`,
+      demonstrated: totalExperience > 0 ? `${totalExperience} years` : null,
+      status: totalExperience > 0 ? (totalExperience >= minYears ? 'met' : 'unmet') : 'unknown',
+      requirementLevel,
+    });
+  }
+
+  for (const { skill, minYears, requirementLevel } of requirements.skillYears) {
+    const years = qualifications.skillYears[skill];
+    checks.push({
+      kind: 'skill_years',
+      subject: skill,
+      required: `${minYears}+ years`,
+      demonstrated: years !== undefined ? `${years} years` : null,
+      status: years !== undefined ? (years >= minYears ? 'met' : 'unmet') : 'unknown',
+      requirementLevel,
+    });
+  }
+
+  if (requirements.degree) {
+    const { level, fields, requirementLevel } = requirements.degree;
+    const best = [...qualifications.degrees]
+      .sort((a, b) => DEGREE_LEVELS.indexOf(b.level) - DEGREE_LEVELS.indexOf(a.level))
+      .find(degree => fields.length === 0 || !degree.field || fields.includes(degree.field))
+      ?? qualifications.degrees[0];
+    const fieldOk = !best?.field || fields.length === 0 || fields.includes(best.field);
+    checks.push({
+      kind: 'degree',
+      subject: level,
+      required: fields.length > 0 ? `${level} in ${fields.join(' or ')}` : level,
+      demonstrated: best ? (best.field ? `${best.level} in ${best.field}` : best.level) : null,
+      status: best ? (DEGREE_LEVELS.indexOf(best.level) >= DEGREE_LEVELS.indexOf(level) && fieldOk ? 'met' : 'unmet') : 'unknown',
+      requirementLevel,
+    });
+  }
+
+  for (const { certification, requirementLevel } of requirements.certifications) {
+    const held = qualifications.certifications.includes(certification);
+    checks.push({
+      kind: 'certification',
+      subject: certification,
+      required: certification,
+      demonstrated: held ? certification : null,
+      status: held ? 'met' : (qualifications.certifications.length > 0 ? 'unmet' : 'unknown'),
+      requirementLevel,
+    });
+  }
+
+  for (const { language, level, requirementLevel } of requirements.languages) {
+    const spoken = qualifications.languages.find(l => l.language === language);
+    checks.push({
+      kind: 'language',
+      subject: language,
+      required: level,
+      demonstrated: spoken?.level ?? null,
+      status: spoken
+        ? (CEFR_LEVELS.indexOf(spoken.level) >= CEFR_LEVELS.indexOf(level) ? 'met' : 'unmet')
+        : (qualifications.languages.length > 0 ? 'unmet' : 'unknown'),
+      requirementLevel,
+    });
+  }
+
+  return checks;
+}
+
+// The lowest degree a clause names (a posting's minimum) or the highest (a CV's), with the fields it names
+function degreeIn(clause: string, highest = false): { level: DegreeLevel; fields: string[] } | null {
+  const levels = DEGREE_PATTERNS.filter(([, pattern]) => pattern.test(clause)).map(([level]) => level);
+  if (levels.length === 0 && GENERIC_DEGREE.test(clause)) levels.push('bachelor');
+  if (levels.length === 0) return null;
+
+  return {
+    level: highest ? levels[0] : levels[levels.length - 1],
+    fields: DEGREE_FIELDS.filter(([, pattern]) => pattern.test(clause)).map(([field]) => field),
+  };
+}
+
+function certificationsIn(clause: string): string[] {
+  return CERTIFICATIONS.filter(([, pattern]) => pattern.test(clause)).map(([certification]) => certification);
+}
+
+/**
+ * The spoken languages a clause names with their levels. Each language takes
+ * the level stated in its own part of the clause ("fluent German and good
+ * English", "Deutsch: C1, Englisch: B2"), else the level stated anywhere in it.
+ */
+function languagesIn(clause: string): Array<{ language: string; level: CefrLevel }> {
+  const clauseLevel = levelIn(clause);
+  if (!clauseLevel && !LANGUAGE_CONTEXT.test(clause)) return [];
+
+  const found: Array<{ language: string; level: CefrLevel }> = [];
+  for (const part of clause.split(/,|;|\/|\band\b|\bund\b|\bsowie\b/iu)) {
+    for (const [language, pattern] of SPOKEN_LANGUAGES) {
+      if (pattern.test(part) && !found.some(f => f.language === language)) {
+        found.push({ language, level: levelIn(part) ?? clauseLevel ?? DEFAULT_CEFR_LEVEL });
+      }
+    }
+  }
+  return found;
+}
+
+function levelIn(text: string): CefrLevel | undefined {
+  const cefr = /\b([abc][12])\b/iu.exec(text)?.[1].toUpperCase() as CefrLevel | undefined;
+  return cefr ?? LANGUAGE_LEVEL_WORDS.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+// Whether a requirement is stricter than the current one: a stricter level, then a higher minimum
+function stricter(level: RequirementLevel, minimum: number, currentLevel: RequirementLevel, currentMinimum: number): boolean {
+  if (level !== currentLevel) return REQUIREMENT_LEVELS.indexOf(level) < REQUIREMENT_LEVELS.indexOf(currentLevel);
+  return minimum > currentMinimum;
+}
@@ -0,0 +1,130 @@
+import { SkillTaxonomy } from './skill-taxonomy.js';
+
+/**
+ * Partial credit between related skills, for the 'graph' match mode.
+ *
+ * The skill graph is the taxonomy's is-a hierarchy plus its related-to
+ * edges. Each edge says how far a CV skill stands in for a job skill
+ * (similarity 0-1); along a path the similarities multiply, so credit fades
+ * with distance. A job skill the CV lacks is credited from the CV skill with
+ * the highest strength × similarity, within MAX_HOPS edges and down to
+ * MIN_SIMILARITY.
+ *
+ * The graph is read from the taxonomy on every lookup, so it follows
+ * reload_taxonomy.
+ */
+
+export const MATCH_MODES = ['exact', 'graph'] as const;
+export type MatchMode = typeof MATCH_MODES[number];
+export const DEFAULT_MATCH_MODE: MatchMode = 'exact';
+
+const MAX_HOPS = 3;
+const MIN_SIMILARITY = 0.3;
+
+export interface PartialCredit {
+  cvParameter: string; // CV skill the credit comes from
+  cvStrength: number; // Its strength in the CV, before similarity
+  similarity: number;
+  path: string[]; // From the CV skill to the job skill
+  explanation: string; // e.g. "postgresql → sql, 0.8"
+}
+
+export function assertMatchMode(value: unknown): asserts value is MatchMode {
+  if (!MATCH_MODES.includes(value as MatchMode)) {
+    throw new Error(`Invalid matchMode "${value}": use ${MATCH_MODES.join(' or ')}`);
+  }
+}
+
+export class SkillGraph {
+  constructor(private readonly taxonomy: SkillTaxonomy) {}
+
+  /**
+   * The best credit the CV's skills give `jobSkill`, or null if no CV skill
+   * is close enough. Strengths are the CV's parameter strengths by name.
+   */
+  bestCredit(jobSkill: string, cvStrengths: Map<string, number>): PartialCredit | null {
+    let best: PartialCredit | null = null;
+
+    for (const [skill, { similarity, path }] of this.similarSkills(jobSkill)) {
+      const cvStrength = cvStrengths.get(skill) ?? 0;
+      if (cvStrength === 0) continue;
+      if (!best || cvStrength * similarity > best.cvStrength * best.similarity) {
+        best = {
+          cvParameter: skill,
+          cvStrength,
+          similarity,
+          path,
+          explanation: `${path.join(' → ')}, ${similarity}`,
+        };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Skills that stand in for `jobSkill`, with the similarity of the best
+   * path to it. Best-first search: the most similar unvisited skill is
+   * expanded next, so each skill is reached by its best path first.
+   */
+  similarSkills(jobSkill: string): Map<string, { similarity: number; path: string[] }> {
+    const found = new Map<string, { similarity: number; path: string[] }>();
+    if (!this.taxonomy.get(jobSkill)) return found;
+
+    // Paths are built from the job skill outwards and reversed when recorded
+    const frontier = [{ skill: jobSkill, similarity: 1, path: [jobSkill] }];
+    const visited = new Set<string>();
+
+    while (frontier.length > 0) {
+      frontier.sort((a, b) => b.similarity - a.similarity);
+      const current = frontier.shift()!;
+      if (visited.has(current.skill)) continue;
+      visited.add(current.skill);
+
+      if (current.skill !== jobSkill) {
+        found.set(current.skill, { similarity: round(current.similarity), path: [...current.path].reverse() });
+      }
+      if (current.path.length > MAX_HOPS) continue;
+
+      for (const [next, edge] of this.creditEdges(current.skill)) {
+        const similarity = current.similarity * edge;
+        if (!visited.has(next) && similarity >= MIN_SIMILARITY) {
+          frontier.push({ skill: next, similarity, path: [...current.path, next] });
+        }
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Skills whose presence in a CV partly satisfies a requirement for `id`,
+   * with the similarity of that single step.
+   */
+  private creditEdges(id: string): Map<string, number> {
+    const { specificToGeneral, generalToSpecific } = this.taxonomy.isASimilarity;
+    const edges = new Map<string, number>();
+    const add = (skill: string, similarity: number) => {
+      edges.set(skill, Math.max(edges.get(skill) ?? 0, similarity));
+    };
+
+    // A CV with a child skill covers most of a parent requirement, and vice versa less so
+    this.taxonomy.children(id).forEach(child => add(child, specificToGeneral));
+    this.taxonomy.get(id)?.parents.forEach(parent => add(parent, generalToSpecific));
+
+    // Related-to edges are symmetric; either side may declare them
+    for (const [other, similarity] of Object.entries(this.taxonomy.get(id)?.related ?? {})) {
+      add(other, similarity);
+    }
+    for (const skill of this.taxonomy.skills()) {
+      const similarity = skill.related[id];
+      if (similarity !== undefined) add(skill.id, similarity);
+    }
+
+    return edges;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,101 @@
+import { Role, toYears, unionMonths } from './cv-timeline.js';
+
+/**
+ * When and how long a CV skill was used, from the roles of the employment
+ * timeline that mention it, and how much its strength decays with the time
+ * since it was last used.
+ *
+ * A skill used in the ongoing role, or within CURRENT_WITHIN_MONTHS, is
+ * current expertise; otherwise it is historic and its strength is scaled by
+ * floor + (1 - floor) × 0.5^(years since last use / halfLifeYears). Skills no
+ * role mentions (listed only under skills, say) have no usage and do not
+ * decay.
+ */
+
+export interface RecencyDecay {
+  halfLifeYears: number; // Years after last use at which the decaying part of the strength is halved
+  floor: number; // Share of the strength kept however long ago (0-1)
+}
+
+export const DEFAULT_RECENCY_DECAY: RecencyDecay = { halfLifeYears: 4, floor: 0.4 };
+
+// Used this recently, a skill is still current
+export const CURRENT_WITHIN_MONTHS = 12;
+
+// Strength added per year of use, up to MAX_DURATION_BONUS
+const DURATION_BONUS_PER_YEAR = 0.04;
+const MAX_DURATION_BONUS = 0.2;
+
+export type Recency = 'current' | 'historic';
+
+export interface SkillUsage {
+  firstUsed: string; // YYYY-MM, start of the earliest role mentioning the skill
+  lastUsed: string; // YYYY-MM, end of the latest one
+  years: number; // Union of those roles
+  roles: number;
+  recency: Recency;
+  recencyFactor: number; // Multiplier applied to the strength (1 for current skills)
+  explanation: string; // e.g. "current: 8.4 years since 2018-06", "historic: 5 years, last used 2016-12"
+}
+
+export function skillUsage(roles: Role[], now: Date, decay: RecencyDecay): SkillUsage | undefined {
+  if (roles.length === 0) return undefined;
+
+  const firstUsed = roles.map(role => role.start).sort()[0];
+  const lastUsed = roles.map(role => role.end).sort().reverse()[0];
+  const years = toYears(unionMonths(roles));
+  const [year, month] = lastUsed.split('-').map(Number);
+  const monthsSince = Math.max(0, now.getFullYear() * 12 + now.getMonth() - (year * 12 + month - 1));
+  const recency: Recency = roles.some(role => role.current) || monthsSince <= CURRENT_WITHIN_MONTHS ? 'current' : 'historic';
+  const recencyFactor = recency === 'current'
+    ? 1
+    : round(decay.floor + (1 - decay.floor) * 0.5 ** (monthsSince / 12 / decay.halfLifeYears));
+
+  return {
+    firstUsed,
+    lastUsed,
+    years,
+    roles: roles.length,
+    recency,
+    recencyFactor,
+    explanation: recency === 'current'
+      ? `current: ${years} years since ${firstUsed}`
+      : `historic: ${years} years, last used ${lastUsed}`,
+  };
+}
+
+/**
+ * A strength from mentions adjusted for usage: a bonus for the years of use,
+ * capped at `max`, then the recency decay.
+ */
+export function usageStrength(strength: number, usage: SkillUsage | undefined, max: number): number {
+  if (!usage) return strength;
+  return Math.min(max, strength + Math.min(MAX_DURATION_BONUS, usage.years * DURATION_BONUS_PER_YEAR)) * usage.recencyFactor;
+}
+
+/**
+ * Checks a recency decay given as a tool argument, where either field may be
+ * left to its default; throws naming every problem.
+ */
+export function assertRecencyDecay(value: unknown): asserts value is Partial<RecencyDecay> {
+  const problems: string[] = [];
+  const decay = value as any;
+
+  if (typeof decay !== 'object' || decay === null || Array.isArray(decay)) {
+    throw new Error('recencyDecay must be an object');
+  }
+  if (decay.halfLifeYears !== undefined && !(typeof decay.halfLifeYears === 'number' && decay.halfLifeYears > 0)) {
+    problems.push('halfLifeYears must be a positive number');
+  }
+  if (decay.floor !== undefined && !(typeof decay.floor === 'number' && decay.floor >= 0 && decay.floor <= 1)) {
+    problems.push('floor must be a number in 0-1');
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid recencyDecay: ${problems.join('; ')}`);
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,321 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { DEFAULT_LANGUAGE, LANGUAGES, Language } from './language.js';
+
+/**
+ * The skill taxonomy shared by JobAnalyzer and CVAnalyzer, loaded from
+ * conf/skill-taxonomy.json (or the file named by CV_TAXONOMY_FILE).
+ *
+ * Every skill has a canonical ID, which is the parameter name both analyzers
+ * emit, so a job and a CV always name a skill the same way. A skill is
+ * recognized by its ID (underscores read as spaces) and its aliases, matched
+ * case-insensitively as whole words; in German text also by its German
+ * aliases ("kommunikation" is communication). Guarded aliases are names that
+ * are also common words ("go"); they only count next to a word that makes
+ * them a skill ("3 years Go", "Go developer"). Parent skills form an is-a hierarchy
+ * ("django" is a "python" skill): a CV that shows a child skill is also
+ * evidence for its ancestors. Related skills ("mysql" and "postgresql") carry
+ * a similarity weight; together with the hierarchy they form the skill graph
+ * used for partial credit (see skill-graph.ts).
+ *
+ * The file is validated as a whole; an invalid file is never half-applied.
+ */
+
+export const TAXONOMY_FILE_ENV_VAR = 'CV_TAXONOMY_FILE';
+export const DEFAULT_TAXONOMY_FILE = path.resolve(__dirname, '../../../conf/skill-taxonomy.json');
+
+export const SKILL_CATEGORIES = ['technical', 'leadership', 'domain', 'soft'] as const;
+export type SkillCategory = typeof SKILL_CATEGORIES[number];
+
+const TAXONOMY_FORMAT_VERSION = 1;
+
+// Context that makes a guarded alias a skill: before it, or after it
+const GUARD_BEFORE = String.raw`(?:\b(?:years?|yrs|jahren?)\s+(?:of\s+|in\s+|mit\s+)?|\b(?:experience|expertise|erfahrung|kenntnisse)\s+(?:in|with|mit)\s+)`;
+const GUARD_AFTER = String.raw`(?:[\s-]*(?:developers?|engineers?|programmers?|programming|language|experience|expertise|skills|entwickler\p{L}*|programmierung|kenntnisse|erfahrung)(?![\p{L}\p{N}_])|\s*\(\s*\d{1,2}\+?\s*(?:years?|yrs|jahren?)\b)`;
+
+// Similarity of is-a edges when the file does not set them
+const DEFAULT_IS_A_SIMILARITY: IsASimilarity = { specificToGeneral: 0.8, generalToSpecific: 0.5 };
+
+export interface SkillDefinition {
+  id: string;
+  category: SkillCategory;
+  weight: number; // 0-1 base importance when a job asks for the skill
+  aliases: string[];
+  guardedAliases: string[]; // Also common words; matched only in a skill context (see guardedTermPattern)
+  localizedAliases: Partial<Record<Language, string[]>>; // Extra aliases used in text of that language
+  parents: string[];
+  related: Record<string, number>; // Related skill ID -> similarity (0-1], symmetric
+}
+
+/**
+ * How much a skill stands in for a parent or child skill: a CV with
+ * "postgresql" covers most of a "sql" requirement (specific to general),
+ * a CV with "sql" only part of a "postgresql" requirement (general to specific).
+ */
+export interface IsASimilarity {
+  specificToGeneral: number;
+  generalToSpecific: number;
+}
+
+export class TaxonomyValidationError extends Error {
+  constructor(readonly filePath: string, readonly problems: string[]) {
+    super(`Invalid skill taxonomy ${filePath}:\n- ${problems.join('\n- ')}`);
+    this.name = 'TaxonomyValidationError';
+  }
+}
+
+interface TaxonomyData {
+  filePath: string;
+  version: number;
+  loadedAt: string;
+  skills: Map<string, SkillDefinition>;
+  isA: IsASimilarity;
+}
+
+export class SkillTaxonomy {
+  private data: TaxonomyData;
+
+  private constructor(data: TaxonomyData) {
+    this.data = data;
+  }
+
+  /**
+   * @throws TaxonomyValidationError listing every problem in the file
+   */
+  static load(filePath: string = process.env[TAXONOMY_FILE_ENV_VAR] || DEFAULT_TAXONOMY_FILE): SkillTaxonomy {
+    return new SkillTaxonomy(readTaxonomy(filePath));
+  }
+
+  /**
+   * Re-reads the file. If it is invalid, the current taxonomy stays in use
+   * and the error is thrown.
+   */
+  reload(): void {
+    this.data = readTaxonomy(this.data.filePath);
+  }
+
+  get filePath(): string {
+    return this.data.filePath;
+  }
+
+  get version(): number {
+    return this.data.version;
+  }
+
+  get loadedAt(): string {
+    return this.data.loadedAt;
+  }
+
+  skills(category?: SkillCategory): SkillDefinition[] {
+    const skills = [...this.data.skills.values()];
+    return category ? skills.filter(skill => skill.category === category) : skills;
+  }
+
+  get(id: string): SkillDefinition | undefined {
+    return this.data.skills.get(id);
+  }
+
+  get isASimilarity(): IsASimilarity {
+    return this.data.isA;
+  }
+
+  /**
+   * The words that name a skill in text of `language`: its ID with
+   * underscores as spaces, its aliases, then its aliases for the language.
+   * English technical terms are common in other languages, so they always
+   * apply.
+   */
+  terms(id: string, language: Language = DEFAULT_LANGUAGE): string[] {
+    const skill = this.data.skills.get(id);
+    return skill ? [...new Set([id.replace(/_/g, ' '), ...skill.aliases, ...(skill.localizedAliases[language] ?? [])])] : [];
+  }
+
+  /**
+   * Regex sources that find a skill in text of `language`: its terms as
+   * whole words, then its guarded aliases in a skill context. Use with the
+   * 'i' and 'u' flags.
+   */
+  patterns(id: string, language: Language = DEFAULT_LANGUAGE): string[] {
+    return [
+      ...this.terms(id, language).map(termPattern),
+      ...(this.data.skills.get(id)?.guardedAliases ?? []).map(guardedTermPattern),
+    ];
+  }
+
+  children(id: string): string[] {
+    return this.skills().filter(skill => skill.parents.includes(id)).map(skill => skill.id);
+  }
+
+  /**
+   * All skills below `id` in the hierarchy (children, grandchildren, ...).
+   */
+  descendants(id: string): string[] {
+    const found = new Set<string>();
+    const visit = (parent: string) => {
+      for (const skill of this.data.skills.values()) {
+        if (skill.parents.includes(parent) && !found.has(skill.id)) {
+          found.add(skill.id);
+          visit(skill.id);
+        }
+      }
+    };
+    visit(id);
+    return [...found];
+  }
+
+  summary() {
+    return {
+      filePath: this.data.filePath,
+      version: this.data.version,
+      loadedAt: this.data.loadedAt,
+      skills: this.data.skills.size,
+      categories: Object.fromEntries(SKILL_CATEGORIES.map(category => [category, this.skills(category).length])),
+    };
+  }
+}
+
+/**
+ * Regex source that matches `term` as a whole word; use with the 'u' flag.
+ * Lookarounds instead of \b so terms that start or end with punctuation
+ * ("c#", ".net") match too, and on Unicode letters so umlauts count as part
+ * of a word ("bank" is not found in "bankübergreifend").
+ */
+export function termPattern(term: string): string {
+  return `(?<![\\p{L}\\p{N}_])${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\p{L}\\p{N}_])`;
+}
+
+/**
+ * Regex source that matches `term` as a whole word only where it names a
+ * skill: after a number of years or "experience in", or before a word like
+ * "developer", "experience" or "(5 years)". "Go" counts in "3+ years Go" and
+ * "Go developer", not in "go-to-market" or "ready to go".
+ */
+export function guardedTermPattern(term: string): string {
+  const word = termPattern(term);
+  // Not the first part of a compound: "years of go-to-market"
+  return `(?:(?<=${GUARD_BEFORE})${word}(?!-\\p{L})|${word}(?=${GUARD_AFTER}))`;
+}
+
+function readTaxonomy(filePath: string): TaxonomyData {
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new TaxonomyValidationError(filePath, [error instanceof Error ? error.message : String(error)]);
+  }
+
+  const problems: string[] = [];
+  if (raw?.version !== TAXONOMY_FORMAT_VERSION) {
+    problems.push(`version must be ${TAXONOMY_FORMAT_VERSION} (got ${JSON.stringify(raw?.version)})`);
+  }
+  if (typeof raw?.skills !== 'object' || raw.skills === null || Array.isArray(raw.skills)) {
+    problems.push('skills must be an object mapping skill IDs to definitions');
+    throw new TaxonomyValidationError(filePath, problems);
+  }
+
+  const skills = new Map<string, SkillDefinition>();
+  for (const [id, definition] of Object.entries<any>(raw.skills)) {
+    const at = `skills["${id}"]`;
+    if (id.trim() !== id || id.length === 0 || id !== id.toLowerCase()) {
+      problems.push(`${at}: ID must be lower-case without surrounding spaces`);
+    }
+    if (!SKILL_CATEGORIES.includes(definition?.category)) {
+      problems.push(`${at}.category must be one of ${SKILL_CATEGORIES.join(', ')} (got ${JSON.stringify(definition?.category)})`);
+    }
+    if (typeof definition?.weight !== 'number' || definition.weight < 0 || definition.weight > 1) {
+      problems.push(`${at}.weight must be a number in 0-1 (got ${JSON.stringify(definition?.weight)})`);
+    }
+    for (const field of ['aliases', 'guardedAliases', 'parents']) {
+      const value = definition?.[field];
+      if (value !== undefined && !(Array.isArray(value) && value.every(v => typeof v === 'string' && v.trim().length > 0))) {
+        problems.push(`${at}.${field} must be an array of non-empty strings`);
+      }
+    }
+    const localized = definition?.localizedAliases;
+    if (localized !== undefined && !(typeof localized === 'object' && localized !== null && !Array.isArray(localized)
+      && Object.entries(localized).every(([language, aliases]) => (LANGUAGES as readonly string[]).includes(language)
+        && Array.isArray(aliases) && aliases.every(a => typeof a === 'string' && a.trim().length > 0)))) {
+      problems.push(`${at}.localizedAliases must map ${LANGUAGES.join(', ')} to arrays of non-empty strings`);
+    }
+    const related = definition?.related;
+    if (related !== undefined && !(typeof related === 'object' && related !== null && !Array.isArray(related)
+      && Object.values(related).every(isSimilarity))) {
+      problems.push(`${at}.related must map skill IDs to similarities in (0, 1]`);
+    }
+
+    skills.set(id, {
+      id,
+      category: definition?.category,
+      weight: definition?.weight,
+      aliases: Array.isArray(definition?.aliases) ? definition.aliases.map((a: string) => a.toLowerCase()) : [],
+      guardedAliases: Array.isArray(definition?.guardedAliases) ? definition.guardedAliases.map((a: string) => a.toLowerCase()) : [],
+      localizedAliases: typeof localized === 'object' && localized !== null && !Array.isArray(localized)
+        ? Object.fromEntries(Object.entries<string[]>(localized).map(([language, aliases]) =>
+          [language, Array.isArray(aliases) ? aliases.map(a => String(a).toLowerCase()) : []]))
+        : {},
+      parents: Array.isArray(definition?.parents) ? definition.parents : [],
+      related: typeof related === 'object' && related !== null && !Array.isArray(related) ? related : {},
+    });
+  }
+
+  const isA = { ...DEFAULT_IS_A_SIMILARITY, ...raw.isASimilarity };
+  for (const direction of Object.keys(DEFAULT_IS_A_SIMILARITY) as Array<keyof IsASimilarity>) {
+    if (!isSimilarity(isA[direction])) {
+      problems.push(`isASimilarity.${direction} must be a similarity in (0, 1] (got ${JSON.stringify(isA[direction])})`);
+    }
+  }
+
+  // Every term must name exactly one skill, or detection would be ambiguous
+  const owners = new Map<string, string>();
+  for (const skill of skills.values()) {
+    const localizedTerms = Object.values(skill.localizedAliases).flatMap(aliases => aliases ?? []);
+    for (const term of new Set([skill.id.replace(/_/g, ' '), ...skill.aliases, ...skill.guardedAliases, ...localizedTerms])) {
+      const owner = owners.get(term);
+      if (owner !== undefined && owner !== skill.id) {
+        problems.push(`"${term}" names both ${owner} and ${skill.id}`);
+      }
+      owners.set(term, skill.id);
+    }
+  }
+
+  for (const skill of skills.values()) {
+    for (const parent of skill.parents) {
+      if (!skills.has(parent)) {
+        problems.push(`skills["${skill.id}"].parents: unknown skill "${parent}"`);
+      }
+    }
+    for (const other of Object.keys(skill.related)) {
+      if (!skills.has(other) || other === skill.id) {
+        problems.push(`skills["${skill.id}"].related: ${other === skill.id ? 'a skill cannot relate to itself' : `unknown skill "${other}"`}`);
+      }
+    }
+  }
+  for (const skill of skills.values()) {
+    const cycle = findParentCycle(skill.id, skills);
+    // Report each cycle once, from its alphabetically first member
+    if (cycle && cycle[0] === skill.id && cycle.every(id => id >= skill.id)) {
+      problems.push(`parent cycle: ${cycle.join(' -> ')}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new TaxonomyValidationError(filePath, problems);
+  }
+
+  return { filePath, version: raw.version, loadedAt: new Date().toISOString(), skills, isA };
+}
+
+function isSimilarity(value: unknown): boolean {
+  return typeof value === 'number' && value > 0 && value <= 1;
+}
+
+function findParentCycle(start: string, skills: Map<string, SkillDefinition>, trail: string[] = []): string[] | null {
+  if (trail.includes(start)) {
+    return [...trail.slice(trail.indexOf(start)), start];
+  }
+  for (const parent of skills.get(start)?.parents ?? []) {
+    const cycle = findParentCycle(parent, skills, [...trail, start]);
+    if (cycle) return cycle;
+  }
+  return null;
+}
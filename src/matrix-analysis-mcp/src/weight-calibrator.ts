@@ -0,0 +1,215 @@
+import { ParameterMatch, WeightMultipliers, knockoutFactor, weightedMatchScore } from './weight-profile.js';
+
+/**
+ * Fits weight multipliers to recorded application outcomes.
+ *
+ * Each sample is one job-CV pair that was applied with, scored parameter by
+ * parameter by MatrixGenerator, and labelled a success (interview) or not
+ * (rejection, no response). The overall match score is a weighted mean of
+ * the parameter matches (times knockout factors for missing required
+ * parameters and unmet typed requirements, which the multipliers do not
+ * change), so the multipliers decide
+ * how much each category and parameter counts. They are fitted by gradient descent on the squared
+ * error between score and outcome (the Brier score), in log space so they
+ * stay positive, with L2 shrinkage towards 1 and bounded to [0.25, 4].
+ *
+ * Parameters seen in fewer than `minParameterSamples` samples keep a
+ * multiplier of 1; categories are always fitted.
+ */
+
+export const MIN_CALIBRATION_SAMPLES = 5;
+export const DEFAULT_MIN_PARAMETER_SAMPLES = 3;
+
+const ITERATIONS = 500;
+const LEARNING_RATE = 5;
+const CATEGORY_REGULARIZATION = 0.01;
+const PARAMETER_REGULARIZATION = 0.05; // Parameters have fewer samples each, so shrink harder
+const MAX_LOG_MULTIPLIER = Math.log(4);
+const CROSS_VALIDATION_MIN_SAMPLES = 10;
+const CROSS_VALIDATION_FOLDS = 5;
+
+export interface CalibrationSample {
+  id: string;
+  success: boolean;
+  matches: ParameterMatch[];
+  requirementKnockout?: number; // From MatrixGenerator.checkJobRequirements; 1 if omitted
+}
+
+export interface PredictiveQuality {
+  samples: number;
+  successes: number;
+  auc: number | null; // Chance that a success outscores a failure; null without both
+  brierScore: number; // Mean squared error of score vs outcome; lower is better
+  meanScoreSuccess: number | null;
+  meanScoreFailure: number | null;
+}
+
+export interface CalibrationResult {
+  multipliers: WeightMultipliers;
+  before: PredictiveQuality; // On the full history with the default weights
+  after: PredictiveQuality; // On the full history with the fitted multipliers
+  crossValidation: { folds: number; before: PredictiveQuality; after: PredictiveQuality } | null;
+  scores: Array<{ id: string; success: boolean; before: number; after: number }>;
+}
+
+export class WeightCalibrator {
+  /**
+   * Fits multipliers to the samples and reports predictive quality before
+   * and after. With enough samples, also reports k-fold cross-validated
+   * quality, which shows whether the improvement holds for applications the
+   * fit has not seen.
+   *
+   * @throws Error if there are too few samples or only one kind of outcome
+   */
+  calibrate(samples: CalibrationSample[], minParameterSamples: number = DEFAULT_MIN_PARAMETER_SAMPLES): CalibrationResult {
+    const successes = samples.filter(s => s.success).length;
+    if (samples.length < MIN_CALIBRATION_SAMPLES) {
+      throw new Error(`Need at least ${MIN_CALIBRATION_SAMPLES} applications with an outcome to calibrate (have ${samples.length})`);
+    }
+    if (successes === 0 || successes === samples.length) {
+      throw new Error('Need both successful (interview) and unsuccessful (rejection, no response) applications to calibrate');
+    }
+
+    const multipliers = this.fit(samples, minParameterSamples);
+
+    return {
+      multipliers,
+      before: this.evaluate(samples),
+      after: this.evaluate(samples, multipliers),
+      crossValidation: samples.length >= CROSS_VALIDATION_MIN_SAMPLES
+        ? this.crossValidate(samples, minParameterSamples)
+        : null,
+      scores: samples.map(sample => ({
+        id: sample.id,
+        success: sample.success,
+        before: round(sampleScore(sample)),
+        after: round(sampleScore(sample, multipliers)),
+      })),
+    };
+  }
+
+  fit(samples: CalibrationSample[], minParameterSamples: number): WeightMultipliers {
+    const categoryLogs = new Map<string, number>();
+    const parameterLogs = new Map<string, number>();
+
+    const parameterCounts = new Map<string, number>();
+    for (const sample of samples) {
+      for (const match of sample.matches) {
+        categoryLogs.set(match.category, 0);
+      }
+      for (const parameter of new Set(sample.matches.map(m => m.parameter))) {
+        parameterCounts.set(parameter, (parameterCounts.get(parameter) ?? 0) + 1);
+      }
+    }
+    for (const [parameter, count] of parameterCounts) {
+      if (count >= minParameterSamples) parameterLogs.set(parameter, 0);
+    }
+
+    for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+      const categoryGradients = new Map<string, number>();
+      const parameterGradients = new Map<string, number>();
+
+      for (const sample of samples) {
+        const weights = sample.matches.map(m =>
+          m.jobWeight * Math.exp((categoryLogs.get(m.category) ?? 0) + (parameterLogs.get(m.parameter) ?? 0)));
+        const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+        if (totalWeight === 0) continue;
+
+        const knockout = knockoutFactor(sample.matches) * (sample.requirementKnockout ?? 1);
+        const weightedMean = sample.matches.reduce((sum, m, i) => sum + m.matchScore * weights[i], 0) / totalWeight;
+        const lossGradient = 2 * (knockout * weightedMean - (sample.success ? 1 : 0)) / samples.length;
+
+        // d(score)/d(log multiplier) of a parameter = knockout × weight × (matchScore - weightedMean) / totalWeight
+        sample.matches.forEach((m, i) => {
+          const gradient = lossGradient * knockout * weights[i] * (m.matchScore - weightedMean) / totalWeight;
+          categoryGradients.set(m.category, (categoryGradients.get(m.category) ?? 0) + gradient);
+          if (parameterLogs.has(m.parameter)) {
+            parameterGradients.set(m.parameter, (parameterGradients.get(m.parameter) ?? 0) + gradient);
+          }
+        });
+      }
+
+      step(categoryLogs, categoryGradients, CATEGORY_REGULARIZATION);
+      step(parameterLogs, parameterGradients, PARAMETER_REGULARIZATION);
+    }
+
+    return {
+      categories: toMultipliers(categoryLogs),
+      parameters: toMultipliers(parameterLogs),
+    };
+  }
+
+  evaluate(samples: CalibrationSample[], multipliers?: WeightMultipliers): PredictiveQuality {
+    return quality(samples.map(sample => ({
+      score: sampleScore(sample, multipliers),
+      success: sample.success,
+    })));
+  }
+
+  private crossValidate(samples: CalibrationSample[], minParameterSamples: number): NonNullable<CalibrationResult['crossValidation']> {
+    // Deterministic folds, so repeated calibrations of the same history agree
+    const ordered = [...samples].sort((a, b) => a.id.localeCompare(b.id));
+    const before: Array<{ score: number; success: boolean }> = [];
+    const after: Array<{ score: number; success: boolean }> = [];
+
+    for (let fold = 0; fold < CROSS_VALIDATION_FOLDS; fold++) {
+      const heldOut = ordered.filter((_, i) => i % CROSS_VALIDATION_FOLDS === fold);
+      const training = ordered.filter((_, i) => i % CROSS_VALIDATION_FOLDS !== fold);
+      const multipliers = this.fit(training, minParameterSamples);
+
+      for (const sample of heldOut) {
+        before.push({ score: sampleScore(sample), success: sample.success });
+        after.push({ score: sampleScore(sample, multipliers), success: sample.success });
+      }
+    }
+
+    return { folds: CROSS_VALIDATION_FOLDS, before: quality(before), after: quality(after) };
+  }
+}
+
+// The overall match score as MatrixGenerator computes it, before any employment terms blend
+function sampleScore(sample: CalibrationSample, multipliers?: WeightMultipliers): number {
+  return weightedMatchScore(sample.matches, multipliers) * (sample.requirementKnockout ?? 1);
+}
+
+function step(logs: Map<string, number>, gradients: Map<string, number>, regularization: number): void {
+  for (const [key, value] of logs) {
+    const next = value - LEARNING_RATE * ((gradients.get(key) ?? 0) + 2 * regularization * value);
+    logs.set(key, Math.max(-MAX_LOG_MULTIPLIER, Math.min(MAX_LOG_MULTIPLIER, next)));
+  }
+}
+
+function toMultipliers(logs: Map<string, number>): Record<string, number> {
+  return Object.fromEntries([...logs.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([key, value]) => [key, round(Math.exp(value))]));
+}
+
+function quality(scored: Array<{ score: number; success: boolean }>): PredictiveQuality {
+  const successScores = scored.filter(s => s.success).map(s => s.score);
+  const failureScores = scored.filter(s => !s.success).map(s => s.score);
+
+  // Mann-Whitney estimate of the area under the ROC curve; ties count half
+  let wins = 0;
+  for (const success of successScores) {
+    for (const failure of failureScores) {
+      wins += success > failure ? 1 : success === failure ? 0.5 : 0;
+    }
+  }
+  const pairs = successScores.length * failureScores.length;
+
+  return {
+    samples: scored.length,
+    successes: successScores.length,
+    auc: pairs > 0 ? round(wins / pairs) : null,
+    brierScore: round(scored.reduce((sum, s) => sum + (s.score - (s.success ? 1 : 0)) ** 2, 0) / Math.max(1, scored.length)),
+    meanScoreSuccess: mean(successScores),
+    meanScoreFailure: mean(failureScores),
+  };
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? round(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,207 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PartialCredit } from './skill-graph.js';
+import { RequirementLevel } from './job-sections.js';
+import { SkillUsage } from './skill-recency.js';
+
+/**
+ * Versioned weight profiles produced by calibrate_match_weights.
+ *
+ * A profile holds multipliers for the job weights used when aggregating
+ * parameter matches into the overall score: one per category and, where
+ * there was enough history, one per parameter. A parameter's effective weight
+ * is jobWeight × categoryMultiplier × parameterMultiplier; missing entries
+ * count as 1.
+ *
+ * Profiles are stored as data/weight-profiles/<profileId>/<version>.json.
+ * Every calibration writes a new version; older versions are kept so a match
+ * can be reproduced with the profile it was scored with.
+ */
+
+export const WEIGHT_PROFILES_DIR_NAME = 'weight-profiles';
+export const DEFAULT_WEIGHT_PROFILE_ID = 'default';
+
+// A parameter matched below this is missing; if it is required, that is a hard gap
+export const GAP_THRESHOLD = 0.3;
+// Each hard gap multiplies the overall score by this
+export const KNOCKOUT_FACTOR = 0.75;
+
+export const PROFILE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,99}$/;
+
+export interface WeightMultipliers {
+  categories: Record<string, number>;
+  parameters: Record<string, number>;
+}
+
+export interface WeightProfile {
+  profileId: string;
+  version: number;
+  createdAt: string;
+  multipliers: WeightMultipliers;
+  calibration: any; // Report of the calibration that produced this version
+}
+
+export interface WeightProfileSummary {
+  profileId: string;
+  versions: number[];
+  latestVersion: number;
+  createdAt: string; // Of the latest version
+}
+
+// One parameter of a job-CV pair, as scored by MatrixGenerator
+export interface ParameterMatch {
+  parameter: string;
+  category: string;
+  jobWeight: number;
+  cvStrength: number; // With partial credit: the credited strength (CV strength × similarity)
+  matchScore: number;
+  partialCredit?: PartialCredit; // Set when the 'graph' match mode credited a related CV skill
+  requirementLevel?: RequirementLevel;
+  cvUsage?: SkillUsage; // Of the CV skill matched (or credited): current or historic expertise
+}
+
+/**
+ * The overall match score: the mean parameter match weighted by the
+ * (profile-adjusted) job weights, times the knockout factor for missing
+ * required parameters. MatrixGenerator and the calibrator both multiply it
+ * by the knockout for unmet typed requirements, so a profile scores matches
+ * as it was fitted; the employment terms blend, applied only with term
+ * preferences, is not part of the fit.
+ */
+export function weightedMatchScore(matches: ParameterMatch[], multipliers?: WeightMultipliers): number {
+  let totalWeightedScore = 0;
+  let totalWeight = 0;
+
+  for (const match of matches) {
+    const weight = match.jobWeight * weightMultiplier(match, multipliers);
+    totalWeightedScore += match.matchScore * weight;
+    totalWeight += weight;
+  }
+
+  return totalWeight > 0 ? knockoutFactor(matches) * totalWeightedScore / totalWeight : 0;
+}
+
+export function isHardGap(match: Pick<ParameterMatch, 'matchScore' | 'requirementLevel'>): boolean {
+  return match.requirementLevel === 'required' && match.matchScore < GAP_THRESHOLD;
+}
+
+/**
+ * KNOCKOUT_FACTOR per hard gap: a CV missing two required skills keeps at
+ * most 0.56 of its weighted score, however well it matches the rest.
+ */
+export function knockoutFactor(matches: ParameterMatch[]): number {
+  return KNOCKOUT_FACTOR ** matches.filter(isHardGap).length;
+}
+
+export function weightMultiplier(match: Pick<ParameterMatch, 'parameter' | 'category'>, multipliers?: WeightMultipliers): number {
+  if (!multipliers) return 1;
+  return (multipliers.categories[match.category] ?? 1) * (multipliers.parameters[match.parameter] ?? 1);
+}
+
+export class WeightProfileStore {
+  private readonly profilesDir: string;
+
+  constructor(dataDir: string) {
+    this.profilesDir = path.join(dataDir, WEIGHT_PROFILES_DIR_NAME);
+  }
+
+  async list(): Promise<WeightProfileSummary[]> {
+    const summaries: WeightProfileSummary[] = [];
+
+    for (const profileId of (await this.readDir(this.profilesDir)).sort()) {
+      const versions = await this.versions(profileId);
+      if (versions.length === 0) continue;
+
+      const latest = await this.load(profileId, versions[versions.length - 1]);
+      summaries.push({
+        profileId,
+        versions,
+        latestVersion: latest.version,
+        createdAt: latest.createdAt,
+      });
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Loads a profile version, or the latest one when `version` is omitted.
+   *
+   * @throws Error if the profile or version does not exist
+   */
+  async load(profileId: string, version?: number): Promise<WeightProfile> {
+    assertProfileId(profileId);
+
+    const versions = await this.versions(profileId);
+    if (versions.length === 0) {
+      throw new Error(`Weight profile not found: ${profileId}`);
+    }
+    const selected = version ?? versions[versions.length - 1];
+    if (!versions.includes(selected)) {
+      throw new Error(`Weight profile version not found: ${profileId} v${selected} (available: ${versions.join(', ')})`);
+    }
+
+    return JSON.parse(await fs.readFile(this.profilePath(profileId, selected), 'utf-8'));
+  }
+
+  /**
+   * Stores the multipliers as the next version of the profile. Concurrent
+   * saves never overwrite each other: the version file is linked into place
+   * only if it does not exist yet.
+   */
+  async save(profileId: string, multipliers: WeightMultipliers, calibration: any): Promise<WeightProfile> {
+    assertProfileId(profileId);
+    await fs.mkdir(path.join(this.profilesDir, profileId), { recursive: true });
+
+    for (;;) {
+      const versions = await this.versions(profileId);
+      const profile: WeightProfile = {
+        profileId,
+        version: (versions[versions.length - 1] ?? 0) + 1,
+        createdAt: new Date().toISOString(),
+        multipliers,
+        calibration,
+      };
+
+      const target = this.profilePath(profileId, profile.version);
+      const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(temp, JSON.stringify(profile, null, 2), 'utf-8');
+      try {
+        await fs.link(temp, target);
+        return profile;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+        // Another calibration took this version; try the next one
+      } finally {
+        await fs.unlink(temp);
+      }
+    }
+  }
+
+  private async versions(profileId: string): Promise<number[]> {
+    return (await this.readDir(path.join(this.profilesDir, profileId)))
+      .map(name => /^(\d+)\.json$/.exec(name)?.[1])
+      .filter((version): version is string => version !== undefined)
+      .map(Number)
+      .sort((a, b) => a - b);
+  }
+
+  private profilePath(profileId: string, version: number): string {
+    return path.join(this.profilesDir, profileId, `${version}.json`);
+  }
+
+  private async readDir(dir: string): Promise<string[]> {
+    try {
+      return await fs.readdir(dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+}
+
+export function assertProfileId(profileId: string): void {
+  if (typeof profileId !== 'string' || !PROFILE_ID_PATTERN.test(profileId)) {
+    throw new Error(`Invalid weight profile ID "${profileId}": use 1-100 lowercase letters, digits and hyphens`);
+  }
+}
@@ -0,0 +1,16 @@
+#!/usr/bin/env node
+
+// Runs every self-contained check; test-analysis.ts needs a private CV and job and is run separately
+import './test-weight-calibration.js';
+import './test-batch-analysis.js';
+import './test-project-data.js';
+import './test-skill-taxonomy.js';
+import './test-skill-graph.js';
+import './test-job-sections.js';
+import './test-requirement-levels.js';
+import './test-requirements.js';
+import './test-employment-terms.js';
+import './test-preference-profile.js';
+import './test-cv-timeline.js';
+import './test-skill-recency.js';
+import './test-german-postings.js';
@@ -5,6 +5,7 @@ import { join } from 'path';
 import { JobAnalyzer } from '../src/job-analyzer.js';
 import { CVAnalyzer } from '../src/cv-analyzer.js';
 import { MatrixGenerator } from '../src/matrix-generator.js';
+import { SkillTaxonomy } from '../src/skill-taxonomy.js';
 
 // Configuration constants - use dynamic path detection
 const PROJECT_ROOT = process.env.CV_PROJECT_ROOT || path.join(__dirname, '../../..');
@@ -15,9 +16,10 @@ const TEST_CV_ID = 'ronald-wertlen-2025';
 async function testMatrixAnalysis() {
   console.log('🔍 Testing Matrix Analysis Service...\n');
 
-  const jobAnalyzer = new JobAnalyzer();
-  const cvAnalyzer = new CVAnalyzer();
-  const matrixGenerator = new MatrixGenerator();
+  const taxonomy = SkillTaxonomy.load();
+  const jobAnalyzer = new JobAnalyzer(taxonomy);
+  const cvAnalyzer = new CVAnalyzer(taxonomy);
+  const matrixGenerator = new MatrixGenerator(taxonomy);
 
   // Load test data
   console.log('📖 Loading test data...');
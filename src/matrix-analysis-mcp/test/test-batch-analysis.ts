@@ -0,0 +1,48 @@
+import assert from 'assert/strict';
+import { spawnSync } from 'child_process';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { check } from './check.js';
+
+const SERVER_DIR = path.join(__dirname, '..');
+
+// Calls one tool on a fresh server over stdio, with CV_PROJECT_ROOT at `projectRoot`
+function callTool(projectRoot: string, name: string, args: any): any {
+  const request = { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } };
+  const run = spawnSync('npx', ['tsx', 'src/index.ts'], {
+    cwd: SERVER_DIR,
+    input: `${JSON.stringify(request)}\n`,
+    env: { ...process.env, CV_PROJECT_ROOT: projectRoot },
+    encoding: 'utf-8',
+    timeout: 60_000,
+  });
+  const response = run.stdout.split('\n').filter(Boolean).map(line => JSON.parse(line)).find(message => message.id === 1);
+  assert.ok(response, `no response from the server: ${run.stderr}`);
+  return JSON.parse(response.result.content[0].text);
+}
+
+check('batch analysis reports a missing job in errors and analyzes the rest', () => {
+  const projectRoot = mkdtempSync(path.join(tmpdir(), 'matrix-analysis-batch-'));
+  try {
+    mkdirSync(path.join(projectRoot, 'data', 'jobs'), { recursive: true });
+    writeFileSync(path.join(projectRoot, 'data', 'jobs', 'job-python.json'), JSON.stringify({
+      title: 'Senior Python Engineer',
+      company: 'Acme GmbH',
+      description: 'You build APIs in Python and run them on Kubernetes.',
+    }));
+
+    const result = callTool(projectRoot, 'analyze_jobs_batch_with_progress', {
+      jobIds: ['job-python', 'job-missing'],
+      concurrency: 2,
+    });
+
+    assert.deepEqual(result.batchAnalysis.map((r: any) => r.jobId), ['job-python']);
+    assert.ok(result.batchAnalysis[0].analysis.parameters.some((p: any) => p.name === 'python'));
+    assert.deepEqual(result.errors, [{ id: 'job-missing', error: 'Job not found: job-missing' }]);
+    assert.equal(result.summary.analyzedJobs, 1);
+    assert.equal(result.summary.failedJobs, 1);
+  } finally {
+    rmSync(projectRoot, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,99 @@
+import assert from 'assert/strict';
+import { check } from './check.js';
+import { buildTimeline } from '../src/cv-timeline.js';
+import { SkillTaxonomy } from '../src/skill-taxonomy.js';
+import { CVAnalyzer } from '../src/cv-analyzer.js';
+
+const NOW = new Date(2024, 5, 15); // June 2024
+
+check('concurrent roles count once and breaks of 3 months or more are gaps', () => {
+  const timeline = buildTimeline(`Backend Developer | Acme GmbH
+01/2020 - 12/2022
+Freelance Consultant
+06/2021 - 03/2022
+Junior Developer | Initech
+01/2018 - 06/2019`, NOW);
+
+  assert.deepEqual(timeline.roles.map(r => [r.title, r.start, r.end, r.employmentType]), [
+    ['Freelance Consultant', '2021-06', '2022-03', 'freelance'],
+    ['Backend Developer', '2020-01', '2022-12', 'full_time'],
+    ['Junior Developer', '2018-01', '2019-06', 'full_time'],
+  ]);
+  assert.equal(timeline.totalMonths, 36 + 18);
+  assert.deepEqual(timeline.gaps, [
+    { start: '2019-07', end: '2019-12', months: 6 },
+    { start: '2023-01', end: '2024-06', months: 18, ongoing: true },
+  ]);
+});
+
+check('a year without a month next to month-level dates leaves no gap', () => {
+  const timeline = buildTimeline(`Backend Developer | Acme GmbH
+Jan 2020 - present
+Junior Developer | Initech
+2015 - 2019
+Trainee | Globex
+2011 - 2012`, NOW);
+
+  assert.deepEqual(timeline.roles.map(r => [r.title, r.start, r.end]), [
+    ['Backend Developer', '2020-01', '2024-06'],
+    ['Junior Developer', '2015-07', '2019-06'],
+    ['Trainee', '2011-07', '2012-06'],
+  ]);
+  // Only 2013-2014 is certain; the year-only months around it are not counted as gap
+  assert.deepEqual(timeline.gaps, [{ start: '2013-01', end: '2014-12', months: 24 }]);
+});
+
+check('full German dates are read by month', () => {
+  const timeline = buildTimeline(`Softwareentwickler bei Beispiel AG
+15.03.2019 - 30.06.2021
+Werkstudent, Muster GmbH
+seit 01.10.2021`, NOW);
+
+  assert.deepEqual(timeline.roles.map(r => [r.title, r.company, r.start, r.end, r.current, r.employmentType]), [
+    ['Werkstudent', 'Muster GmbH', '2021-10', '2024-06', true, 'internship'],
+    ['Softwareentwickler', 'Beispiel AG', '2019-03', '2021-06', false, 'full_time'],
+  ]);
+});
+
+const analyzer = new CVAnalyzer(SkillTaxonomy.load());
+
+check('an "## Experience" section with a "### " heading per role keeps all roles', async () => {
+  const { timeline } = await analyzer.analyzeCV(`# Jane Doe
+
+## Experience
+
+### Backend Developer | Acme GmbH
+01/2020 - present
+- Built services in Python
+
+### Junior Developer | Initech
+01/2018 - 12/2019
+
+## Education
+
+### M.Sc. Computer Science
+2015 - 2017`);
+
+  assert.deepEqual(timeline.roles.map(r => r.title), ['Backend Developer', 'Junior Developer']);
+});
+
+check('"### Experience" followed by dated "### " role headings keeps all roles', async () => {
+  const { timeline } = await analyzer.analyzeCV(`# Jane Doe
+
+### Experience
+
+### Backend Developer, Acme GmbH, 01/2020 - present
+- Built services in Python
+
+### Junior Developer | Initech
+01/2018 - 12/2019
+
+### Skills
+Python, SQL`);
+
+  assert.deepEqual(timeline.roles.map(r => [r.title, r.company]), [
+    ['Backend Developer', 'Acme GmbH'],
+    ['Junior Developer', 'Initech'],
+  ]);
+  assert.ok(!timeline.roles.some(r => r.text.includes('SQL')));
+});
@@ -0,0 +1,48 @@
+import assert from 'assert/strict';
+import { check } from './check.js';
+import { extractTerms, evaluateTerms } from '../src/employment-terms.js';
+
+const terms = (description: string) => extractTerms('Backend Engineer', description);
+
+check('a salary range is read with currency, period and gross', () => {
+  const { salary, contractType, visaSponsorship, travelShare } = terms(
+    'Salary: €65,000 – €80,000 gross per year. Permanent position. Visa sponsorship available. Travel up to 20%.');
+
+  assert.deepEqual([salary?.min, salary?.max, salary?.currency, salary?.period, salary?.gross], [65000, 80000, 'EUR', 'year', true]);
+  assert.equal(contractType, 'permanent');
+  assert.equal(visaSponsorship, true);
+  assert.equal(travelShare, 0.2);
+});
+
+check('an amount without a salary cue is not a salary', () => {
+  assert.deepEqual(terms('5.000 € training budget per year.'), {});
+});
+
+check('a German posting with "Homeoffice" days is hybrid', () => {
+  const german = terms('Bruttojahresgehalt 60.000 - 75.000 €, unbefristet, 2 Tage Homeoffice pro Woche');
+
+  assert.equal(german.salary?.annualMax, 75000);
+  assert.equal(german.contractType, 'permanent');
+  assert.equal(german.workMode, 'hybrid');
+  assert.equal(german.officeDaysPerWeek, 3);
+});
+
+check('ruled-out remote work is on-site', () => {
+  for (const description of [
+    'This is an on-site role, no remote work possible.',
+    'Remote work is not possible; you work in our Berlin office.',
+  ]) {
+    assert.deepEqual(terms(description), { workMode: 'on_site', officeDaysPerWeek: 5 }, description);
+  }
+  assert.equal(terms('Fully remote within the EU.').workMode, 'remote');
+});
+
+check('filters name every term that fails', () => {
+  const onSite = terms('Salary: €65,000 – €80,000 per year. This is an on-site role, no remote work possible.');
+
+  assert.deepEqual(evaluateTerms(onSite, { filters: { minAnnualSalary: 70000, workModes: ['remote', 'hybrid'] } }).failedFilters,
+    ['workMode: on_site not in remote, hybrid']);
+  assert.deepEqual(evaluateTerms(onSite, { filters: { minAnnualSalary: 90000 } }).failedFilters,
+    ['salary: up to 80000 EUR a year, below 90000']);
+  assert.equal(evaluateTerms(onSite, { filters: { minAnnualSalary: 70000 } }).passesFilters, true);
+});
@@ -0,0 +1,59 @@
+import assert from 'assert/strict';
+import { check } from './check.js';
+import { SkillTaxonomy } from '../src/skill-taxonomy.js';
+import { JobAnalyzer } from '../src/job-analyzer.js';
+import { detectLanguage } from '../src/language.js';
+
+const ENGLISH = {
+  title: 'Senior Backend Developer',
+  company: 'Acme',
+  description: `Your profile
+- You have solid experience with Python and PostgreSQL
+- You know Docker and relational databases
+- Strong communication skills
+
+Nice to have
+- Terraform`,
+};
+
+const GERMAN = {
+  title: 'Senior Backend Entwickler (m/w/d)',
+  company: 'Acme',
+  description: `Dein Profil
+- Du hast fundierte Erfahrung mit Python und PostgreSQL
+- Du kennst Docker und relationale Datenbanken
+- Ausgeprägte Kommunikation im Team
+
+Wünschenswert
+- Terraform`,
+};
+
+const analyzer = new JobAnalyzer(SkillTaxonomy.load());
+const skills = (analysis: { parameters: Array<{ name: string; category: string }> }) =>
+  analysis.parameters.filter(p => !['location', 'company'].includes(p.category)).map(p => p.name).sort();
+
+check('German postings are detected as German, English ones as English', () => {
+  assert.equal(detectLanguage(GERMAN.description), 'de');
+  assert.equal(detectLanguage(ENGLISH.description), 'en');
+});
+
+check('a German posting yields the same canonical skill IDs as its English version', async () => {
+  const english = await analyzer.analyzeJob(ENGLISH);
+  const german = await analyzer.analyzeJob(GERMAN);
+
+  assert.equal(german.analysisMetadata.language, 'de');
+  assert.deepEqual(skills(german), skills(english));
+  assert.ok(skills(german).includes('communication'));
+  assert.ok(skills(german).includes('sql'));
+});
+
+check('German headings and phrasing set sections and requirement levels', async () => {
+  const german = await analyzer.analyzeJob(GERMAN);
+  const parameter = (name: string) => german.parameters.find(p => p.name === name)!;
+
+  assert.equal(parameter('python').source?.section, 'must_have');
+  assert.equal(parameter('python').requirementLevel, 'required');
+  assert.equal(parameter('terraform').source?.section, 'nice_to_have');
+  assert.equal(parameter('terraform').requirementLevel, 'bonus');
+  assert.equal(german.seniorityLevel, 'senior');
+});
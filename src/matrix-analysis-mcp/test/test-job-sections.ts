@@ -0,0 +1,51 @@
+import assert from 'assert/strict';
+import { check } from './check.js';
+import { SkillTaxonomy } from '../src/skill-taxonomy.js';
+import { JobAnalyzer } from '../src/job-analyzer.js';
+import { segmentPosting } from '../src/job-sections.js';
+
+const POSTING = `About us
+We are a fintech company whose backend runs on Java.
+
+Requirements
+- Python and PostgreSQL
+- Kubernetes
+
+Nice to have
+- Terraform
+
+Benefits
+- Free Docker workshops`;
+
+const analyzer = new JobAnalyzer(SkillTaxonomy.load());
+
+check('postings are split at recognized headings', () => {
+  assert.deepEqual(segmentPosting('Backend Engineer', POSTING).map(section => section.section),
+    ['title', 'about_us', 'must_have', 'nice_to_have', 'benefits']);
+});
+
+check('a parameter is weighted by the section it is stated in', async () => {
+  const analysis = await analyzer.analyzeJob({ title: 'Backend Engineer', company: 'Acme', description: POSTING });
+  const parameter = (name: string) => analysis.parameters.find(p => p.name === name)!;
+
+  assert.equal(parameter('python').source?.section, 'must_have');
+  assert.equal(parameter('terraform').source?.section, 'nice_to_have');
+  assert.equal(parameter('java').source?.section, 'about_us');
+  assert.equal(parameter('docker').source?.section, 'benefits');
+  assert.ok(parameter('kubernetes').weight > parameter('terraform').weight);
+  assert.ok(parameter('terraform').weight > parameter('java').weight);
+});
+
+check('earlier mentions within a section count a little more', async () => {
+  const analysis = await analyzer.analyzeJob({ title: 'Engineer', company: 'Acme', description: POSTING });
+  const python = analysis.parameters.find(p => p.name === 'python')!.source!;
+  const kubernetes = analysis.parameters.find(p => p.name === 'kubernetes')!.source!;
+
+  assert.ok(python.position < kubernetes.position);
+  assert.ok(python.positionMultiplier > kubernetes.positionMultiplier);
+});
+
+check('a skill in the title counts as a title mention', async () => {
+  const analysis = await analyzer.analyzeJob({ title: 'Senior Python Developer', company: 'Acme', description: 'Build APIs.' });
+  assert.equal(analysis.parameters.find(p => p.name === 'python')?.source?.section, 'title');
+});
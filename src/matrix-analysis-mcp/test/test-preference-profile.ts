@@ -0,0 +1,71 @@
+import assert from 'assert/strict';
+import { check } from './check.js';
+import { JobFacts, PreferenceProfile, assertPreferenceProfile, companySizeOf, evaluatePreferences } from '../src/preference-profile.js';
+
+const INDUSTRIES = ['fintech', 'healthcare', 'gaming'];
+
+const PROFILE: PreferenceProfile = {
+  profileId: 'jane',
+  locations: [{ place: 'Berlin', radiusKm: 50 }],
+  remoteTolerance: 'hybrid',
+  maxOfficeDaysPerWeek: 3,
+  industries: { preferred: ['fintech'], excluded: ['gaming'] },
+  companySizes: ['medium'],
+  salaryFloor: { annual: 70000, currency: 'EUR' },
+  excludedCompanies: ['Evil Corp'],
+};
+
+function job(facts: Partial<JobFacts>): JobFacts {
+  return { company: 'Acme GmbH', industries: [], terms: {}, ...facts };
+}
+
+check('company size is read from an employee count or wording', () => {
+  assert.equal(companySizeOf('We are 450 Mitarbeitende in Berlin'), 'medium');
+  assert.equal(companySizeOf('A team of 1.200 employees'), 'large');
+  assert.equal(companySizeOf('An early-stage startup'), 'startup');
+  assert.equal(companySizeOf('A great place to work'), undefined);
+});
+
+check('a job within the preferences passes and scores its location, industry and size', () => {
+  const fit = evaluatePreferences(job({
+    location: 'Potsdam, Germany',
+    companySize: 'large',
+    industries: ['fintech'],
+    terms: { workMode: 'hybrid', officeDaysPerWeek: 2, salary: { min: 70000, max: 85000, currency: 'EUR', period: 'year', annualMin: 70000, annualMax: 85000, text: '' } },
+  }), PROFILE);
+
+  assert.equal(fit.passesFilters, true);
+  assert.deepEqual(fit.scores, { location: 1, industry: 1, companySize: 0.5 });
+  assert.deepEqual(fit.unknown, []);
+});
+
+check('hard preferences fail a job, and unstated facts are unknown', () => {
+  const fit = evaluatePreferences(job({
+    company: 'Evil Corp Europe',
+    location: 'Hamburg',
+    industries: ['gaming'],
+    terms: { workMode: 'on_site', officeDaysPerWeek: 5 },
+  }), PROFILE);
+
+  assert.equal(fit.passesFilters, false);
+  assert.deepEqual(fit.failedFilters, [
+    'company: Evil Corp Europe is excluded',
+    'industry: gaming excluded',
+    'workMode: on_site not in remote, hybrid',
+    'officeDaysPerWeek: 5 above 3',
+  ]);
+  assert.deepEqual(fit.unknown, ['salary', 'companySize']);
+  assert.equal(fit.scores.location, 0);
+});
+
+check('a profile with unknown fields is rejected, naming each', () => {
+  assert.doesNotThrow(() => assertPreferenceProfile(PROFILE, INDUSTRIES));
+  assert.throws(() => assertPreferenceProfile({
+    ...PROFILE,
+    remoteTolerence: 'remote_only',
+    locations: [{ place: 'Berlin', radius: 20 }],
+    salaryFloor: { annual: 70000, currency: 'EUR', bonus: true },
+  }, INDUSTRIES), {
+    message: 'Invalid preference profile: unknown field remoteTolerence; unknown field locations[0].radius; unknown field salaryFloor.bonus',
+  });
+});
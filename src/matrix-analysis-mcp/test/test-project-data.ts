@@ -0,0 +1,52 @@
+import assert from 'assert/strict';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { check } from './check.js';
+import { ProjectData } from '../src/project-data.js';
+
+const COMMON_DIR = path.join(__dirname, '../../common');
+
+async function withProjectRoot(fn: (projectRoot: string) => Promise<void>): Promise<void> {
+  const projectRoot = mkdtempSync(path.join(tmpdir(), 'matrix-analysis-data-'));
+  try {
+    await fn(projectRoot);
+  } finally {
+    rmSync(projectRoot, { recursive: true, force: true });
+  }
+}
+
+check('the entity ID and lock modules match the shared copies in src/common', () => {
+  for (const file of ['entity-id.ts', 'entity-locks.ts']) {
+    assert.equal(readFileSync(path.join(__dirname, '../src', file), 'utf-8'), readFileSync(path.join(COMMON_DIR, file), 'utf-8'), file);
+  }
+});
+
+check('a matrix is written only after filesystem-mcp releases its lock', () => withProjectRoot(async projectRoot => {
+  const lockDir = path.join(projectRoot, 'var', 'locks');
+  mkdirSync(lockDir, { recursive: true });
+  const lockFile = path.join(lockDir, 'matrix--matrix-job-1.lock');
+  writeFileSync(lockFile, JSON.stringify({ pid: 0, acquiredAt: new Date().toISOString() }));
+  setTimeout(() => rmSync(lockFile), 300);
+
+  const startedAt = Date.now();
+  const matrixPath = await new ProjectData(path.join(projectRoot, 'data'), lockDir).writeMatrix('matrix-job-1', { type: 'Job' });
+  assert.ok(Date.now() - startedAt >= 250, `written after ${Date.now() - startedAt}ms`);
+  assert.deepEqual(JSON.parse(readFileSync(matrixPath, 'utf-8')), { type: 'Job' });
+  assert.ok(!existsSync(lockFile));
+}));
+
+check('jobs and matrices are refused when filesystem-mcp uses another storage backend', () => withProjectRoot(async projectRoot => {
+  const projectData = new ProjectData(path.join(projectRoot, 'data'), path.join(projectRoot, 'var', 'locks'), 'sqlite');
+  const refused = /CV_STORAGE_BACKEND is "sqlite"/;
+  await assert.rejects(projectData.readJob('job-1'), refused);
+  await assert.rejects(projectData.writeMatrix('matrix-job-1', { type: 'Job' }), refused);
+  assert.ok(!existsSync(path.join(projectRoot, 'data')));
+}));
+
+check('matrix IDs follow filesystem-mcp rules: existing non-slug names pass, traversal does not', () => withProjectRoot(async projectRoot => {
+  const projectData = new ProjectData(path.join(projectRoot, 'data'), path.join(projectRoot, 'var', 'locks'));
+  const matrixPath = await projectData.writeMatrix('Matrix Müller', { type: 'Job' });
+  assert.equal(path.basename(matrixPath), 'Matrix Müller.json');
+  await assert.rejects(projectData.writeMatrix('../escape', { type: 'Job' }), /Invalid matrixId: must not contain path separators/);
+}));
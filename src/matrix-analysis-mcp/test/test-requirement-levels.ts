@@ -0,0 +1,59 @@
+import assert from 'assert/strict';
+import { check } from './check.js';
+import { SkillTaxonomy } from '../src/skill-taxonomy.js';
+import { JobAnalyzer } from '../src/job-analyzer.js';
+import { MatrixGenerator } from '../src/matrix-generator.js';
+import { KNOCKOUT_FACTOR } from '../src/weight-profile.js';
+
+const JOB = {
+  jobId: 'job-backend',
+  title: 'Backend Engineer',
+  company: 'Acme',
+  description: 'Python is required. Experience with Kubernetes is a plus. Ideally you know Terraform.',
+};
+
+const CV = `# Jane Doe
+
+## Experience
+
+### Backend Developer | Acme GmbH
+01/2019 - present
+- Built services in Python on Kubernetes
+`;
+
+const taxonomy = SkillTaxonomy.load();
+
+check('phrasing sets the requirement level: "required", "is a plus", "ideally"', async () => {
+  const analysis = await new JobAnalyzer(taxonomy).analyzeJob(JOB);
+  const level = (name: string) => analysis.parameters.find(p => p.name === name)?.requirementLevel;
+
+  assert.equal(level('python'), 'required');
+  assert.equal(level('kubernetes'), 'bonus');
+  assert.equal(level('terraform'), 'preferred');
+});
+
+check('the section sets the level when the phrasing does not', async () => {
+  const analysis = await new JobAnalyzer(taxonomy).analyzeJob({
+    title: 'Backend Engineer',
+    company: 'Acme',
+    description: 'Requirements:\n- Python\n\nNice to have:\n- Docker',
+  });
+  const level = (name: string) => analysis.parameters.find(p => p.name === name)?.requirementLevel;
+
+  assert.equal(level('python'), 'required');
+  assert.equal(level('docker'), 'bonus');
+});
+
+check('a missing required skill is a hard gap with a knockout, a missing bonus skill is not', async () => {
+  const generator = new MatrixGenerator(taxonomy);
+  const jobMatrix = await generator.generateJobMatrix([{
+    ...JOB,
+    description: 'Java is required. Docker is a plus. Python and Kubernetes are required.',
+  }]);
+  const cvMatrix = await generator.generateCVMatrix(CV, 'jane-doe');
+  const [match] = (await generator.calculateMatch(jobMatrix, cvMatrix)).matches;
+
+  assert.deepEqual(match.hardGaps, ['java']);
+  assert.ok(!match.hardGaps.includes('docker'));
+  assert.equal(match.knockoutPenalty, KNOCKOUT_FACTOR);
+});
@@ -0,0 +1,73 @@
+import assert from 'assert/strict';
+import { check } from './check.js';
+import { SkillTaxonomy } from '../src/skill-taxonomy.js';
+import { segmentPosting } from '../src/job-sections.js';
+import { RequirementExtractor, checkRequirements } from '../src/requirements.js';
+
+const POSTING = `Requirements:
+- 5+ years of Python and 3+ years Go
+- At least 3 years of professional experience
+- Master's degree in Computer Science or equivalent experience
+- CKA certification is required
+- Fluent English, German at B2 level
+
+Nice to have:
+- AWS Solutions Architect certification`;
+
+const CV = `# Jane Doe
+
+Python (8 years), Go since 2023
+M.Sc. Computer Science, TU Berlin
+Certified Kubernetes Administrator (CKA)
+Languages: English (C1), German (native)`;
+
+const taxonomy = SkillTaxonomy.load();
+const extractor = new RequirementExtractor(taxonomy);
+const requirements = extractor.fromPosting(segmentPosting('Backend Engineer', POSTING));
+
+check('years are read per skill, including the guarded "Go" alias, and overall', () => {
+  assert.deepEqual(requirements.skillYears.map(r => [r.skill, r.minYears, r.requirementLevel]), [
+    ['python', 5, 'required'],
+    ['golang', 3, 'required'],
+  ]);
+  assert.equal(requirements.experience?.minYears, 3);
+});
+
+check('"Go" as a verb is not a skill', () => {
+  const sections = segmentPosting('Growth Manager', 'Requirements:\n- 3+ years of go-to-market work, ready to go');
+  assert.deepEqual(extractor.fromPosting(sections).skillYears, []);
+});
+
+check('a degree with "or equivalent experience" is preferred', () => {
+  assert.equal(requirements.degree?.level, 'master');
+  assert.deepEqual(requirements.degree?.fields, ['computer_science']);
+  assert.equal(requirements.degree?.requirementLevel, 'preferred');
+});
+
+check('certifications and languages take the level of their section', () => {
+  assert.deepEqual(requirements.certifications.map(r => [r.certification, r.requirementLevel]), [
+    ['cka', 'required'],
+    ['aws_solutions_architect', 'bonus'],
+  ]);
+  assert.deepEqual(requirements.languages.map(r => [r.language, r.level]), [
+    ['english', 'C1'],
+    ['german', 'B2'],
+  ]);
+});
+
+check('the CV qualifications meet, miss or leave unknown each requirement', () => {
+  const qualifications = extractor.fromCV(CV);
+  const status = Object.fromEntries(checkRequirements(requirements, qualifications, 2)
+    .map(c => [`${c.kind}:${c.subject}`, c.status]));
+
+  assert.deepEqual(status, {
+    'experience:total': 'unmet',
+    'skill_years:python': 'met',
+    'skill_years:golang': 'unknown',
+    'degree:master': 'met',
+    'certification:cka': 'met',
+    'certification:aws_solutions_architect': 'unmet',
+    'language:english': 'met',
+    'language:german': 'met',
+  });
+});
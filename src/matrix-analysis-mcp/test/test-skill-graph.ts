@@ -0,0 +1,60 @@
+import assert from 'assert/strict';
+import { check } from './check.js';
+import { SkillTaxonomy } from '../src/skill-taxonomy.js';
+import { SkillGraph } from '../src/skill-graph.js';
+import { MatrixGenerator } from '../src/matrix-generator.js';
+
+const taxonomy = SkillTaxonomy.load();
+const graph = new SkillGraph(taxonomy);
+
+const CV = `# Jane Doe
+
+## Experience
+
+### Backend Developer | Acme GmbH
+01/2019 - present
+- Built REST services with Flask and MySQL
+`;
+
+check('a child skill covers most of its parent, a parent less of its child', () => {
+  assert.deepEqual(graph.similarSkills('python').get('django'), { similarity: 0.8, path: ['django', 'python'] });
+  assert.deepEqual(graph.similarSkills('django').get('python'), { similarity: 0.5, path: ['python', 'django'] });
+});
+
+check('similarities multiply along a path and the best path wins', () => {
+  // mysql → postgresql (related, 0.7) beats mysql → sql → postgresql (0.8 × 0.5)
+  assert.deepEqual(graph.similarSkills('postgresql').get('mysql'), { similarity: 0.7, path: ['mysql', 'postgresql'] });
+  assert.deepEqual(graph.similarSkills('sql').get('mysql'), { similarity: 0.8, path: ['mysql', 'sql'] });
+  assert.equal(graph.similarSkills('not-a-skill').size, 0);
+});
+
+check('bestCredit picks the highest strength × similarity', () => {
+  const credit = graph.bestCredit('postgresql', new Map([['mysql', 0.6], ['sql', 0.9], ['mssql', 1]]));
+
+  // mssql: 1 × 0.6, sql: 0.9 × 0.5, mysql: 0.6 × 0.7
+  assert.equal(credit?.cvParameter, 'mssql');
+  assert.deepEqual(credit?.path, ['mssql', 'postgresql']);
+  assert.equal(credit?.explanation, 'mssql → postgresql, 0.6');
+  assert.equal(graph.bestCredit('postgresql', new Map([['kubernetes', 1]])), null);
+});
+
+check('the graph match mode credits a related CV skill and explains it', async () => {
+  const generator = new MatrixGenerator(taxonomy);
+  const jobMatrix = await generator.generateJobMatrix([{
+    jobId: 'job-django',
+    title: 'Django Developer',
+    company: 'Acme',
+    description: 'Required: Django and PostgreSQL.',
+  }]);
+  const cvMatrix = await generator.generateCVMatrix(CV, 'jane-doe');
+
+  const exact = generator.scoreParameters(jobMatrix, 0, cvMatrix, 'exact');
+  const graphed = generator.scoreParameters(jobMatrix, 0, cvMatrix, 'graph');
+  const django = graphed.find(match => match.parameter === 'django');
+
+  assert.equal(exact.find(match => match.parameter === 'django')?.cvStrength, 0);
+  assert.equal(django?.partialCredit?.cvParameter, 'flask');
+  assert.equal(django?.partialCredit?.similarity, 0.6);
+  assert.equal(django?.cvStrength, django!.partialCredit!.cvStrength * 0.6);
+  assert.equal(graphed.find(match => match.parameter === 'postgresql')?.partialCredit?.cvParameter, 'mysql');
+});
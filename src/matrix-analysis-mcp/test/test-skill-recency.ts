@@ -0,0 +1,52 @@
+import assert from 'assert/strict';
+import { check } from './check.js';
+import { Role } from '../src/cv-timeline.js';
+import { DEFAULT_RECENCY_DECAY, assertRecencyDecay, skillUsage, usageStrength } from '../src/skill-recency.js';
+
+const NOW = new Date(2024, 5, 15); // June 2024
+
+function role(start: string, end: string, current = false): Role {
+  return { title: 'Developer', start, end, current, months: 0, employmentType: 'full_time', text: '' };
+}
+
+check('a skill last used 7.5 years ago decays to floor + (1 - floor) × 0.5^(7.5 / halfLife)', () => {
+  const usage = skillUsage([role('2012-01', '2014-12'), role('2015-01', '2016-12')], NOW, DEFAULT_RECENCY_DECAY)!;
+
+  assert.equal(usage.recency, 'historic');
+  assert.deepEqual([usage.firstUsed, usage.lastUsed, usage.years, usage.roles], ['2012-01', '2016-12', 5, 2]);
+  assert.equal(usage.recencyFactor, Math.round((0.4 + 0.6 * 0.5 ** (7.5 / 4)) * 1000) / 1000);
+  assert.equal(usage.explanation, 'historic: 5 years, last used 2016-12');
+});
+
+check('a skill of the ongoing role, or used within 12 months, is current and does not decay', () => {
+  assert.equal(skillUsage([role('2020-01', '2024-06', true)], NOW, DEFAULT_RECENCY_DECAY)!.recencyFactor, 1);
+  assert.equal(skillUsage([role('2020-01', '2023-06')], NOW, DEFAULT_RECENCY_DECAY)!.recency, 'current');
+  assert.equal(skillUsage([role('2020-01', '2023-05')], NOW, DEFAULT_RECENCY_DECAY)!.recency, 'historic');
+  assert.equal(skillUsage([], NOW, DEFAULT_RECENCY_DECAY), undefined);
+});
+
+check('a shorter half-life and lower floor decay faster', () => {
+  const roles = [role('2015-01', '2016-12')];
+  const slow = skillUsage(roles, NOW, DEFAULT_RECENCY_DECAY)!.recencyFactor;
+  const fast = skillUsage(roles, NOW, { halfLifeYears: 1, floor: 0 })!.recencyFactor;
+
+  assert.ok(fast < slow);
+  assert.equal(fast, Math.round(0.5 ** 7.5 * 1000) / 1000);
+});
+
+check('usage adds a capped bonus for years of use, then applies the decay', () => {
+  const current = skillUsage([role('2019-01', '2024-06', true)], NOW, DEFAULT_RECENCY_DECAY);
+  const historic = skillUsage([role('2015-01', '2016-12')], NOW, DEFAULT_RECENCY_DECAY)!;
+
+  assert.equal(usageStrength(0.5, undefined, 1), 0.5);
+  assert.equal(usageStrength(0.5, current, 1), 0.5 + 0.2);
+  assert.equal(usageStrength(0.9, current, 1), 1);
+  assert.equal(usageStrength(0.5, historic, 1), (0.5 + 2 * 0.04) * historic.recencyFactor);
+});
+
+check('a recency decay argument is checked', () => {
+  assert.doesNotThrow(() => assertRecencyDecay({ halfLifeYears: 2 }));
+  assert.throws(() => assertRecencyDecay({ halfLifeYears: 0, floor: 2 }),
+    { message: 'Invalid recencyDecay: halfLifeYears must be a positive number; floor must be a number in 0-1' });
+  assert.throws(() => assertRecencyDecay([]), { message: 'recencyDecay must be an object' });
+});
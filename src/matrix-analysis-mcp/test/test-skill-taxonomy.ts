@@ -0,0 +1,76 @@
+import assert from 'assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { check } from './check.js';
+import { SkillTaxonomy, TaxonomyValidationError } from '../src/skill-taxonomy.js';
+import { JobAnalyzer } from '../src/job-analyzer.js';
+
+const VALID = {
+  version: 1,
+  skills: {
+    python: { category: 'technical', weight: 0.8 },
+    django: { category: 'technical', weight: 0.7, aliases: ['django rest framework'], parents: ['python'] },
+    communication: { category: 'soft', weight: 0.5, localizedAliases: { de: ['kommunikation'] } },
+  },
+};
+
+const INVALID = {
+  version: 1,
+  skills: {
+    python: { category: 'technical', weight: 1.5, parents: ['django'] },
+    django: { category: 'tech', weight: 0.7, aliases: ['python'], parents: ['python', 'flask'] },
+  },
+};
+
+async function withTaxonomyFile(content: unknown, fn: (filePath: string) => void | Promise<void>): Promise<void> {
+  const dir = mkdtempSync(path.join(tmpdir(), 'matrix-analysis-taxonomy-'));
+  try {
+    const filePath = path.join(dir, 'skill-taxonomy.json');
+    writeFileSync(filePath, JSON.stringify(content));
+    await fn(filePath);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+check('the shipped taxonomy file is valid', () => {
+  const taxonomy = SkillTaxonomy.load();
+  assert.ok(taxonomy.summary().skills > 50);
+  assert.ok(taxonomy.get('kubernetes'));
+});
+
+check('job skills are read from the taxonomy file by ID and alias', () => withTaxonomyFile(VALID, async filePath => {
+  const analyzer = new JobAnalyzer(SkillTaxonomy.load(filePath));
+  const analysis = await analyzer.analyzeJob({ title: 'Backend Developer', company: 'Acme', description: 'You know the Django REST framework.' });
+
+  assert.deepEqual(analysis.parameters.filter(p => p.category === 'technical').map(p => p.name), ['django']);
+}));
+
+check('an invalid taxonomy file is rejected naming every problem', () => withTaxonomyFile(INVALID, filePath => {
+  const error = (() => {
+    try {
+      SkillTaxonomy.load(filePath);
+    } catch (error) {
+      return error;
+    }
+  })();
+
+  assert.ok(error instanceof TaxonomyValidationError);
+  assert.deepEqual(error.problems, [
+    'skills["python"].weight must be a number in 0-1 (got 1.5)',
+    'skills["django"].category must be one of technical, leadership, domain, soft (got "tech")',
+    '"python" names both python and django',
+    'skills["django"].parents: unknown skill "flask"',
+    'parent cycle: django -> python -> django',
+  ]);
+}));
+
+check('reloading an invalid file keeps the current taxonomy', () => withTaxonomyFile(VALID, filePath => {
+  const taxonomy = SkillTaxonomy.load(filePath);
+  writeFileSync(filePath, JSON.stringify(INVALID));
+
+  assert.throws(() => taxonomy.reload(), TaxonomyValidationError);
+  assert.equal(taxonomy.get('django')?.category, 'technical');
+  assert.deepEqual(taxonomy.terms('communication', 'de'), ['communication', 'kommunikation']);
+}));
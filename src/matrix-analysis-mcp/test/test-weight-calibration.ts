@@ -0,0 +1,49 @@
+import assert from 'assert/strict';
+import { check } from './check.js';
+import { CalibrationSample, WeightCalibrator } from '../src/weight-calibrator.js';
+import { ParameterMatch } from '../src/weight-profile.js';
+
+// Synthetic history: interviews follow the technical match, the soft match is noise
+function sample(id: number, technical: number, soft: number, success: boolean): CalibrationSample {
+  const matches: ParameterMatch[] = [
+    { parameter: 'python', category: 'technical', jobWeight: 0.8, cvStrength: technical, matchScore: technical },
+    { parameter: 'communication', category: 'soft', jobWeight: 0.8, cvStrength: soft, matchScore: soft },
+  ];
+  return { id: `app-${String(id).padStart(2, '0')}`, success, matches };
+}
+
+const samples = Array.from({ length: 12 }, (_, i) => {
+  const success = i % 2 === 0;
+  return sample(i, success ? 0.9 : 0.2, (i * 7 % 10) / 10, success);
+});
+
+check('calibration raises the weight of the predictive category', () => {
+  const result = new WeightCalibrator().calibrate(samples);
+
+  assert.ok(result.multipliers.categories.technical > 1, JSON.stringify(result.multipliers));
+  assert.ok(result.multipliers.categories.soft < 1, JSON.stringify(result.multipliers));
+  assert.ok(result.after.brierScore < result.before.brierScore);
+  assert.ok(result.after.auc! >= result.before.auc!);
+  assert.equal(result.crossValidation?.folds, 5);
+  assert.equal(result.scores.length, samples.length);
+});
+
+check('calibration keeps parameters seen too rarely at 1', () => {
+  const result = new WeightCalibrator().calibrate(samples, samples.length + 1);
+  assert.deepEqual(result.multipliers.parameters, {});
+});
+
+check('calibration refuses too few samples or one kind of outcome', () => {
+  assert.throws(() => new WeightCalibrator().calibrate(samples.slice(0, 4)), /at least 5/);
+  assert.throws(() => new WeightCalibrator().calibrate(samples.filter(s => s.success)), /both successful/);
+});
+
+check('calibration scores applications with their requirement knockout, as matching does', () => {
+  const knockedOut = samples.map(s => ({ ...s, requirementKnockout: s.success ? 1 : 0.75 }));
+  const plain = new WeightCalibrator().calibrate(samples);
+  const result = new WeightCalibrator().calibrate(knockedOut);
+
+  const failure = result.scores.find(s => !s.success)!;
+  const unscaled = plain.scores.find(s => s.id === failure.id)!;
+  assert.ok(Math.abs(failure.before - unscaled.before * 0.75) < 0.002, `${failure.before} vs ${unscaled.before}`);
+});